@@ -10,9 +10,19 @@ import linkRoutes from './routes/link.routes';
 import metadataRoutes from './routes/metadata.routes';
 import adminUsersRoutes from './routes/admin.users.routes';
 import adminLinksRoutes from './routes/admin.links.routes';
+import adminPoliciesRoutes from './routes/admin.policies.routes';
+import adminSafetyRoutes from './routes/admin.safety.routes';
+import domainRoutes from './routes/domain.routes';
+import workspaceRoutes from './routes/workspace.routes';
+import apiKeyRoutes from './routes/apiKey.routes';
+import webhookRoutes from './routes/webhook.routes';
+import { redirectOnCustomDomain } from './controllers/link.controller';
 
 const app = express();
 
+// req.ip takes the client address from X-Forwarded-For only across these proxy hops
+app.set('trust proxy', env.TRUST_PROXY_HOPS);
+
 app.use(helmet());
 app.use(cors({
   origin: env.CORS_ORIGIN,
@@ -26,8 +36,18 @@ app.use('/api/health', healthRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/links', linkRoutes);
 app.use('/api/metadata', metadataRoutes);
+app.use('/api/domains', domainRoutes);
+app.use('/api/workspaces', workspaceRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/webhooks', webhookRoutes);
 app.use('/api/admin/users', adminUsersRoutes);
 app.use('/api/admin/links', adminLinksRoutes);
+app.use('/api/admin/policies', adminPoliciesRoutes);
+app.use('/api/admin/safety', adminSafetyRoutes);
+
+// branded short links: https://<custom domain>/<shortCode>
+app.get('/:shortCode', redirectOnCustomDomain);
+app.post('/:shortCode', express.urlencoded({ extended: false, limit: '2kb' }), redirectOnCustomDomain);
 
 // 404 + error
 app.use(notFound);
@@ -1,7 +1,27 @@
 import mongoose from 'mongoose';
 
+// Indexes replaced by later schema changes. autoIndex only ever adds indexes, so an old
+// unique index would keep rejecting writes the new schema allows.
+const LEGACY_INDEXES: Array<[collection: string, index: string]> = [
+  ['links', 'shortCode_1'], // unique per domain since custom domains (domain_1_shortCode_1)
+  ['domains', 'hostname_1'] // only verified hostnames are unique (hostname_verified)
+];
+
+async function dropLegacyIndexes() {
+  for (const [collection, index] of LEGACY_INDEXES) {
+    try {
+      await mongoose.connection.collection(collection).dropIndex(index);
+      console.log(`🧹 Dropped legacy index ${collection}.${index}`);
+    } catch (err: any) {
+      // already gone, or the collection doesn't exist yet
+      if (err?.codeName !== 'IndexNotFound' && err?.codeName !== 'NamespaceNotFound') throw err;
+    }
+  }
+}
+
 export async function connectDB(uri: string) {
   mongoose.set('strictQuery', true);
   await mongoose.connect(uri);
+  await dropLegacyIndexes();
   console.log('✅ MongoDB connected');
 }
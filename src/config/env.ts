@@ -8,5 +8,35 @@ export const env = {
   JWT_REFRESH_SECRET: process.env.JWT_REFRESH_SECRET ?? 'dev_refresh_secret',
   ACCESS_TOKEN_TTL_MIN: Number(process.env.ACCESS_TOKEN_TTL_MIN ?? 15),
   REFRESH_TOKEN_TTL_DAYS: Number(process.env.REFRESH_TOKEN_TTL_DAYS ?? 7),
-  CORS_ORIGIN: process.env.CORS_ORIGIN ?? '*'
+  CORS_ORIGIN: process.env.CORS_ORIGIN ?? '*',
+  TRUST_PROXY_HOPS: Number(process.env.TRUST_PROXY_HOPS ?? 0), // reverse proxies in front of the app (Azure App Service: 1)
+  // click tracking
+  IP_HASH_SALT: process.env.IP_HASH_SALT ?? 'dev_ip_salt',
+  GEOIP_DB_PATH: process.env.GEOIP_DB_PATH ?? '', // CSV: start_ip,end_ip,country_code (IPv4)
+  // short codes
+  SHORTCODE_STRATEGY: process.env.SHORTCODE_STRATEGY ?? 'random', // random | sequence | words
+  SHORTCODE_LENGTH: Number(process.env.SHORTCODE_LENGTH ?? 6),
+  SHORTCODE_MAX_ATTEMPTS: Number(process.env.SHORTCODE_MAX_ATTEMPTS ?? 5),
+  SHORTCODE_MAX_FILL: Number(process.env.SHORTCODE_MAX_FILL ?? 0.01), // grow length past this keyspace usage
+  SHORTCODE_SALT: process.env.SHORTCODE_SALT ?? 'dev_shortcode_salt',
+  // QR codes
+  QR_LOGO_PATH: process.env.QR_LOGO_PATH ?? '', // PNG centered on QR codes when ?logo=true
+  // custom domains
+  DNS_RESOLVER: process.env.DNS_RESOLVER ?? 'system', // system | stub
+  DNS_STUB_FILE: process.env.DNS_STUB_FILE ?? '',     // JSON { "<name>": ["txt", ...] } for DNS_RESOLVER=stub
+  CUSTOM_DOMAIN_PROTOCOL: process.env.CUSTOM_DOMAIN_PROTOCOL ?? 'https',
+  // link safety
+  THREAT_LIST_PATH: process.env.THREAT_LIST_PATH ?? '', // one domain or URL per line
+  SAFETY_FOLLOW_REDIRECTS: (process.env.SAFETY_FOLLOW_REDIRECTS ?? 'true') === 'true',
+  SAFETY_RESCAN_INTERVAL_MIN: Number(process.env.SAFETY_RESCAN_INTERVAL_MIN ?? 24 * 60), // 0 disables rescans
+  // outbound fetches of user-supplied URLs
+  SAFE_FETCH_ALLOWED_PORTS: process.env.SAFE_FETCH_ALLOWED_PORTS ?? '80,443,8080,8443',
+  SAFE_FETCH_MAX_BYTES: Number(process.env.SAFE_FETCH_MAX_BYTES ?? 2 * 1024 * 1024),
+  // dev only: let webhooks reach receivers on localhost (ignored in production)
+  WEBHOOK_ALLOW_LOCALHOST: (process.env.WEBHOOK_ALLOW_LOCALHOST ?? 'false') === 'true',
+  // outgoing mail (password reset, email verification, invites)
+  MAIL_TRANSPORT: process.env.MAIL_TRANSPORT ?? '', // console | file; unset = console, except in production
+  MAIL_DIR: process.env.MAIL_DIR ?? './tmp/mail',          // MAIL_TRANSPORT=file writes one .eml per message here
+  MAIL_FROM: process.env.MAIL_FROM ?? 'Link Shortener <no-reply@localhost>',
+  APP_BASE_URL: process.env.APP_BASE_URL ?? 'http://localhost:3000' // frontend, used in emailed links
 };
@@ -0,0 +1,31 @@
+import type { Role } from '../models/User';
+
+// Every role -> permission mapping lives here; routes ask for permissions, never roles.
+
+export const PERMISSIONS = [
+  'links.read.any',   // list/view/export any user's links
+  'links.moderate',   // activate/deactivate any link
+  'links.delete.any',
+  'links.export',
+  'users.read',
+  'users.manage',     // create, suspend/unsuspend, reset passwords
+  'users.roles',      // change roles
+  'users.delete',
+  'stats.view',
+  'policies.manage',
+  'safety.manage'
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  manager: ['links.read.any', 'links.moderate', 'users.read', 'stats.view'],
+  user: []
+};
+
+export const permissionsFor = (role: Role | undefined): readonly Permission[] =>
+  (role && ROLE_PERMISSIONS[role]) || [];
+
+export const hasPermission = (role: Role | undefined, permission: Permission) =>
+  permissionsFor(role).includes(permission);
@@ -1,87 +1,102 @@
 import { Request, Response, NextFunction } from 'express';
 import mongoose from 'mongoose';
 import { Link } from '../models/Link';
+import { ClickEvent } from '../models/ClickEvent';
+import { emitEventSafe, serializeLink } from '../services/webhook.service';
+import { paginate, parsePageQuery, SortSpec } from '../utils/pagination';
+import { httpError } from '../utils/httpError';
+import { exportQuerySchema, streamLinkExport } from '../services/export.service';
 
 // small helpers
-const toInt = (v: string | undefined, def: number, max?: number) => {
-  const n = Number.parseInt(String(v ?? ''));
-  if (Number.isNaN(n) || n <= 0) return def;
-  return max ? Math.min(n, max) : n;
-};
+const SORTABLE = new Set(['createdAt', 'updatedAt', 'clicks', 'expiresAt', 'shortCode', 'title']);
 
 const isObjectId = (s: string) => mongoose.isValidObjectId(s);
 
-// GET /api/admin/links
-// ?page=1&limit=10&q=example&createdBy=<userId>&active=true|false&expired=true|false&from=2025-10-01&to=2025-10-25&sort=createdAt|-createdAt
-export async function listAllLinks(req: Request, res: Response, next: NextFunction) {
-  try {
-    const page = toInt(req.query.page as string, 1);
-    const limit = toInt(req.query.limit as string, 10, 100);
-    const skip = (page - 1) * limit;
-
-    const q = (req.query.q as string | undefined)?.trim();
-    const createdBy = (req.query.createdBy as string | undefined)?.trim();
-    const active = (req.query.active as string | undefined)?.trim();
-    const expired = (req.query.expired as string | undefined)?.trim();
-    const from = (req.query.from as string | undefined)?.trim();
-    const to = (req.query.to as string | undefined)?.trim();
-    const sortParam = (req.query.sort as string | undefined)?.trim() || '-createdAt';
-
-    const filter: any = {};
-
-    if (q && q.length > 0) {
-      // search in originalUrl, shortCode, title, description
-      filter.$or = [
-        { originalUrl: { $regex: q, $options: 'i' } },
-        { shortCode: { $regex: q, $options: 'i' } },
-        { title: { $regex: q, $options: 'i' } },
-        { description: { $regex: q, $options: 'i' } }
-      ];
-    }
+// Filters + sort shared by the list and export endpoints
+function buildAdminLinkQuery(query: Request['query']) {
+  const q = (query.q as string | undefined)?.trim();
+  const createdBy = (query.createdBy as string | undefined)?.trim();
+  const active = (query.active as string | undefined)?.trim();
+  const expired = (query.expired as string | undefined)?.trim();
+  const from = (query.from as string | undefined)?.trim();
+  const to = (query.to as string | undefined)?.trim();
+  const sortParam = (query.sort as string | undefined)?.trim() || '-createdAt';
+
+  const filter: any = {};
+
+  if (q && q.length > 0) {
+    // search in originalUrl, shortCode, title, description
+    filter.$or = [
+      { originalUrl: { $regex: q, $options: 'i' } },
+      { shortCode: { $regex: q, $options: 'i' } },
+      { title: { $regex: q, $options: 'i' } },
+      { description: { $regex: q, $options: 'i' } }
+    ];
+  }
 
-    if (createdBy && isObjectId(createdBy)) {
-      filter.createdBy = new mongoose.Types.ObjectId(createdBy);
-    }
+  if (createdBy && isObjectId(createdBy)) {
+    filter.createdBy = new mongoose.Types.ObjectId(createdBy);
+  }
 
-    if (active === 'true') filter.isActive = true;
-    if (active === 'false') filter.isActive = false;
+  if (active === 'true') filter.isActive = true;
+  if (active === 'false') filter.isActive = false;
 
-    if (expired === 'true') {
-      filter.expiresAt = { $lt: new Date() };
-    } else if (expired === 'false') {
-      filter.expiresAt = { $gte: new Date() };
-    }
+  if (expired === 'true') {
+    filter.expiresAt = { $lt: new Date() };
+  } else if (expired === 'false') {
+    // never-expiring links have expiresAt: null
+    filter.$and = [{ $or: [{ expiresAt: null }, { expiresAt: { $gte: new Date() } }] }];
+  }
 
-    if (from || to) {
-      filter.createdAt = {};
-      if (from) filter.createdAt.$gte = new Date(from);
-      if (to) filter.createdAt.$lte = new Date(to);
-    }
+  if (from || to) {
+    filter.createdAt = {};
+    if (from) filter.createdAt.$gte = new Date(from);
+    if (to) filter.createdAt.$lte = new Date(to);
+  }
 
-    // build sort: e.g. "-createdAt" or "clicks"
-    const sort: Record<string, 1 | -1> = {};
-    const fields = (sortParam || '').split(',').map(s => s.trim()).filter(Boolean);
-    for (const f of fields) {
-      if (f.startsWith('-')) sort[f.slice(1)] = -1;
-      else sort[f] = 1;
-    }
+  // build sort: e.g. "-createdAt" or "clicks"
+  const sort: SortSpec = {};
+  const fields = (sortParam || '').split(',').map(s => s.trim()).filter(Boolean);
+  for (const f of fields) {
+    const name = f.startsWith('-') ? f.slice(1) : f;
+    if (!SORTABLE.has(name)) throw httpError(400, `Cannot sort by ${name}`);
+    sort[name] = f.startsWith('-') ? -1 : 1;
+  }
+
+  return { filter, sort };
+}
+
+// GET /api/admin/links
+// ?limit=10&cursor=<nextCursor|prevCursor>&total=true&q=example&createdBy=<userId>&active=true|false&expired=true|false&from=2025-10-01&to=2025-10-25&sort=createdAt|-createdAt
+// (?page=1 still works)
+export async function listAllLinks(req: Request, res: Response, next: NextFunction) {
+  try {
+    const pageQuery = parsePageQuery(req.query);
+    const { filter, sort } = buildAdminLinkQuery(req.query);
 
-    const [links, total] = await Promise.all([
-      Link.find(filter)
+    const { items: links, pagination } = await paginate(Link, filter, sort, pageQuery, {
+      build: (q) => q
         .select('-passwordHash') // don’t expose hashes even to admin responses
         .populate('createdBy', 'fullName email role')
-        .sort(sort)
-        .skip(skip)
-        .limit(limit)
-        .lean(),
-      Link.countDocuments(filter)
-    ]);
-
-    res.json({
-      success: true,
-      links,
-      pagination: { page, limit, total, pages: Math.ceil(total / limit) }
+        .lean()
     });
+
+    res.json({ success: true, links, pagination });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// GET /api/admin/links/export
+// same filters as the list, plus ?format=csv|json|ndjson&clicks=true&clicksFrom=&clicksTo=
+export async function exportLinksAdmin(req: Request, res: Response, next: NextFunction) {
+  try {
+    const parsed = exportQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+    const { filter, sort } = buildAdminLinkQuery(req.query);
+
+    const cursor = Link.find(filter).sort({ ...sort, _id: -1 }).lean().cursor();
+    await streamLinkExport(res, cursor, parsed.data, `all-links-${new Date().toISOString().slice(0, 10)}`);
   } catch (err) {
     next(err);
   }
@@ -119,6 +134,8 @@ export async function deleteLinkAdmin(req: Request, res: Response, next: NextFun
       .lean();
 
     if (!link) return res.status(404).json({ error: 'Link not found' });
+    await ClickEvent.deleteMany({ link: link._id });
+    emitEventSafe(link.createdBy, 'link.deleted', { link: serializeLink(link), deletedBy: 'admin' });
 
     res.json({ success: true, message: 'Link deleted', shortCode: link.shortCode, id: String(link._id) });
   } catch (err) {
@@ -126,25 +143,48 @@ export async function deleteLinkAdmin(req: Request, res: Response, next: NextFun
   }
 }
 
-// PATCH /api/admin/links/:idOrCode/status   { isActive: boolean }
+// PATCH /api/admin/links/:idOrCode/status   { isActive: boolean, reason?: string }
+// Deactivating marks the link as moderated, which keeps owners from switching it back on;
+// reactivating here is the only way to clear the mark.
 export async function setLinkActiveAdmin(req: Request, res: Response, next: NextFunction) {
   try {
     const { idOrCode } = req.params;
-    const { isActive } = (req.body ?? {}) as { isActive?: boolean };
+    const { isActive, reason } = (req.body ?? {}) as { isActive?: boolean; reason?: string };
     if (typeof isActive !== 'boolean') {
       return res.status(400).json({ error: 'isActive boolean is required in body' });
     }
+    if (reason !== undefined && (typeof reason !== 'string' || reason.length > 500)) {
+      return res.status(400).json({ error: 'reason must be a string of at most 500 characters' });
+    }
+
+    const moderatorId = (req as any).user?.sub as string | undefined;
+    const update = isActive
+      ? { $set: { isActive, moderatedAt: null, moderatedBy: null }, $unset: { deactivatedReason: 1 } }
+      : {
+          $set: {
+            isActive,
+            moderatedAt: new Date(),
+            moderatedBy: moderatorId ? new mongoose.Types.ObjectId(moderatorId) : null,
+            deactivatedReason: reason?.trim() || 'Deactivated by a moderator'
+          }
+        };
 
     const byId = isObjectId(idOrCode);
-    const link = await Link.findOneAndUpdate(
-      byId ? { _id: idOrCode } : { shortCode: idOrCode },
-      { $set: { isActive } },
-      { new: true }
-    )
-      .select('-passwordHash')
+    const before = await Link.findOneAndUpdate(byId ? { _id: idOrCode } : { shortCode: idOrCode }, update)
+      .select('isActive')
       .lean();
 
+    if (!before) return res.status(404).json({ error: 'Link not found' });
+
+    const link = await Link.findById(before._id).select('-passwordHash').lean();
     if (!link) return res.status(404).json({ error: 'Link not found' });
+    if (before.isActive && !isActive) {
+      emitEventSafe(link.createdBy, 'link.deactivated', {
+        link: serializeLink(link),
+        deactivatedBy: 'admin',
+        reason: link.deactivatedReason
+      });
+    }
 
     res.json({ success: true, link });
   } catch (err) {
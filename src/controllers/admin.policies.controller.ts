@@ -0,0 +1,149 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { LinkPolicy } from '../models/LinkPolicy';
+import { User, Role } from '../models/User';
+import {
+  DEFAULT_POLICIES,
+  getEffectivePolicy,
+  getRolePolicy,
+  roleKey,
+  userKey
+} from '../services/policy.service';
+
+const ROLES: Role[] = ['admin', 'manager', 'user'];
+
+// Every field optional: omitted = inherit, null = unlimited / no cap
+const policySchema = z.object({
+  createLimit: z.number().int().min(0).nullable().optional(),
+  createWindowMinutes: z.number().int().min(1).optional(),
+  bulkLimit: z.number().int().min(0).nullable().optional(),
+  bulkWindowMinutes: z.number().int().min(1).optional(),
+  maxExpiryDays: z.number().min(0).nullable().optional(),
+  defaultExpiryDays: z.number().min(0).optional(),
+  allowNeverExpire: z.boolean().optional(),
+  maxActiveLinks: z.number().int().min(0).nullable().optional()
+}).strict();
+
+const isRole = (r: string): r is Role => (ROLES as string[]).includes(r);
+
+// GET /api/admin/policies
+export async function listPolicies(_req: Request, res: Response, next: NextFunction) {
+  try {
+    const [roles, overrides] = await Promise.all([
+      Promise.all(ROLES.map(async (role) => ({ role, effective: await getRolePolicy(role) }))),
+      LinkPolicy.find({ scope: 'user' }).populate('user', 'fullName email role').sort({ updatedAt: -1 }).lean()
+    ]);
+    res.json({ success: true, defaults: DEFAULT_POLICIES, roles, overrides });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// GET /api/admin/policies/roles/:role
+export async function getRolePolicyAdmin(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { role } = req.params;
+    if (!isRole(role)) return res.status(400).json({ error: 'Invalid role' });
+
+    const [stored, effective] = await Promise.all([
+      LinkPolicy.findOne({ key: roleKey(role) }).lean(),
+      getRolePolicy(role)
+    ]);
+    res.json({ success: true, role, stored, effective });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// PUT /api/admin/policies/roles/:role   (replaces the stored policy; omitted fields use the defaults)
+export async function putRolePolicy(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { role } = req.params;
+    if (!isRole(role)) return res.status(400).json({ error: 'Invalid role' });
+
+    const parsed = policySchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+    const policy = await LinkPolicy.findOneAndReplace(
+      { key: roleKey(role) },
+      { key: roleKey(role), scope: 'role', role, ...parsed.data, updatedBy: req.user?.sub },
+      { upsert: true, new: true }
+    ).lean();
+
+    res.json({ success: true, policy, effective: await getRolePolicy(role) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// DELETE /api/admin/policies/roles/:role   (back to built-in defaults)
+export async function resetRolePolicy(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { role } = req.params;
+    if (!isRole(role)) return res.status(400).json({ error: 'Invalid role' });
+
+    await LinkPolicy.deleteOne({ key: roleKey(role) });
+    res.json({ success: true, effective: DEFAULT_POLICIES[role] });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// GET /api/admin/policies/users/:userId
+export async function getUserPolicyAdmin(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { userId } = req.params;
+    if (!mongoose.isValidObjectId(userId)) return res.status(400).json({ error: 'Invalid user id' });
+
+    const user = await User.findById(userId).select('role').lean();
+    if (!user) return res.status(404).json({ error: 'User not found' });
+
+    const [override, effective] = await Promise.all([
+      LinkPolicy.findOne({ key: userKey(userId) }).lean(),
+      getEffectivePolicy(userId, user.role)
+    ]);
+    res.json({ success: true, userId, role: user.role, override, effective });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// PUT /api/admin/policies/users/:userId   (per-user override on top of the role policy)
+export async function putUserPolicy(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { userId } = req.params;
+    if (!mongoose.isValidObjectId(userId)) return res.status(400).json({ error: 'Invalid user id' });
+
+    const parsed = policySchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+    const user = await User.findById(userId).select('role').lean();
+    if (!user) return res.status(404).json({ error: 'User not found' });
+
+    const override = await LinkPolicy.findOneAndReplace(
+      { key: userKey(userId) },
+      { key: userKey(userId), scope: 'user', user: user._id, ...parsed.data, updatedBy: req.user?.sub },
+      { upsert: true, new: true }
+    ).lean();
+
+    res.json({ success: true, override, effective: await getEffectivePolicy(userId, user.role) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// DELETE /api/admin/policies/users/:userId
+export async function deleteUserPolicy(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { userId } = req.params;
+    if (!mongoose.isValidObjectId(userId)) return res.status(400).json({ error: 'Invalid user id' });
+
+    const result = await LinkPolicy.deleteOne({ key: userKey(userId) });
+    if (result.deletedCount === 0) return res.status(404).json({ error: 'No override for this user' });
+
+    res.json({ success: true, message: 'User policy override removed' });
+  } catch (err) {
+    next(err);
+  }
+}
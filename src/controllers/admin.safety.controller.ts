@@ -0,0 +1,111 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { SafetyRule } from '../models/SafetyRule';
+import { Link } from '../models/Link';
+import { checkUrl, invalidateSafetyRules, rescanLinks } from '../services/safety.service';
+
+const ruleSchema = z.object({
+  list: z.enum(['block', 'allow']),
+  kind: z.enum(['domain', 'regex']),
+  pattern: z.string().min(1).max(200),
+  reason: z.string().max(200).optional()
+}).superRefine((v, ctx) => {
+  if (v.kind === 'regex') {
+    try { new RegExp(v.pattern, 'i'); } catch {
+      ctx.addIssue({ code: 'custom', path: ['pattern'], message: 'Invalid regular expression' });
+    }
+  } else if (!/^[a-z0-9.-]+\.[a-z]{2,}$/i.test(v.pattern.trim())) {
+    ctx.addIssue({ code: 'custom', path: ['pattern'], message: 'Expected a domain like example.com' });
+  }
+});
+
+// GET /api/admin/safety/rules   ?list=block|allow
+export async function listSafetyRules(req: Request, res: Response, next: NextFunction) {
+  try {
+    const filter: any = {};
+    if (req.query.list === 'block' || req.query.list === 'allow') filter.list = req.query.list;
+    const rules = await SafetyRule.find(filter).sort({ createdAt: -1 }).lean();
+    res.json({ success: true, rules });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// POST /api/admin/safety/rules   { list, kind, pattern, reason? }
+export async function createSafetyRule(req: Request, res: Response, next: NextFunction) {
+  try {
+    const parsed = ruleSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+    const { list, kind, reason } = parsed.data;
+    const pattern = kind === 'domain' ? parsed.data.pattern.trim().toLowerCase() : parsed.data.pattern;
+    const exists = await SafetyRule.exists({ list, kind, pattern });
+    if (exists) return res.status(409).json({ error: 'Rule already exists' });
+
+    const rule = await SafetyRule.create({ list, kind, pattern, reason, createdBy: (req as any).user?.sub });
+    invalidateSafetyRules();
+    res.status(201).json({ success: true, rule });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// DELETE /api/admin/safety/rules/:id
+export async function deleteSafetyRule(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(400).json({ error: 'Invalid rule id' });
+    const rule = await SafetyRule.findByIdAndDelete(req.params.id).lean();
+    if (!rule) return res.status(404).json({ error: 'Rule not found' });
+    invalidateSafetyRules();
+    res.json({ success: true, message: 'Rule deleted' });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// POST /api/admin/safety/check   { url }  (dry run)
+export async function checkUrlAdmin(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { url } = (req.body ?? {}) as { url?: string };
+    if (!url) return res.status(400).json({ error: 'url is required' });
+    const verdict = await checkUrl(url);
+    res.json({ success: true, url, verdict });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// POST /api/admin/safety/rescan   ?limit=500  (run the periodic rescan now)
+export async function rescanNow(req: Request, res: Response, next: NextFunction) {
+  try {
+    const limit = Math.min(5000, Math.max(1, Number.parseInt(String(req.query.limit ?? '500')) || 500));
+    const result = await rescanLinks({ limit });
+    res.json({ success: true, ...result });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// GET /api/admin/safety/flagged   ?page=1&limit=20
+export async function listFlaggedLinks(req: Request, res: Response, next: NextFunction) {
+  try {
+    const page = Math.max(1, Number.parseInt(String(req.query.page ?? '1')) || 1);
+    const limit = Math.min(100, Math.max(1, Number.parseInt(String(req.query.limit ?? '20')) || 20));
+    const filter = { 'safety.status': 'flagged' };
+
+    const [links, total] = await Promise.all([
+      Link.find(filter)
+        .select('-passwordHash')
+        .populate('createdBy', 'fullName email role')
+        .sort({ 'safety.flaggedAt': -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      Link.countDocuments(filter)
+    ]);
+    res.json({ success: true, links, pagination: { page, limit, total, pages: Math.ceil(total / limit) } });
+  } catch (err) {
+    next(err);
+  }
+}
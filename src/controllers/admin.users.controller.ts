@@ -1,21 +1,87 @@
 import { Request, Response, NextFunction } from 'express';
+import { randomBytes } from 'crypto';
 import mongoose from 'mongoose';
-import { User } from '../models/User';
+import { z } from 'zod';
+import { User, UserDocument } from '../models/User';
 import { Link } from '../models/Link';
+import { ClickEvent } from '../models/ClickEvent';
+import { Domain } from '../models/Domain';
+import { LinkPolicy } from '../models/LinkPolicy';
+import { Workspace } from '../models/Workspace';
+import { WorkspaceInvite } from '../models/WorkspaceInvite';
+import { ApiKey } from '../models/ApiKey';
+import { Session } from '../models/Session';
+import { AuthToken } from '../models/AuthToken';
+import { Webhook } from '../models/Webhook';
+import { WebhookDelivery } from '../models/WebhookDelivery';
+import { userKey } from '../services/policy.service';
+import { forgetUserAuthState } from '../services/authState.service';
+import { paginate, parsePageQuery } from '../utils/pagination';
+import { revokeAllSessions } from '../services/session.service';
+import { hashPassword } from '../utils/password';
 
-// Utility: parse pagination safely
-const toInt = (v: string | undefined, def: number, max?: number) => {
-  const n = Number.parseInt(String(v ?? ''));
-  if (Number.isNaN(n) || n <= 0) return def;
-  return max ? Math.min(n, max) : n;
+const roleEnum = z.enum(['admin', 'manager', 'user']);
+
+const createUserSchema = z.object({
+  fullName: z.string().min(2),
+  email: z.string().email(),
+  password: z.string().min(6).optional(), // omitted: a temporary one is generated and returned once
+  role: roleEnum.default('user')
+});
+
+const roleSchema = z.object({ role: roleEnum });
+
+const suspendSchema = z.object({
+  reason: z.string().trim().max(300).optional(),
+  suspendLinks: z.boolean().default(false) // also stop the user's links from redirecting
+});
+
+const passwordSchema = z.object({ password: z.string().min(6).optional() });
+
+// marks links switched off by a suspension, so unsuspending only brings those back
+const SUSPENDED_LINKS_REASON = 'Owner account suspended';
+
+const temporaryPassword = () => randomBytes(12).toString('base64url');
+
+const publicUser = (u: UserDocument) => {
+  const { passwordHash, ...rest } = u.toObject();
+  return rest;
 };
 
+const activeAdmins = (filter: Record<string, unknown> = {}) =>
+  User.countDocuments({ ...filter, role: 'admin', suspendedAt: null });
+
+// The last active admin can't be demoted, suspended or deleted. There's no transaction, so
+// the change is written first and undone if no active admin is left afterwards: two
+// concurrent requests can't both pass on a count taken before the other one wrote.
+// false = refused (nothing changed)
+async function unlessLastAdmin(user: UserDocument, apply: () => Promise<unknown>, undo: () => Promise<unknown>) {
+  const guarded = user.role === 'admin' && !user.suspendedAt;
+  if (guarded && (await activeAdmins({ _id: { $ne: user._id } })) === 0) return false;
+  await apply();
+  if (guarded && (await activeAdmins()) === 0) {
+    await undo();
+    return false;
+  }
+  return true;
+}
+
+async function findUserParam(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!mongoose.isValidObjectId(id)) {
+    res.status(400).json({ error: 'Invalid user id' });
+    return null;
+  }
+  const user = await User.findById(id);
+  if (!user) res.status(404).json({ error: 'User not found' });
+  return user;
+}
+
 // GET /api/admin/users
+// ?q=&role=&suspended=true|false&limit=10&cursor=<nextCursor|prevCursor>&total=true  (?page= still works)
 export async function listUsers(req: Request, res: Response, next: NextFunction) {
   try {
-    const page = toInt(req.query.page as string, 1);
-    const limit = toInt(req.query.limit as string, 10, 100);
-    const skip = (page - 1) * limit;
+    const pageQuery = parsePageQuery(req.query);
 
     const q = (req.query.q as string | undefined)?.trim();
     const role = (req.query.role as 'admin' | 'manager' | 'user' | undefined)?.trim();
@@ -30,21 +96,15 @@ export async function listUsers(req: Request, res: Response, next: NextFunction)
     if (role) {
       filter.role = role;
     }
+    const suspended = (req.query.suspended as string | undefined)?.trim();
+    if (suspended === 'true') filter.suspendedAt = { $ne: null };
+    if (suspended === 'false') filter.suspendedAt = null;
 
-    const [users, total] = await Promise.all([
-      User.find(filter)
-        .select('-passwordHash')   // never return passwordHash
-        .sort({ createdAt: -1 })
-        .skip(skip)
-        .limit(limit),
-      User.countDocuments(filter)
-    ]);
-
-    res.json({
-      success: true,
-      users,
-      pagination: { page, limit, total, pages: Math.ceil(total / limit) }
+    const { items: users, pagination } = await paginate(User, filter, { createdAt: -1 }, pageQuery, {
+      build: (q) => q.select('-passwordHash') // never return passwordHash
     });
+
+    res.json({ success: true, users, pagination });
   } catch (err) {
     next(err);
   }
@@ -75,13 +135,52 @@ export async function deleteUserById(req: Request, res: Response, next: NextFunc
       return res.status(400).json({ error: 'Invalid user id' });
     }
 
-    const user = await User.findByIdAndDelete(id).select('-passwordHash');
+    const user = await User.findById(id).select('-passwordHash');
     if (!user) return res.status(404).json({ error: 'User not found' });
 
+    // a workspace must keep an owner: sole owners of shared workspaces hand over first,
+    // workspaces nobody else is in are deleted with the user
+    const owned = await Workspace.find({ members: { $elemMatch: { user: user._id, role: 'owner' } } }).lean();
+    const soleOwner = owned.filter((ws) => ws.members.filter((m) => m.role === 'owner').length === 1);
+    const shared = soleOwner.filter((ws) => ws.members.length > 1);
+    if (shared.length) {
+      return res.status(409).json({
+        error: 'User is the only owner of workspaces with other members; transfer ownership first',
+        workspaces: shared.map((ws) => ({ id: String(ws._id), name: ws.name }))
+      });
+    }
+    const solo = soleOwner.map((ws) => ws._id);
+
+    // demoted first so the last-admin check covers concurrent requests; deleted right after
+    const allowed = await unlessLastAdmin(
+      user,
+      () => User.updateOne({ _id: user._id }, { $set: { role: 'user' } }),
+      () => User.updateOne({ _id: user._id }, { $set: { role: user.role } })
+    );
+    if (!allowed) return res.status(409).json({ error: 'Cannot delete the last admin' });
+
+    await user.deleteOne();
+    forgetUserAuthState(user._id); // outstanding access tokens stop working right away
+    await LinkPolicy.deleteOne({ key: userKey(String(user._id)) });
+    await ApiKey.deleteMany({ user: user._id });
+    await Session.deleteMany({ user: user._id });
+    await AuthToken.deleteMany({ user: user._id });
+    await Webhook.deleteMany({ user: user._id });
+    await WebhookDelivery.deleteMany({ user: user._id });
+    if (solo.length) {
+      await Link.updateMany({ workspace: { $in: solo } }, { $set: { workspace: null } });
+      await Domain.updateMany({ workspace: { $in: solo } }, { $set: { workspace: null } });
+      await WorkspaceInvite.deleteMany({ workspace: { $in: solo } });
+      await Workspace.deleteMany({ _id: { $in: solo } });
+    }
+    await Workspace.updateMany({ 'members.user': user._id }, { $pull: { members: { user: user._id } } });
+
     // OPTIONAL: clean up the user's short links
-    const { cascade } = req.query; // pass ?cascade=true to also delete links
+    const { cascade } = req.query; // pass ?cascade=true to also delete links and their click events
     if (String(cascade).toLowerCase() === 'true') {
-      await Link.deleteMany({ createdBy: user._id });
+      const linkIds = await Link.distinct('_id', { createdBy: user._id });
+      await Link.deleteMany({ _id: { $in: linkIds } });
+      await ClickEvent.deleteMany({ link: { $in: linkIds } });
     }
 
     res.json({ success: true, message: 'User deleted', userId: String(user._id) });
@@ -89,3 +188,145 @@ export async function deleteUserById(req: Request, res: Response, next: NextFunc
     next(err);
   }
 }
+
+// POST /api/admin/users  { fullName, email, password?, role? }
+export async function createUser(req: Request, res: Response, next: NextFunction) {
+  try {
+    const parsed = createUserSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+    const { fullName, email, role } = parsed.data;
+    if (await User.exists({ email: email.toLowerCase() })) {
+      return res.status(409).json({ error: 'Email already in use' });
+    }
+
+    const generated = parsed.data.password ? undefined : temporaryPassword();
+    const user = await User.create({
+      fullName,
+      email,
+      passwordHash: await hashPassword(parsed.data.password ?? generated!),
+      role
+    });
+
+    res.status(201).json({
+      success: true,
+      user: publicUser(user),
+      ...(generated ? { temporaryPassword: generated } : {})
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// PATCH /api/admin/users/:id/role  { role }
+export async function updateUserRole(req: Request, res: Response, next: NextFunction) {
+  try {
+    const parsed = roleSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+    const user = await findUserParam(req, res);
+    if (!user) return;
+    if (user.role === parsed.data.role) return res.json({ success: true, user: publicUser(user) });
+
+    const previousRole = user.role;
+    const allowed = await unlessLastAdmin(
+      user,
+      () => {
+        user.role = parsed.data.role;
+        return user.save();
+      },
+      () => User.updateOne({ _id: user._id }, { $set: { role: previousRole } })
+    );
+    if (!allowed) return res.status(409).json({ error: 'Cannot demote the last admin' });
+    await revokeAllSessions(String(user._id), 'revoked'); // new role applies from the next login
+
+    res.json({ success: true, user: publicUser(user) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// POST /api/admin/users/:id/suspend  { reason?, suspendLinks? }
+export async function suspendUser(req: Request, res: Response, next: NextFunction) {
+  try {
+    const parsed = suspendSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+    const adminId = (req as any).user?.sub as string | undefined;
+    const user = await findUserParam(req, res);
+    if (!user) return;
+    if (String(user._id) === adminId) return res.status(400).json({ error: 'You cannot suspend your own account' });
+    if (user.suspendedAt) return res.status(409).json({ error: 'User is already suspended' });
+
+    const allowed = await unlessLastAdmin(
+      user,
+      () => {
+        user.suspendedAt = new Date();
+        user.suspendedReason = parsed.data.reason;
+        user.suspendedBy = adminId ? new mongoose.Types.ObjectId(adminId) : undefined;
+        return user.save();
+      },
+      () => User.updateOne({ _id: user._id }, { $set: { suspendedAt: null }, $unset: { suspendedReason: 1, suspendedBy: 1 } })
+    );
+    if (!allowed) return res.status(409).json({ error: 'Cannot suspend the last admin' });
+    await revokeAllSessions(String(user._id), 'revoked');
+
+    let linksDeactivated = 0;
+    if (parsed.data.suspendLinks) {
+      const result = await Link.updateMany(
+        { createdBy: user._id, isActive: true },
+        { $set: { isActive: false, deactivatedReason: SUSPENDED_LINKS_REASON } }
+      );
+      linksDeactivated = result.modifiedCount;
+    }
+
+    res.json({ success: true, user: publicUser(user), linksDeactivated });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// POST /api/admin/users/:id/unsuspend
+export async function unsuspendUser(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = await findUserParam(req, res);
+    if (!user) return;
+    if (!user.suspendedAt) return res.status(409).json({ error: 'User is not suspended' });
+
+    user.suspendedAt = null;
+    user.suspendedReason = undefined;
+    user.suspendedBy = undefined;
+    await user.save();
+    forgetUserAuthState(user._id);
+
+    // only links the suspension switched off
+    const result = await Link.updateMany(
+      { createdBy: user._id, isActive: false, deactivatedReason: SUSPENDED_LINKS_REASON },
+      { $set: { isActive: true }, $unset: { deactivatedReason: 1 } }
+    );
+
+    res.json({ success: true, user: publicUser(user), linksReactivated: result.modifiedCount });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// POST /api/admin/users/:id/password  { password? }  omitted: a temporary one is generated
+export async function resetUserPassword(req: Request, res: Response, next: NextFunction) {
+  try {
+    const parsed = passwordSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+    const user = await findUserParam(req, res);
+    if (!user) return;
+
+    const generated = parsed.data.password ? undefined : temporaryPassword();
+    user.passwordHash = await hashPassword(parsed.data.password ?? generated!);
+    await user.save();
+    await revokeAllSessions(String(user._id), 'revoked');
+
+    res.json({ success: true, message: 'Password reset', ...(generated ? { temporaryPassword: generated } : {}) });
+  } catch (err) {
+    next(err);
+  }
+}
@@ -0,0 +1,79 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { ApiKey, API_KEY_SCOPES } from '../models/ApiKey';
+import { generateApiKey } from '../services/apiKey.service';
+
+const MAX_KEYS_PER_USER = 20;
+
+const createApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).default(['links:read', 'links:write']),
+  rateLimitPerMinute: z.number().int().min(1).max(1000).default(60),
+  expiresAt: z.string().datetime().optional()
+});
+
+// POST /api/api-keys   { name, scopes?, rateLimitPerMinute?, expiresAt? }
+export async function createApiKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = (req as any).user?.sub as string | undefined;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const parsed = createApiKeySchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+    const active = await ApiKey.countDocuments({ user: userId, revokedAt: { $exists: false } });
+    if (active >= MAX_KEYS_PER_USER) {
+      return res.status(400).json({ error: `You can have at most ${MAX_KEYS_PER_USER} active API keys` });
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+    const doc = await ApiKey.create({
+      user: userId,
+      name: parsed.data.name,
+      prefix,
+      keyHash,
+      scopes: [...new Set(parsed.data.scopes)],
+      rateLimitPerMinute: parsed.data.rateLimitPerMinute,
+      expiresAt: parsed.data.expiresAt ? new Date(parsed.data.expiresAt) : undefined
+    });
+
+    const { keyHash: _omit, ...apiKey } = doc.toObject();
+    res.status(201).json({ success: true, apiKey, key }); // the raw key is only ever shown here
+  } catch (err) {
+    next(err);
+  }
+}
+
+// GET /api/api-keys
+export async function listApiKeys(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = (req as any).user?.sub as string | undefined;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const apiKeys = await ApiKey.find({ user: userId }).sort({ createdAt: -1 }).lean();
+    res.json({ success: true, apiKeys });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// DELETE /api/api-keys/:id   (revoke; kept for the audit trail)
+export async function revokeApiKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = (req as any).user?.sub as string | undefined;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(400).json({ error: 'Invalid key id' });
+
+    const apiKey = await ApiKey.findOneAndUpdate(
+      { _id: req.params.id, user: userId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } },
+      { new: true }
+    ).lean();
+    if (!apiKey) return res.status(404).json({ error: 'API key not found' });
+
+    res.json({ success: true, apiKey });
+  } catch (err) {
+    next(err);
+  }
+}
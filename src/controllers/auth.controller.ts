@@ -1,9 +1,12 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
-import { User } from '../models/User';
+import { User, UserDocument } from '../models/User';
 import { hashPassword, verifyPassword } from '../utils/password';
-import { signAccessToken, signRefreshToken, verifyRefreshToken } from '../utils/jwt';
 import { env } from '../config/env';
+import { endSession, listActiveSessions, revokeAllSessions, revokeSession, rotateSession, startSession } from '../services/session.service';
+import { consumeAuthToken, issueAuthToken } from '../services/authToken.service';
+import { appUrl, sendMail, sendMailSafe } from '../services/mail.service';
+import { httpError } from '../utils/httpError';
 
 const signupSchema = z.object({
   fullName: z.string().min(2),
@@ -16,16 +19,57 @@ const loginSchema = z.object({
   password: z.string().min(6)
 });
 
+const forgotPasswordSchema = z.object({ email: z.string().email() });
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6)
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(6)
+});
+
+const verifyEmailSchema = z.object({ token: z.string().min(1) });
+
+const REFRESH_COOKIE_PATH = '/api/auth';
+
 function refreshCookieOptions() {
   return {
     httpOnly: true,
     secure: env.NODE_ENV === 'production',
     sameSite: env.NODE_ENV === 'production' ? 'none' as const : 'lax' as const,
     maxAge: env.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000,
-    path: '/api/auth/refresh'
+    path: REFRESH_COOKIE_PATH // logout needs the cookie too, not only /refresh
   };
 }
 
+function clearRefreshCookie(res: Response) {
+  res.clearCookie('refreshToken', { path: REFRESH_COOKIE_PATH });
+  res.clearCookie('refreshToken', { path: '/api/auth/refresh' }); // cookies set before sessions existed
+}
+
+const publicUser = (user: UserDocument) => ({
+  id: user._id,
+  fullName: user.fullName,
+  email: user.email,
+  role: user.role,
+  emailVerified: Boolean(user.emailVerifiedAt)
+});
+
+// Returns false when a verification mail went out less than a minute ago
+async function sendVerificationEmail(user: UserDocument) {
+  const token = await issueAuthToken(user._id, 'email_verification', user.email);
+  if (!token) return false;
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: `Hi ${user.fullName},\n\nConfirm your email address: ${appUrl('/verify-email', { token })}\n\nThe link expires in 48 hours.`
+  });
+  return true;
+}
+
 export async function signup(req: Request, res: Response) {
   const parsed = signupSchema.safeParse(req.body);
   if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
@@ -42,14 +86,15 @@ export async function signup(req: Request, res: Response) {
     role: 'user'
   });
 
-  const payload = { sub: String(user._id), role: user.role, tv: user.tokenVersion };
-  const accessToken = signAccessToken(payload);
-  const refreshToken = signRefreshToken(payload);
+  // signup must not fail because of mail delivery
+  sendVerificationEmail(user).catch((err) => console.error('❌ Verification mail error:', err?.message));
+
+  const { accessToken, refreshToken } = await startSession(user, req);
 
   res
     .cookie('refreshToken', refreshToken, refreshCookieOptions())
     .status(201)
-    .json({ accessToken, user: { id: user._id, fullName: user.fullName, email: user.email, role: user.role } });
+    .json({ accessToken, user: publicUser(user) });
 }
 
 export async function login(req: Request, res: Response) {
@@ -62,35 +107,173 @@ export async function login(req: Request, res: Response) {
 
   const ok = await verifyPassword(password, user.passwordHash);
   if (!ok) return res.status(401).json({ error: 'Invalid credentials' });
+  if (user.suspendedAt) return res.status(403).json({ error: 'Account suspended' });
 
-  const payload = { sub: String(user._id), role: user.role, tv: user.tokenVersion };
-  const accessToken = signAccessToken(payload);
-  const refreshToken = signRefreshToken(payload);
+  const { accessToken, refreshToken } = await startSession(user, req);
 
   res
     .cookie('refreshToken', refreshToken, refreshCookieOptions())
-    .json({ accessToken, user: { id: user._id, fullName: user.fullName, email: user.email, role: user.role } });
+    .json({ accessToken, user: publicUser(user) });
 }
 
+// Every refresh rotates the cookie; the old refresh token stops working
 export async function refresh(req: Request, res: Response) {
   const token = req.cookies?.refreshToken;
   if (!token) return res.status(401).json({ error: 'Missing refresh token' });
   try {
-    const payload = verifyRefreshToken(token);
-    const user = await User.findById(payload.sub);
-    if (!user || user.tokenVersion !== payload.tv) {
-      return res.status(401).json({ error: 'Invalid refresh token' });
-    }
-    const nextPayload = { sub: String(user._id), role: user.role, tv: user.tokenVersion };
-    const accessToken = signAccessToken(nextPayload);
-    res.json({ accessToken });
-  } catch {
-    return res.status(401).json({ error: 'Invalid refresh token' });
+    const { accessToken, refreshToken } = await rotateSession(token, req);
+    res.cookie('refreshToken', refreshToken, refreshCookieOptions()).json({ accessToken });
+  } catch (err: any) {
+    if (err?.status !== 401) throw err;
+    clearRefreshCookie(res);
+    return res.status(401).json({ error: err.message });
   }
 }
 
-export async function logout(_req: Request, res: Response) {
-  // If you want to invalidate all refresh tokens for user, bump tokenVersion in a protected endpoint.
-  res.clearCookie('refreshToken', { path: '/api/auth/refresh' });
+export async function logout(req: Request, res: Response) {
+  await endSession(req.cookies?.refreshToken);
+  clearRefreshCookie(res);
   res.json({ message: 'Logged out' });
 }
+
+// POST /api/auth/logout-all  ends every session, outstanding tokens stop refreshing
+export async function logoutAll(req: Request, res: Response) {
+  const userId = (req as any).user?.sub as string | undefined;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  const revoked = await revokeAllSessions(userId);
+  clearRefreshCookie(res);
+  res.json({ message: 'Logged out everywhere', revoked });
+}
+
+// GET /api/auth/sessions
+export async function listSessions(req: Request, res: Response) {
+  const userId = (req as any).user?.sub as string | undefined;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  const currentSid = (req as any).user?.sid as string | undefined;
+  const sessions = await listActiveSessions(userId);
+  res.json({
+    sessions: sessions.map((s) => ({
+      id: String(s._id),
+      userAgent: s.userAgent ?? null,
+      ip: s.ip ?? null,
+      createdAt: s.createdAt,
+      lastUsedAt: s.lastUsedAt,
+      expiresAt: s.expiresAt,
+      current: String(s._id) === currentSid
+    }))
+  });
+}
+
+// DELETE /api/auth/sessions/:id
+export async function deleteSession(req: Request, res: Response) {
+  const userId = (req as any).user?.sub as string | undefined;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  const ok = await revokeSession(userId, req.params.id);
+  if (!ok) return res.status(404).json({ error: 'Session not found' });
+  res.json({ message: 'Session revoked' });
+}
+
+async function sendPasswordReset(email: string) {
+  const user = await User.findOne({ email });
+  if (!user || user.suspendedAt) return;
+  const token = await issueAuthToken(user._id, 'password_reset', user.email);
+  if (!token) return;
+  sendMailSafe({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Hi ${user.fullName},\n\nReset your password: ${appUrl('/reset-password', { token })}\n\nThe link expires in 1 hour. If you didn't ask for this, ignore this email.`
+  });
+}
+
+// POST /api/auth/password/forgot  { email }
+// Same answer, in the same time, whether or not the account exists: the lookup and the
+// mail happen after the response, so neither timing nor mail errors reveal accounts
+export async function forgotPassword(req: Request, res: Response) {
+  const parsed = forgotPasswordSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  sendPasswordReset(parsed.data.email.toLowerCase()).catch((err) => console.error('❌ Password reset error:', err?.message));
+  res.json({ message: 'If an account exists for this email, a reset link has been sent' });
+}
+
+// POST /api/auth/password/reset  { token, password }  logs out every session
+export async function resetPassword(req: Request, res: Response) {
+  const parsed = resetPasswordSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  const record = await consumeAuthToken(parsed.data.token, 'password_reset');
+  if (!record) throw httpError(400, 'Invalid or expired token');
+
+  const user = await User.findById(record.user);
+  if (!user) throw httpError(400, 'Invalid or expired token');
+  if (user.suspendedAt) return res.status(403).json({ error: 'Account suspended' });
+
+  user.passwordHash = await hashPassword(parsed.data.password);
+  // the link came from the inbox, so the address is proven too
+  if (!user.emailVerifiedAt && record.email === user.email) user.emailVerifiedAt = new Date();
+  await user.save();
+  await revokeAllSessions(String(user._id), 'revoked');
+
+  clearRefreshCookie(res);
+  res.json({ message: 'Password updated, please log in again' });
+}
+
+// POST /api/auth/password/change  { currentPassword, newPassword }
+// Other sessions are logged out; this one gets fresh tokens
+export async function changePassword(req: Request, res: Response) {
+  const userId = (req as any).user?.sub as string | undefined;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  const parsed = changePasswordSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  const user = await User.findById(userId);
+  if (!user) return res.status(401).json({ error: 'Unauthorized' });
+
+  const ok = await verifyPassword(parsed.data.currentPassword, user.passwordHash);
+  if (!ok) return res.status(400).json({ error: 'Current password is incorrect' });
+
+  user.passwordHash = await hashPassword(parsed.data.newPassword);
+  await user.save(); // bumps tokenVersion
+  await revokeAllSessions(userId, 'revoked');
+
+  // revoking bumped tokenVersion again, so issue the new session from the stored value
+  const current = await User.findById(userId).select('role tokenVersion');
+  if (!current) return res.status(401).json({ error: 'Unauthorized' });
+  const { accessToken, refreshToken } = await startSession(current, req);
+  res.cookie('refreshToken', refreshToken, refreshCookieOptions()).json({ message: 'Password changed', accessToken });
+}
+
+// POST /api/auth/email/verify  { token }
+export async function verifyEmail(req: Request, res: Response) {
+  const parsed = verifyEmailSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+  const record = await consumeAuthToken(parsed.data.token, 'email_verification');
+  if (!record) throw httpError(400, 'Invalid or expired token');
+
+  // the address may have changed since the mail was sent
+  const updated = await User.updateOne(
+    { _id: record.user, email: record.email },
+    { $set: { emailVerifiedAt: new Date() } }
+  );
+  if (!updated.matchedCount) throw httpError(400, 'Invalid or expired token');
+  res.json({ message: 'Email verified' });
+}
+
+// POST /api/auth/email/resend
+export async function resendVerification(req: Request, res: Response) {
+  const userId = (req as any).user?.sub as string | undefined;
+  if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+  const user = await User.findById(userId);
+  if (!user) return res.status(401).json({ error: 'Unauthorized' });
+  if (user.emailVerifiedAt) return res.status(409).json({ error: 'Email already verified' });
+
+  const sent = await sendVerificationEmail(user);
+  if (!sent) return res.status(429).json({ error: 'Verification email sent recently, try again in a minute' });
+  res.json({ message: 'Verification email sent' });
+}
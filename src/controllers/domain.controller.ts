@@ -0,0 +1,191 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import * as crypto from 'crypto';
+import { z } from 'zod';
+import { Domain } from '../models/Domain';
+import type { DomainDoc } from '../models/Domain';
+import { Link } from '../models/Link';
+import type { WorkspaceRole } from '../models/Workspace';
+import {
+  checkDomainTxt,
+  forgetHost,
+  isValidHostname,
+  normalizeHostname,
+  verifyRecordName,
+  verifyRecordValue
+} from '../services/domain.service';
+import { getWorkspaceRole, hasWorkspaceRole, workspaceIdsFor } from '../services/workspace.service';
+
+const createDomainSchema = z.object({
+  hostname: z.string().min(3).max(253),
+  workspace: z.string().regex(/^[a-f0-9]{24}$/i).optional() // share with a workspace (editor role required)
+});
+
+// what the user has to put in DNS
+const withInstructions = (d: Pick<DomainDoc, 'hostname' | 'verificationToken' | 'verified'> & Record<string, any>) => ({
+  ...d,
+  verification: d.verified
+    ? undefined
+    : { type: 'TXT', name: verifyRecordName(d.hostname), value: verifyRecordValue(d.verificationToken) }
+});
+
+// Personal domains belong to whoever registered them; workspace domains follow the workspace
+// role (viewers read, editors and owners manage). Sends the error response itself.
+async function loadDomain(req: Request, res: Response, min: WorkspaceRole) {
+  const userId = (req as any).user?.sub as string | undefined;
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return null;
+  }
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    res.status(400).json({ error: 'Invalid domain id' });
+    return null;
+  }
+  const domain = await Domain.findById(req.params.id);
+  const role = !domain
+    ? undefined
+    : domain.workspace
+      ? await getWorkspaceRole(String(domain.workspace), userId)
+      : String(domain.owner) === userId ? 'owner' : undefined;
+  if (!domain || !role) {
+    res.status(404).json({ error: 'Domain not found' });
+    return null;
+  }
+  if (!hasWorkspaceRole(role, min)) {
+    res.status(403).json({ error: 'Forbidden' });
+    return null;
+  }
+  return domain;
+}
+
+// POST /api/domains   { hostname, workspace? }
+export async function createDomain(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = (req as any).user?.sub as string | undefined;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const parsed = createDomainSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+    const workspace = parsed.data.workspace ?? null;
+    if (workspace && !hasWorkspaceRole(await getWorkspaceRole(workspace, userId), 'editor')) {
+      return res.status(403).json({ error: 'You need editor access to add domains to this workspace' });
+    }
+
+    const hostname = normalizeHostname(parsed.data.hostname);
+    if (!isValidHostname(hostname)) return res.status(400).json({ error: 'Invalid hostname' });
+    if (hostname === normalizeHostname(req.hostname || '')) {
+      return res.status(400).json({ error: 'This hostname is the default short link host' });
+    }
+
+    // unverified claims don't block others: whoever proves DNS control first keeps the hostname
+    if (await Domain.exists({ hostname, verified: true })) {
+      return res.status(409).json({ error: 'Domain already registered' });
+    }
+    if (await Domain.exists({ hostname, owner: userId })) {
+      return res.status(409).json({ error: 'You have already registered this domain' });
+    }
+
+    const domain = await Domain.create({
+      hostname,
+      owner: userId,
+      workspace,
+      verificationToken: crypto.randomBytes(16).toString('hex')
+    });
+
+    res.status(201).json({ success: true, domain: withInstructions(domain.toObject()) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// GET /api/domains   (mine plus those of my workspaces)
+export async function listMyDomains(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = (req as any).user?.sub as string | undefined;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const own = { owner: new mongoose.Types.ObjectId(userId), workspace: null };
+    const ids = await workspaceIdsFor(userId, 'viewer');
+    const filter = ids.length ? { $or: [own, { workspace: { $in: ids } }] } : own;
+    const domains = await Domain.find(filter).sort({ createdAt: -1 }).lean();
+    res.json({ success: true, domains: domains.map(withInstructions) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// GET /api/domains/:id
+export async function getMyDomain(req: Request, res: Response, next: NextFunction) {
+  try {
+    const domain = await loadDomain(req, res, 'viewer');
+    if (!domain) return;
+
+    const links = await Link.countDocuments({ domain: domain.hostname });
+    res.json({ success: true, domain: { ...withInstructions(domain.toObject()), links } });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// POST /api/domains/:id/verify   (looks up the TXT record now; workspace editors and owners)
+export async function verifyDomain(req: Request, res: Response, next: NextFunction) {
+  try {
+    const domain = await loadDomain(req, res, 'editor');
+    if (!domain) return;
+
+    if (!domain.verified) {
+      if (await Domain.exists({ hostname: domain.hostname, verified: true })) {
+        await domain.deleteOne();
+        return res.status(409).json({ error: 'Domain was verified by another account' });
+      }
+
+      const ok = await checkDomainTxt(domain.hostname, domain.verificationToken);
+      domain.lastCheckedAt = new Date();
+      if (!ok) {
+        await Domain.updateOne({ _id: domain._id }, { $set: { lastCheckedAt: domain.lastCheckedAt } });
+        return res.status(422).json({
+          error: 'Verification TXT record not found',
+          domain: withInstructions(domain.toObject())
+        });
+      }
+
+      domain.verified = true;
+      domain.verifiedAt = new Date();
+      try {
+        await domain.save();
+      } catch (err: any) {
+        // another claim verified at the same moment (unique index on verified hostnames)
+        if (err?.code !== 11000) throw err;
+        await Domain.deleteOne({ _id: domain._id });
+        return res.status(409).json({ error: 'Domain was verified by another account' });
+      }
+      forgetHost(domain.hostname);
+      // the hostname is settled: drop the other pending claims
+      await Domain.deleteMany({ hostname: domain.hostname, verified: false });
+    }
+
+    res.json({ success: true, domain: withInstructions(domain.toObject()) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// DELETE /api/domains/:id   (refused while links still use it; workspace editors and owners)
+export async function deleteDomain(req: Request, res: Response, next: NextFunction) {
+  try {
+    const domain = await loadDomain(req, res, 'editor');
+    if (!domain) return;
+
+    const inUse = await Link.countDocuments({ domain: domain.hostname });
+    if (inUse > 0) {
+      return res.status(409).json({ error: `Domain is used by ${inUse} link(s); delete or move them first` });
+    }
+
+    await domain.deleteOne();
+    forgetHost(domain.hostname);
+    res.json({ success: true, message: 'Domain deleted' });
+  } catch (err) {
+    next(err);
+  }
+}
@@ -1,46 +1,45 @@
 import { Request, Response, NextFunction } from 'express';
-import axios from 'axios';
-import * as cheerio from 'cheerio';
 import { z } from 'zod';
+import mongoose from 'mongoose';
 import { Link } from '../models/Link';
 import type { LinkDoc } from '../models/Link';
-import { CreateLinkRequest, CreateLinkResponse, LinkAnalytics } from '../types/link';
+import { ClickEvent } from '../models/ClickEvent';
+import { AnalyticsInterval, CreateLinkRequest, CreateLinkResponse, LinkAnalytics, TopEntry, UpdateLinkRequest } from '../types/link';
 import { hashPassword, verifyPassword } from '../utils/password';
-
-const FIVE_DAYS_MS = 5 * 24 * 60 * 60 * 1000;
+import { getClientIp, hashIp } from '../utils/client';
+import { normalizeUrl } from '../utils/url';
+import { paginate, SortSpec } from '../utils/pagination';
+import { exportQuerySchema, streamLinkExport } from '../services/export.service';
+import { resolveDestination } from '../services/routing.service';
+import { assignVariant, countVariantClick, nextVariantKeys } from '../services/variant.service';
+import { lookupCountry } from '../utils/geoip';
+import { parseCsvRecords } from '../utils/csv';
+import type { Role } from '../models/User';
+import type { PolicyLimits } from '../models/LinkPolicy';
+import { httpError } from '../utils/httpError';
+import { env } from '../config/env';
+import { Domain } from '../models/Domain';
+import { linkScope, normalizeHostname, ownerLinkScope, resolveRequestDomain } from '../services/domain.service';
+import { getWorkspaceRole, hasWorkspaceRole, linkAccessFilter } from '../services/workspace.service';
+import { emitEventSafe, serializeLink } from '../services/webhook.service';
+import { getUserAuthState } from '../services/authState.service';
+import { sendHtml } from '../utils/html';
+import { countdownPage, passwordPage, previewPage } from '../views/redirectPages';
+import { assertUrlSafe, checkLinkDestinations } from '../services/safety.service';
+import { hasLogo, qrEtag, renderQr } from '../services/qr.service';
+import { insertWithUniqueShortCode, isDuplicateShortCode } from '../services/shortCode.service';
+import { getMetadataSafe, peekMetadata, PageMetadata } from '../services/metadata.service';
+import { applyMetadata, initialEnrichment, queueEnrichment, refreshEnrichment } from '../services/enrichment.service';
+import {
+  enforceCreateQuota,
+  enforceMaxActiveLinks,
+  getEffectivePolicy,
+  remainingBulkQuota,
+  resolveExpiryDate
+} from '../services/policy.service';
 
 // ---------- helpers ----------
-const putIf = <T extends object, K extends keyof T>(obj: T, key: K, val: T[K] | undefined) => {
-  if (val !== undefined && val !== null && String(val).trim() !== '') {
-    // @ts-expect-error dynamic ok
-    obj[key] = typeof val === 'string' ? (val as string).trim() : val;
-  }
-  return obj;
-};
-
-const normalizeUrl = (raw: string) => {
-  let u = (raw || '').trim();
-  if (!/^https?:\/\//i.test(u)) u = 'https://' + u;
-  try {
-    const url = new URL(u);
-    url.hash = '';
-    return url.toString();
-  } catch {
-    return u;
-  }
-};
-
-const randomCode = (len = 6) => Math.random().toString(36).slice(2, 2 + len);
-
-const generateUniqueShortCode = async (len = 6): Promise<string> => {
-  let code = randomCode(len);
-  // eslint-disable-next-line no-constant-condition
-  while (true) {
-    const exists = await Link.exists({ shortCode: code });
-    if (!exists) return code;
-    code = randomCode(len);
-  }
-};
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
 const isReserved = (alias: string) => {
   const reserved = new Set(['api', 'r', 'redirect', 'admin', 'login', 'signup', 'health']);
@@ -48,6 +47,62 @@ const isReserved = (alias: string) => {
 };
 
 // ---------- zod ----------
+// tags are stored lowercase and de-duplicated
+const tagsSchema = z
+  .array(z.string().trim().toLowerCase().regex(/^[a-z0-9][a-z0-9 _-]{0,31}$/, 'Tags: 1-32 letters, digits, space, - or _'))
+  .max(20)
+  .transform((tags) => [...new Set(tags)]);
+const folderSchema = z.string().trim().min(1).max(64);
+
+const hhmm = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+const isTimeZone = (tz: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+};
+const routingRuleSchema = z.object({
+  label: z.string().trim().max(60).optional(),
+  match: z.object({
+    // empty lists are rejected: the matcher skips them, which would turn the rule into a catch-all
+    countries: z.array(z.string().trim().regex(/^[a-zA-Z]{2}$/).transform((c) => c.toUpperCase())).min(1).max(50).optional(),
+    devices: z.array(z.enum(['mobile', 'tablet', 'desktop', 'bot'])).min(1).optional(),
+    os: z.array(z.enum(['ios', 'android', 'windows', 'macos', 'linux', 'chromeos', 'other'])).min(1).optional(),
+    browsers: z.array(z.enum(['chrome', 'safari', 'firefox', 'edge', 'opera', 'samsung', 'other'])).min(1).optional(),
+    languages: z.array(z.string().trim().toLowerCase().regex(/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/)).min(1).max(20).optional(),
+    referrerDomains: z.array(z.string().trim().toLowerCase().min(1).max(253)).min(1).max(20).optional(),
+    timeWindow: z.object({
+      start: hhmm.optional(),
+      end: hhmm.optional(),
+      days: z.array(z.number().int().min(0).max(6)).min(1).optional(),
+      timezone: z.string().refine(isTimeZone, 'Unknown timezone').optional()
+    })
+      .refine((w) => Boolean(w.start) === Boolean(w.end), { message: 'start and end go together' })
+      .refine((w) => Boolean(w.start) || Boolean(w.days), { message: 'A time window needs start/end or days' })
+      .optional()
+  }).refine((m) => Object.values(m).some((v) => v !== undefined), { message: 'A rule needs at least one condition' }),
+  destination: z.string().url().or(z.string().min(4))
+});
+const routingRulesSchema = z.array(routingRuleSchema).max(20);
+
+// PUT /:shortCode/variants replaces the whole set; [] ends the experiment
+const variantsSchema = z.object({
+  variants: z.array(z.object({
+    key: z.string().trim().regex(/^[a-z0-9_-]{1,16}$/i).optional(), // keep a key to keep its click count
+    label: z.string().trim().max(60).optional(),
+    destination: z.string().url().or(z.string().min(4)),
+    weight: z.number().int().min(0).max(1000)
+  })).max(10)
+    .refine((vs) => vs.length === 0 || vs.length >= 2, { message: 'An A/B split needs at least two variants' })
+    .refine((vs) => vs.length === 0 || vs.some((v) => v.weight > 0), { message: 'At least one variant needs a weight above 0' })
+    .refine((vs) => {
+      const keys = vs.flatMap((v) => (v.key ? [v.key] : []));
+      return new Set(keys).size === keys.length;
+    }, { message: 'Variant keys must be unique' })
+});
+
 // const createLinkSchema = z.object({
 //   originalUrl: z.string().url().or(z.string().min(4)), // we'll normalize if missing protocol
 //   customAlias: z.string().regex(/^[a-zA-Z0-9-_]{3,30}$/).optional(),
@@ -60,92 +115,112 @@ const createLinkSchema = z.object({
   title: z.string().max(200).optional(),
   description: z.string().max(500).optional(),
   password: z.string().min(4).max(128).optional(),           // <-- NEW
-  expiryDate: z.string().datetime().optional()               // <-- NEW (ISO)
+  expiryDate: z.string().datetime().nullable().optional(),   // <-- NEW (ISO; null = never expires, if the policy allows)
+  domain: z.string().max(253).optional(),                    // verified custom domain (default host if omitted)
+  workspace: z.string().regex(/^[a-f0-9]{24}$/i).optional(), // share with a workspace (editor role required)
+  redirectMode: z.enum(['direct', 'preview', 'countdown']).optional(),
+  redirectStatus: z.union([z.literal(301), z.literal(302), z.literal(307), z.literal(308)]).optional(),
+  countdownSeconds: z.number().int().min(1).max(60).optional(),
+  tags: tagsSchema.optional(),
+  folder: folderSchema.optional(),
+  routingRules: routingRulesSchema.optional()
 });
 
-// ---------- page metadata ----------
-interface PageMetadata {
-  title?: string;
-  description?: string;
-  keywords?: string;
-  image?: string;
-  siteName?: string;
-}
+// PATCH: every field optional; null clears title/description/password
+const updateLinkSchema = z.object({
+  originalUrl: z.string().url().or(z.string().min(4)).optional(),
+  title: z.string().max(200).nullable().optional(),
+  description: z.string().max(500).nullable().optional(),
+  password: z.string().min(4).max(128).nullable().optional(),
+  expiryDate: z.string().datetime().nullable().optional(),
+  isActive: z.boolean().optional(),
+  redirectMode: z.enum(['direct', 'preview', 'countdown']).optional(),
+  redirectStatus: z.union([z.literal(301), z.literal(302), z.literal(307), z.literal(308)]).optional(),
+  countdownSeconds: z.number().int().min(1).max(60).optional(),
+  tags: tagsSchema.optional(),
+  folder: folderSchema.nullable().optional(),
+  routingRules: routingRulesSchema.optional() // replaces the whole list; [] removes all rules
+}).refine((v) => Object.keys(v).length > 0, { message: 'Nothing to update' });
+
+// GET /my: q searches the text index; tag is comma-separated (links must carry all of them)
+const listMyLinksQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(), // legacy offset paging
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+  cursor: z.string().max(2048).optional(),
+  total: z.enum(['true', 'false']).optional(),
+  q: z.string().trim().max(200).optional(),
+  tag: z.string().optional().transform((v) => v?.split(',').map((t) => t.trim().toLowerCase()).filter(Boolean)),
+  folder: z.string().trim().max(64).optional(), // "none" = unfiled links
+  active: z.enum(['true', 'false']).optional(),
+  expired: z.enum(['true', 'false']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  sort: z.enum(['createdAt', '-createdAt', 'clicks', '-clicks', 'expiresAt', '-expiresAt', 'relevance']).optional(),
+  workspace: z.string().trim().optional()
+});
 
-const fetchPageMetadata = async (url: string): Promise<PageMetadata> => {
-  try {
-    const response = await axios.get(url, {
-      timeout: 8000,
-      headers: { 'User-Agent': 'Mozilla/5.0 (compatible; LinkShortener/1.0)' }
-    });
-    const $ = cheerio.load(response.data);
-    const title =
-      $('title').text() ||
-      $('meta[property="og:title"]').attr('content') ||
-      $('meta[name="twitter:title"]').attr('content');
-
-    const description =
-      $('meta[name="description"]').attr('content') ||
-      $('meta[property="og:description"]').attr('content') ||
-      $('meta[name="twitter:description"]').attr('content');
-
-    const keywords = $('meta[name="keywords"]').attr('content');
-
-    const image =
-      $('meta[property="og:image"]').attr('content') ||
-      $('meta[name="twitter:image"]').attr('content');
-
-    const siteName =
-      $('meta[property="og:site_name"]').attr('content') ||
-      new URL(url).hostname;
-
-    let meta: PageMetadata = {};
-    putIf(meta, 'title', title);
-    putIf(meta, 'description', description);
-    putIf(meta, 'keywords', keywords);
-    putIf(meta, 'image', image);
-    putIf(meta, 'siteName', siteName);
-    return meta;
-  } catch {
-    return {};
-  }
-};
+const hexColor = z.string().regex(/^#?([0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/).transform((c) => (c.startsWith('#') ? c : `#${c}`));
+const refreshMetadataSchema = z.object({
+  overwrite: z.boolean().optional() // also replace a title/description the user set
+});
 
-// ---------- controllers ----------
+const qrQuerySchema = z.object({
+  format: z.enum(['png', 'svg']).default('png'),
+  size: z.coerce.number().int().min(64).max(2048).default(300),
+  margin: z.coerce.number().int().min(0).max(16).default(4),
+  ecc: z.enum(['L', 'M', 'Q', 'H']).default('M'),
+  fg: hexColor.default('#000000'),
+  bg: hexColor.default('#ffffff'),
+  logo: z.enum(['true', 'false', '1', '0']).default('false').transform((v) => v === 'true' || v === '1')
+});
 
-// Per-user quota: max 5 created in the last 60 minutes
-async function enforceCreateQuota(userId: string) {
-  const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-  const recentCount = await Link.countDocuments({
-    createdBy: userId,
-    createdAt: { $gt: oneHourAgo }
-  });
-  if (recentCount >= 5) {
-    const retryInMins = 60; // (you can compute exact mins left, but requirement says “wait 1 hour”)
-    const error: any = new Error(`Quota exceeded: you can create only 5 links per hour. Try again in ~${retryInMins} minutes.`);
-    error.status = 429;
-    throw error;
-  }
-}
+// ---------- controllers ----------
 
 async function ensureLinkPasswordOk(req: Request, link: LinkDoc & { passwordHash?: string }) {
   if (!link.passwordHash) return true;
   const supplied =
     (req.headers['x-link-password'] as string | undefined) ||
-    (typeof req.query.p === 'string' ? (req.query.p as string) : undefined);
+    (typeof req.query.p === 'string' ? (req.query.p as string) : undefined) ||
+    (typeof req.body?.password === 'string' ? (req.body.password as string) : undefined); // HTML form
   if (!supplied) return false;
   return verifyPassword(supplied, link.passwordHash);
 }
 
-function resolveExpiryDate(expiryDate?: string): Date {
-  const max = new Date(Date.now() + FIVE_DAYS_MS);
-  if (!expiryDate) return max;            // default = 5 days from now
-  const d = new Date(expiryDate);
-  if (Number.isNaN(+d)) return max;       // fallback to default if bad date
-  if (d < new Date()) return max;         // not in the past
-  return d <= max ? d : max;              // cap at +5 days
+// Browsers ask for text/html first; fetch/XHR/API clients for JSON
+const wantsHtml = (req: Request) => req.accepts(['json', 'html']) === 'html';
+
+// Store one event per redirect (never blocks the redirect itself)
+async function recordClick(req: Request, link: LinkDoc, variant?: string) {
+  const ip = getClientIp(req);
+  const referrer = (req.get('referer') || req.get('referrer') || '').slice(0, 2048);
+  const userAgent = (req.get('user-agent') || '').slice(0, 512);
+  const country = lookupCountry(ip);
+  await ClickEvent.create({
+    link: link._id,
+    shortCode: link.shortCode,
+    clickedAt: new Date(),
+    referrer: referrer || undefined,
+    userAgent: userAgent || undefined,
+    ipHash: hashIp(ip),
+    country,
+    variant
+  });
+  emitEventSafe(link.createdBy, 'link.clicked', {
+    link: serializeLink(link),
+    click: { at: new Date().toISOString(), referrer: referrer || null, userAgent: userAgent || null, country: country ?? null }
+  });
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_HOURLY_RANGE_MS = 31 * DAY_MS;
+
+const topBy = (field: string, limit: number) => [
+  { $group: { _id: { $ifNull: [`$${field}`, '(none)'] }, count: { $sum: 1 } } },
+  { $sort: { count: -1 as const, _id: 1 as const } },
+  { $limit: limit },
+  { $project: { _id: 0, value: '$_id', count: 1 } }
+];
+
 // Create short link (AUTH REQUIRED)
 // export const createShortLink = async (
 //   req: Request<{}, {}, CreateLinkRequest>,
@@ -222,6 +297,113 @@ function resolveExpiryDate(expiryDate?: string): Date {
 //     next(err);
 //   }
 // };
+type CreateLinkInput = z.infer<typeof createLinkSchema>;
+type CreateLinkResult = { link: LinkDoc; existing: boolean };
+
+// Links on a custom domain live at the domain root; default links under /r/ on the API host
+const buildShortUrl = (req: Request, link: Pick<LinkDoc, 'shortCode' | 'domain'>) =>
+  link.domain
+    ? `${env.CUSTOM_DOMAIN_PROTOCOL}://${link.domain}/${link.shortCode}`
+    : `${req.protocol}://${req.get('host')}/r/${link.shortCode}`;
+
+// Rule destinations get the same normalization and safety check as originalUrl
+async function prepareRoutingRules(rules: z.infer<typeof routingRulesSchema>) {
+  const prepared = rules.map((r) => ({ ...r, destination: normalizeUrl(r.destination) }));
+  for (const r of prepared) await assertUrlSafe(r.destination);
+  return prepared;
+}
+
+// Shared by single + bulk creation. Quotas are enforced by the callers.
+async function createLinkForUser(
+  userId: string,
+  input: CreateLinkInput,
+  policy: PolicyLimits,
+  batchId?: string
+): Promise<CreateLinkResult> {
+  const { originalUrl, customAlias, title, description, password, expiryDate, redirectMode, redirectStatus, countdownSeconds } = input;
+  const normalizedUrl = normalizeUrl(originalUrl);
+  const domain = input.domain ? normalizeHostname(input.domain) : null;
+
+  const workspace = input.workspace ?? null;
+  if (workspace && !hasWorkspaceRole(await getWorkspaceRole(workspace, userId), 'editor')) {
+    throw httpError(403, 'You need editor access to create links in this workspace');
+  }
+
+  // personal links use the user's own domains; workspace links may also use the workspace's
+  if (domain) {
+    const own = { owner: userId, workspace: null };
+    const usable = await Domain.exists({
+      hostname: domain,
+      verified: true,
+      ...(workspace ? { $or: [own, { workspace }] } : own)
+    });
+    if (!usable) throw httpError(400, 'Domain is not registered or not verified for your account or this workspace');
+  }
+
+  if (customAlias && isReserved(customAlias)) throw httpError(400, 'Custom alias is reserved');
+  // bulk rows skip the (slow) redirect-chain check on originalUrl; the rescanner checks
+  // links without safety.checkedAt first (rule destinations are few and stay checked here)
+  const deferChains = Boolean(batchId) && env.SAFETY_RESCAN_INTERVAL_MIN > 0;
+  await assertUrlSafe(normalizedUrl, { followRedirects: deferChains ? false : undefined });
+  const routingRules = input.routingRules ? await prepareRoutingRules(input.routingRules) : [];
+
+  // Return existing (same user + same normalized URL)
+  const existing = await Link.findOne({
+    originalUrl: new RegExp(`^${escapeRegex(normalizedUrl)}$`, 'i'),
+    createdBy: userId,
+    domain,
+    workspace
+  });
+  if (existing) return { link: existing, existing: true };
+
+  await enforceMaxActiveLinks(userId, policy);
+  const expiresAt = resolveExpiryDate(expiryDate, policy);
+  const passwordHash = password ? await hashPassword(password) : undefined;
+
+  // fill blanks from the metadata cache right away; on a miss the enrichment worker fetches the page
+  const cachedMeta = await peekMetadata(normalizedUrl);
+
+  const insert = (shortCode: string) => Link.create(applyMetadata({
+    originalUrl: normalizedUrl,
+    shortCode,
+    domain,
+    customAlias: customAlias ?? shortCode,
+    createdBy: userId,
+    workspace,
+    expiresAt,
+    isActive: true,
+    title,
+    description,
+    passwordHash,
+    batchId,
+    redirectMode,
+    redirectStatus,
+    countdownSeconds,
+    tags: input.tags ?? [],
+    folder: input.folder ?? null,
+    routingRules,
+    ...(deferChains ? {} : { safety: { status: 'ok' as const, checkedAt: new Date() } }),
+    enrichment: initialEnrichment(cachedMeta)
+  }, cachedMeta ?? {}));
+
+  // the unique index on shortCode decides: no check-then-insert race
+  let link: LinkDoc;
+  if (customAlias) {
+    try {
+      link = await insert(customAlias);
+    } catch (err) {
+      if (isDuplicateShortCode(err)) throw httpError(400, 'Custom alias already exists');
+      throw err;
+    }
+  } else {
+    link = await insertWithUniqueShortCode(insert);
+  }
+
+  if (link.enrichment?.status === 'pending') queueEnrichment();
+  emitEventSafe(userId, 'link.created', { link: serializeLink(link) });
+  return { link, existing: false };
+}
+
 export const createShortLink = async (
   req: Request<{}, {}, CreateLinkRequest>,
   res: Response<CreateLinkResponse | { error: string }>,
@@ -240,66 +422,134 @@ export const createShortLink = async (
       return;
     }
 
-    await enforceCreateQuota(userId);
+    const role = ((req as any).user?.role ?? 'user') as Role;
+    const policy = await getEffectivePolicy(userId, role);
+    await enforceCreateQuota(userId, policy);
 
-    const { originalUrl, customAlias, title, description, password, expiryDate } = parsed.data;
-    const normalizedUrl = normalizeUrl(originalUrl);
+    const { link, existing } = await createLinkForUser(userId, parsed.data, policy);
 
-    if (customAlias) {
-      if (isReserved(customAlias)) {
-        res.status(400).json({ error: 'Custom alias is reserved' });
-        return;
-      }
-      const existingAlias = await Link.findOne({ shortCode: customAlias });
-      if (existingAlias) {
-        res.status(400).json({ error: 'Custom alias already exists' });
-        return;
-      }
+    res.status(existing ? 200 : 201).json({
+      shortUrl: buildShortUrl(req, link),
+      originalUrl: link.originalUrl,
+      shortCode: link.shortCode,
+      clicks: link.clicks,
+      title: link.title,
+      description: link.description,
+      metadataStatus: link.enrichment?.status,
+      ...(existing ? { message: 'Existing short link found for this URL' } : {})
+    });
+  } catch (err: any) {
+    if (err?.status === 400 || err?.status === 403) {
+      res.status(err.status).json({ error: err.message });
+      return;
     }
+    next(err);
+  }
+};
 
-    // Return existing (same user + same normalized URL)
-    const existing = await Link.findOne({
-      originalUrl: new RegExp(`^${normalizedUrl}$`, 'i'),
-      createdBy: userId
-    });
-    if (existing) {
-      res.status(200).json({
-        shortUrl: `${req.protocol}://${req.get('host')}/r/${existing.shortCode}`,
-        originalUrl: existing.originalUrl,
-        shortCode: existing.shortCode,
-        clicks: existing.clicks,
-        message: 'Existing short link found for this URL'
+// ---------- bulk ----------
+const BULK_MAX_ROWS = 500;
+
+// Accepts CSV headers from our template and from the JSON field names
+const csvRowToInput = (r: Record<string, string>) => ({
+  originalUrl: r.url || r.originalurl || undefined,
+  customAlias: r.alias || r.customalias || undefined,
+  title: r.title || undefined,
+  description: r.description || undefined,
+  password: r.password || undefined,
+  expiryDate: r.expiry || r.expirydate || r.expiresat || undefined,
+  domain: r.domain || undefined,
+  workspace: r.workspace || undefined,
+  tags: r.tags ? r.tags.split(/[|;]/).map((t) => t.trim()).filter(Boolean) : undefined, // "a|b" (commas separate columns)
+  folder: r.folder || undefined
+});
+
+// POST /api/links/bulk
+// body: JSON array | { links: [...] } | text/csv | multipart "file" (CSV: url,alias,title,description,expiry)
+export const createBulkLinks = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = (req as any).user?.sub as string | undefined;
+    const role = ((req as any).user?.role ?? 'user') as Role;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    let rows: unknown[];
+    const file = (req as any).file as Express.Multer.File | undefined;
+    if (file) {
+      rows = parseCsvRecords(file.buffer.toString('utf8')).map(csvRowToInput);
+    } else if (typeof req.body === 'string') {
+      rows = parseCsvRecords(req.body).map(csvRowToInput);
+    } else if (Array.isArray(req.body)) {
+      rows = req.body;
+    } else if (Array.isArray(req.body?.links)) {
+      rows = req.body.links;
+    } else {
+      return res.status(400).json({ error: 'Provide a JSON array, { links: [...] } or a CSV file' });
+    }
+
+    if (rows.length === 0) return res.status(400).json({ error: 'No rows to import' });
+    if (rows.length > BULK_MAX_ROWS) {
+      return res.status(400).json({ error: `Too many rows: max ${BULK_MAX_ROWS} per request` });
+    }
+
+    const policy = await getEffectivePolicy(userId, role);
+    let remaining = await remainingBulkQuota(userId, policy);
+    if (remaining === 0) {
+      return res.status(429).json({
+        error: `Bulk quota exceeded: ${policy.bulkLimit} links per ${policy.bulkWindowMinutes} minutes`
       });
-      return;
     }
 
-    const shortCode = customAlias ?? (await generateUniqueShortCode());
-    const expiresAt = resolveExpiryDate(expiryDate);
-    const finalAlias = customAlias ?? shortCode;
-
-    const passwordHash = password ? await hashPassword(password) : undefined;
-
-    const link = await Link.create({
-      originalUrl: normalizedUrl,
-      shortCode,
-      // customAlias: customAlias || undefined,
-      customAlias: finalAlias,
-      createdBy: userId,
-      expiresAt,
-      isActive: true,
-      title,
-      description,
-      passwordHash // <-- NEW
-    });
+    const batchId = new mongoose.Types.ObjectId().toHexString();
+    const results: Array<{
+      row: number;
+      success: boolean;
+      shortCode?: string;
+      shortUrl?: string;
+      originalUrl?: string;
+      existing?: boolean;
+      error?: unknown;
+    }> = [];
+
+    // sequential on purpose: keeps alias checks + quota accounting consistent within one batch
+    for (let i = 0; i < rows.length; i++) {
+      const row = i + 1;
+      const parsed = createLinkSchema.safeParse(rows[i]);
+      if (!parsed.success) {
+        results.push({ row, success: false, error: parsed.error.flatten().fieldErrors });
+        continue;
+      }
+      if (remaining === 0) {
+        results.push({ row, success: false, error: 'Bulk quota exceeded' });
+        continue;
+      }
+      try {
+        const { link, existing } = await createLinkForUser(userId, parsed.data, policy, batchId);
+        if (!existing) remaining--;
+        results.push({
+          row,
+          success: true,
+          shortCode: link.shortCode,
+          shortUrl: buildShortUrl(req, link),
+          originalUrl: link.originalUrl,
+          existing
+        });
+      } catch (err: any) {
+        if (!err?.status) throw err;
+        results.push({ row, success: false, error: err.message });
+      }
+    }
 
-    res.status(201).json({
-      shortUrl: `${req.protocol}://${req.get('host')}/r/${link.shortCode}`,
-      originalUrl: link.originalUrl,
-      shortCode: link.shortCode,
-      clicks: link.clicks
+    const created = results.filter(r => r.success && !r.existing).length;
+    const failed = results.filter(r => !r.success).length;
+    res.status(created > 0 ? 201 : 200).json({
+      success: failed === 0,
+      batchId,
+      summary: { total: rows.length, created, existing: rows.length - created - failed, failed },
+      remainingQuota: Number.isFinite(remaining) ? remaining : null,
+      results
     });
-  } catch (err) {
-    next(err);
+  } catch (e) {
+    next(e);
   }
 };
 
@@ -324,21 +574,61 @@ export const createShortLink = async (
 export const redirectToOriginalUrl = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { shortCode } = req.params;
-    const link = await Link.findOne({ shortCode, isActive: true }).select('+passwordHash'); // need hash
+    const scope = await linkScope(req);
+    const link = await Link.findOne({ shortCode, ...scope, isActive: true }).select('+passwordHash'); // need hash
     if (!link) return res.status(404).json({ error: 'Link not found' });
 
     if (link.expiresAt && link.expiresAt < new Date()) {
       return res.status(410).json({ error: 'This short URL has expired' });
     }
 
-    // password-protected?
+    // password-protected? browsers get a form, API clients JSON
     const ok = await ensureLinkPasswordOk(req, link);
-    if (!ok) return res.status(401).json({ error: 'Password required or invalid' });
+    if (!ok) {
+      if (!wantsHtml(req)) return res.status(401).json({ error: 'Password required or invalid' });
+      const error = req.method === 'POST' ? 'Incorrect password, please try again.' : undefined;
+      return sendHtml(res, 401, () => passwordPage({ action: req.originalUrl.split('?')[0], error }));
+    }
+
+    // routing rules win; otherwise an A/B variant (if any), otherwise originalUrl
+    const routed = resolveDestination(link, req);
+    const variant = routed.rule === null ? assignVariant(link, req, res) : undefined;
+    const destination = variant?.destination ?? routed.destination;
+    if (link.routingRules?.length || link.variants?.length) {
+      // the target depends on who asks: keep shared caches out of it
+      if (link.routingRules?.length) res.vary('User-Agent').vary('Accept-Language');
+      res.setHeader('Cache-Control', 'private, no-cache');
+    }
 
     link.clicks += 1;
     await link.save();
+    if (variant) countVariantClick(link._id, variant.key).catch((err) => console.error('❌ Variant click error:', err?.message));
+    recordClick(req, link, variant?.key).catch((err) => console.error('❌ Click event error:', err?.message));
+    if (link.redirectMode === 'preview' && wantsHtml(req)) {
+      const meta = await getMetadataSafe(destination);
+      return sendHtml(res, 200, () => previewPage({ destination, meta }));
+    }
+    if (link.redirectMode === 'countdown' && wantsHtml(req)) {
+      return sendHtml(res, 200, (nonce) =>
+        countdownPage({ destination, seconds: link.countdownSeconds ?? 5, nonce, title: link.title })
+      );
+    }
+    // a submitted password form must not be re-POSTed to the destination
+    const status = req.method === 'POST' ? 303 : link.redirectStatus ?? 302;
+    // browsers cache 301/308 forever unless told otherwise, which would skip click
+    // counting, expiry, deactivation and later edits
+    if (status === 301 || status === 308) res.setHeader('Cache-Control', 'no-store');
+    res.redirect(status, destination);
+  } catch (e) {
+    next(e);
+  }
+};
 
-    res.redirect(link.originalUrl);
+// GET /:shortCode on a verified custom domain (anything else falls through to 404)
+export const redirectOnCustomDomain = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!(await resolveRequestDomain(req))) return next();
+    return redirectToOriginalUrl(req, res, next);
   } catch (e) {
     next(e);
   }
@@ -370,7 +660,7 @@ export const redirectToOriginalUrl = async (req: Request, res: Response, next: N
 export const getLinkInfo = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { shortCode } = req.params;
-    const link = await Link.findOne({ shortCode }).select('+passwordHash');
+    const link = await Link.findOne({ shortCode, ...(await linkScope(req)) }).select('+passwordHash');
     if (!link) return res.status(404).json({ error: 'Short URL not found' });
 
     if (link.passwordHash) {
@@ -383,12 +673,18 @@ export const getLinkInfo = async (req: Request, res: Response, next: NextFunctio
       data: {
         originalUrl: link.originalUrl,
         shortCode: link.shortCode,
+        domain: link.domain,
         clicks: link.clicks,
         createdAt: link.createdAt,
         expiresAt: link.expiresAt,
         isActive: link.isActive,
         title: link.title,
-        description: link.description
+        description: link.description,
+        image: link.image,
+        siteName: link.siteName,
+        metadataStatus: link.enrichment?.status,
+        redirectMode: link.redirectMode,
+        hasPassword: Boolean(link.passwordHash)
       }
     });
   } catch (e) {
@@ -396,60 +692,397 @@ export const getLinkInfo = async (req: Request, res: Response, next: NextFunctio
   }
 };
 
+// GET /api/links/:shortCode/analytics
+// ?from=2025-10-01T00:00:00Z&to=2025-10-25T00:00:00Z&interval=hour|day&top=10
 export const getLinkAnalytics = async (req: Request, res: Response<LinkAnalytics | { error: string }>, next: NextFunction) => {
   try {
     const { shortCode } = req.params;
     const userId = (req as any).user?.sub as string | undefined;
     if (!userId) return res.status(401).json({ error: 'Unauthorized' });
 
-    const link = await Link.findOne({ shortCode, createdBy: userId });
+    const link = await Link.findOne({ shortCode, ...(await ownerLinkScope(req)), ...(await linkAccessFilter(userId, 'viewer')) });
     if (!link) return res.status(404).json({ error: 'Link not found' });
 
+    const interval: AnalyticsInterval = req.query.interval === 'hour' ? 'hour' : 'day';
+    const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+    const from = req.query.from ? new Date(String(req.query.from)) : new Date(to.getTime() - 30 * DAY_MS);
+    if (Number.isNaN(+from) || Number.isNaN(+to) || from > to) {
+      return res.status(400).json({ error: 'Invalid from/to range' });
+    }
+    if (interval === 'hour' && to.getTime() - from.getTime() > MAX_HOURLY_RANGE_MS) {
+      return res.status(400).json({ error: 'Hourly buckets are limited to a 31 day range' });
+    }
+    const top = Math.min(50, Math.max(1, Number.parseInt(String(req.query.top ?? '10')) || 10));
+    const format = interval === 'hour' ? '%Y-%m-%dT%H:00:00.000Z' : '%Y-%m-%d';
+
+    const [agg] = await ClickEvent.aggregate([
+      { $match: { link: link._id, clickedAt: { $gte: from, $lte: to } } },
+      {
+        $facet: {
+          totals: [
+            { $group: { _id: null, clicks: { $sum: 1 }, visitors: { $addToSet: '$ipHash' } } },
+            { $project: { _id: 0, clicks: 1, uniqueVisitors: { $size: '$visitors' } } }
+          ],
+          timeseries: [
+            { $group: { _id: { $dateToString: { format, date: '$clickedAt', timezone: 'UTC' } }, clicks: { $sum: 1 } } },
+            { $sort: { _id: 1 } },
+            { $project: { _id: 0, bucket: '$_id', clicks: 1 } }
+          ],
+          topReferrers: topBy('referrer', top),
+          topUserAgents: topBy('userAgent', top),
+          topCountries: topBy('country', top),
+          byVariant: [
+            { $match: { variant: { $exists: true } } },
+            { $group: { _id: '$variant', clicks: { $sum: 1 } } }
+          ]
+        }
+      }
+    ]);
+
     const analytics: LinkAnalytics = {
       originalUrl: link.originalUrl,
       shortCode: link.shortCode,
       clicks: link.clicks,
       createdAt: link.createdAt,
-      isActive: link.isActive
+      isActive: link.isActive,
+      range: { from, to, interval },
+      clicksInRange: agg?.totals?.[0]?.clicks ?? 0,
+      uniqueVisitors: agg?.totals?.[0]?.uniqueVisitors ?? 0,
+      timeseries: agg?.timeseries ?? [],
+      topReferrers: (agg?.topReferrers ?? []) as TopEntry[],
+      topUserAgents: (agg?.topUserAgents ?? []) as TopEntry[],
+      topCountries: (agg?.topCountries ?? []) as TopEntry[]
     };
+    if (link.variants?.length) {
+      const inRange = new Map<string, number>((agg?.byVariant ?? []).map((v: any) => [v._id, v.clicks]));
+      analytics.variants = link.variants.map((v) => ({
+        key: v.key,
+        label: v.label,
+        destination: v.destination,
+        weight: v.weight,
+        clicks: v.clicks,
+        clicksInRange: inRange.get(v.key) ?? 0
+      }));
+    }
     res.json(analytics);
   } catch (e) {
     next(e);
   }
 };
 
-export const getUserLinks = async (req: Request, res: Response, next: NextFunction) => {
+// PATCH /api/links/:shortCode  (owner only)
+export const updateLink = async (req: Request<{ shortCode: string }, {}, UpdateLinkRequest>, res: Response, next: NextFunction) => {
   try {
     const userId = (req as any).user?.sub as string | undefined;
     if (!userId) return res.status(401).json({ error: 'Unauthorized' });
 
-    const page = Number.parseInt((req.query.page as string) || '1');
-    const limit = Math.min(50, Number.parseInt((req.query.limit as string) || '10'));
-    const skip = (page - 1) * limit;
+    const parsed = updateLinkSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
 
-    const [links, total] = await Promise.all([
-      Link.find({ createdBy: userId }).sort({ createdAt: -1 }).skip(skip).limit(limit),
-      Link.countDocuments({ createdBy: userId })
-    ]);
+    const { shortCode } = req.params;
+    const link = await Link.findOne({ shortCode, ...(await ownerLinkScope(req)), ...(await linkAccessFilter(userId, 'editor')) })
+      .select('+passwordHash');
+    if (!link) return res.status(404).json({ error: 'Link not found' });
+    if (parsed.data.isActive === true && !link.isActive && link.moderatedAt) {
+      throw httpError(403, 'This link was deactivated by a moderator and can only be reactivated by one');
+    }
+
+    // workspace editors may change other members' links: limits are the owner's
+    const ownerId = String(link.createdBy);
+    const ownerRole = ownerId === userId
+      ? (((req as any).user?.role ?? 'user') as Role)
+      : (await getUserAuthState(ownerId))?.role ?? 'user';
+    const policy = await getEffectivePolicy(ownerId, ownerRole);
+
+    const { originalUrl, title, description, password, expiryDate, isActive, redirectMode, redirectStatus, countdownSeconds, tags, folder, routingRules } = parsed.data;
+    const reactivating = isActive === true && !link.isActive;
+    if (reactivating) await enforceMaxActiveLinks(ownerId, policy);
+    if (originalUrl !== undefined) link.originalUrl = normalizeUrl(originalUrl);
+    // reactivating a link the safety scan switched off: the scan may have flagged a rule or
+    // variant destination, so all of them are checked again
+    if (reactivating) {
+      const verdict = await checkLinkDestinations(link);
+      if (!verdict.ok) throw httpError(400, `Destination not allowed: ${verdict.reason}`);
+    } else if (originalUrl !== undefined) {
+      await assertUrlSafe(link.originalUrl);
+    }
+    if (originalUrl !== undefined || reactivating) {
+      link.safety = { status: 'ok', checkedAt: new Date() };
+      link.deactivatedReason = undefined;
+    }
+    // new destination: re-fetch its metadata (only blanks get filled)
+    if (originalUrl !== undefined) link.enrichment = { status: 'pending', attempts: 0, nextAttemptAt: new Date() };
+    if (title !== undefined) link.title = title?.trim() || undefined;
+    if (description !== undefined) link.description = description?.trim() || undefined;
+    if (expiryDate !== undefined) {
+      link.expiresAt = resolveExpiryDate(expiryDate, policy);
+      link.expiredNotifiedAt = null; // may expire (and notify) again
+    }
+    if (isActive !== undefined) link.isActive = isActive;
+    if (redirectMode !== undefined) link.redirectMode = redirectMode;
+    if (redirectStatus !== undefined) link.redirectStatus = redirectStatus;
+    if (countdownSeconds !== undefined) link.countdownSeconds = countdownSeconds;
+    if (tags !== undefined) link.tags = tags;
+    if (folder !== undefined) link.folder = folder;
+    if (routingRules !== undefined) link.routingRules = await prepareRoutingRules(routingRules);
+    if (password !== undefined) {
+      link.passwordHash = password === null ? undefined : await hashPassword(password);
+    }
+
+    await link.save();
+    if (link.enrichment?.status === 'pending') queueEnrichment();
+    emitEventSafe(link.createdBy, 'link.updated', { link: serializeLink(link), changed: Object.keys(parsed.data) });
+
+    const { passwordHash, ...data } = link.toObject();
+    res.json({ success: true, link: { ...data, hasPassword: Boolean(passwordHash) } });
+  } catch (e) {
+    next(e);
+  }
+};
+
+// POST /api/links/:shortCode/metadata/refresh  { overwrite? }
+export const refreshLinkMetadata = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = (req as any).user?.sub as string | undefined;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const parsed = refreshMetadataSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+    const { shortCode } = req.params;
+    const link = await Link.findOne({ shortCode, ...(await ownerLinkScope(req)), ...(await linkAccessFilter(userId, 'editor')) })
+      .select('_id');
+    if (!link) return res.status(404).json({ error: 'Link not found' });
+
+    const refreshed = await refreshEnrichment(link._id, { overwrite: parsed.data.overwrite });
+    if (!refreshed) return res.status(404).json({ error: 'Link not found' });
 
     res.json({
-      success: true,
-      links,
-      pagination: { page, limit, total, pages: Math.ceil(total / limit) }
+      success: refreshed.enrichment?.status === 'enriched',
+      metadataStatus: refreshed.enrichment?.status,
+      error: refreshed.enrichment?.error,
+      link: {
+        shortCode: refreshed.shortCode,
+        originalUrl: refreshed.originalUrl,
+        title: refreshed.title,
+        description: refreshed.description,
+        image: refreshed.image,
+        siteName: refreshed.siteName
+      }
     });
   } catch (e) {
     next(e);
   }
 };
 
+// PUT /api/links/:shortCode/variants  { variants: [{ key?, label?, destination, weight }] }
+export const setLinkVariants = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = (req as any).user?.sub as string | undefined;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const parsed = variantsSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+    const { shortCode } = req.params;
+    const link = await Link.findOne({ shortCode, ...(await ownerLinkScope(req)), ...(await linkAccessFilter(userId, 'editor')) });
+    if (!link) return res.status(404).json({ error: 'Link not found' });
+
+    const input = parsed.data.variants;
+    const previous = new Map((link.variants ?? []).map((v) => [v.key, v]));
+    const fresh = nextVariantKeys(new Set(input.flatMap((v) => (v.key ? [v.key] : []))), input.length);
+    const variants = [];
+    for (const v of input) {
+      const destination = normalizeUrl(v.destination);
+      await assertUrlSafe(destination);
+      const key = v.key ?? fresh.shift()!;
+      variants.push({ key, label: v.label, destination, weight: v.weight, clicks: previous.get(key)?.clicks ?? 0 });
+    }
+
+    link.variants = variants;
+    await link.save();
+    emitEventSafe(link.createdBy, 'link.updated', { link: serializeLink(link), changed: ['variants'] });
+
+    res.json({ success: true, variants: link.variants });
+  } catch (e) {
+    next(e);
+  }
+};
+
+// POST /api/links/:shortCode/variants/:key/winner
+// ends the experiment: the winning destination becomes originalUrl
+export const declareVariantWinner = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = (req as any).user?.sub as string | undefined;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const { shortCode, key } = req.params;
+    const link = await Link.findOne({ shortCode, ...(await ownerLinkScope(req)), ...(await linkAccessFilter(userId, 'editor')) });
+    if (!link) return res.status(404).json({ error: 'Link not found' });
+
+    const winner = link.variants?.find((v) => v.key === key);
+    if (!winner) return res.status(404).json({ error: 'Variant not found' });
+
+    const results = link.variants.map((v) => ({ key: v.key, label: v.label, destination: v.destination, clicks: v.clicks }));
+    link.originalUrl = winner.destination;
+    link.variants = [];
+    link.enrichment = { status: 'pending', attempts: 0, nextAttemptAt: new Date() }; // new destination
+    await link.save();
+    queueEnrichment();
+    emitEventSafe(link.createdBy, 'link.updated', { link: serializeLink(link), changed: ['originalUrl', 'variants'], winner: key });
+
+    res.json({ success: true, winner: key, results, link: { shortCode: link.shortCode, originalUrl: link.originalUrl } });
+  } catch (e) {
+    next(e);
+  }
+};
+
+// Filters + sort shared by GET /my and its export; null when the workspace isn't visible
+async function buildMyLinksQuery(userId: string, query: z.infer<typeof listMyLinksQuerySchema>) {
+  const { q, tag, folder, active, expired, from, to, workspace: ws } = query;
+
+  // ?workspace=<id> one workspace, ?workspace=personal only my unshared links, default everything I can see
+  let filter: Record<string, any>;
+  if (ws === 'personal') {
+    filter = { createdBy: userId, workspace: null };
+  } else if (ws) {
+    if (!hasWorkspaceRole(await getWorkspaceRole(ws, userId), 'viewer')) return null;
+    filter = { workspace: new mongoose.Types.ObjectId(ws) };
+  } else {
+    filter = await linkAccessFilter(userId, 'viewer');
+  }
+
+  if (q) filter.$text = { $search: q };
+  if (tag?.length) filter.tags = { $all: tag };
+  if (folder) filter.folder = folder === 'none' ? null : folder;
+  if (active) filter.isActive = active === 'true';
+  if (expired === 'true') {
+    filter.expiresAt = { $lt: new Date() };
+  } else if (expired === 'false') {
+    // never-expiring links have expiresAt: null; $and keeps the access filter's $or intact
+    filter.$and = [{ $or: [{ expiresAt: null }, { expiresAt: { $gte: new Date() } }] }];
+  }
+  if (from || to) {
+    filter.createdAt = {};
+    if (from) filter.createdAt.$gte = from;
+    if (to) filter.createdAt.$lte = to;
+  }
+
+  const sortParam = query.sort ?? (q ? 'relevance' : '-createdAt');
+  let sort: SortSpec;
+  if (sortParam === 'relevance') {
+    sort = q ? { score: { $meta: 'textScore' }, createdAt: -1 } : { createdAt: -1 };
+  } else {
+    const field = sortParam.replace(/^-/, '');
+    sort = { [field]: sortParam.startsWith('-') ? -1 : 1 };
+  }
+
+  return { filter, sort };
+}
+
+// GET /api/links/my
+// ?q=&tag=a,b&folder=name|none&active=&expired=&from=&to=&sort=-createdAt|clicks|expiresAt|relevance&workspace=
+// &limit=&cursor=<nextCursor|prevCursor>&total=true  (?page= still works)
+export const getUserLinks = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = (req as any).user?.sub as string | undefined;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const parsed = listMyLinksQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+    const { page, limit, cursor, total, q } = parsed.data;
+
+    const built = await buildMyLinksQuery(userId, parsed.data);
+    if (!built) return res.status(404).json({ error: 'Workspace not found' });
+    const { filter, sort } = built;
+
+    const { items: links, pagination } = await paginate(
+      Link,
+      filter,
+      sort,
+      { limit, cursor, page: cursor ? undefined : page, withTotal: total === 'true' },
+      { projection: q ? { score: { $meta: 'textScore' } } : undefined }
+    );
+
+    res.json({ success: true, links, pagination });
+  } catch (e) {
+    next(e);
+  }
+};
+
+// GET /api/links/my/export
+// same filters as GET /my, plus ?format=csv|json|ndjson&clicks=true&clicksFrom=&clicksTo=
+export const exportMyLinks = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = (req as any).user?.sub as string | undefined;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const parsed = listMyLinksQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+    const exportQuery = exportQuerySchema.safeParse(req.query);
+    if (!exportQuery.success) return res.status(400).json({ error: exportQuery.error.flatten() });
+    const key = (req as any).user as { apiKeyId?: string; scopes?: string[] };
+    if (exportQuery.data.clicks && key.apiKeyId && !key.scopes?.includes('analytics:read')) {
+      return res.status(403).json({ error: 'API key is missing the "analytics:read" scope' });
+    }
+
+    const built = await buildMyLinksQuery(userId, parsed.data);
+    if (!built) return res.status(404).json({ error: 'Workspace not found' });
+
+    const cursor = Link.find(built.filter, parsed.data.q ? { score: { $meta: 'textScore' } } : undefined)
+      .sort(built.sort)
+      .lean()
+      .cursor();
+    await streamLinkExport(res, cursor, exportQuery.data, `links-${new Date().toISOString().slice(0, 10)}`);
+  } catch (e) {
+    next(e);
+  }
+};
+
+// GET /api/links/my/tags
+// tags and folders in use across the links I can see, with counts
+export const getMyLinkFacets = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = (req as any).user?.sub as string | undefined;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const match = await linkAccessFilter(userId, 'viewer');
+    const [facets] = await Link.aggregate([
+      { $match: match },
+      {
+        $facet: {
+          tags: [
+            { $unwind: '$tags' },
+            { $group: { _id: '$tags', count: { $sum: 1 } } },
+            { $sort: { count: -1, _id: 1 } },
+            { $project: { _id: 0, tag: '$_id', count: 1 } }
+          ],
+          folders: [
+            { $match: { folder: { $ne: null } } },
+            { $group: { _id: '$folder', count: { $sum: 1 } } },
+            { $sort: { _id: 1 } },
+            { $project: { _id: 0, folder: '$_id', count: 1 } }
+          ]
+        }
+      }
+    ]);
+
+    res.json({ success: true, tags: facets?.tags ?? [], folders: facets?.folders ?? [] });
+  } catch (e) {
+    next(e);
+  }
+};
+
 export const deleteLink = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const userId = (req as any).user?.sub as string | undefined;
     if (!userId) return res.status(401).json({ error: 'Unauthorized' });
 
     const { shortCode } = req.params;
-    const link = await Link.findOneAndDelete({ shortCode, createdBy: userId });
+    const link = await Link.findOneAndDelete({ shortCode, ...(await ownerLinkScope(req)), ...(await linkAccessFilter(userId, 'editor')) });
     if (!link) return res.status(404).json({ success: false, message: 'Link not found' });
+    await ClickEvent.deleteMany({ link: link._id });
+    emitEventSafe(link.createdBy, 'link.deleted', { link: serializeLink(link), deletedBy: userId });
 
     res.json({ success: true, message: 'Link deleted successfully' });
   } catch (e) {
@@ -490,7 +1123,7 @@ export const getLinkForDelay = async (
 ) => {
   try {
     const { shortCode } = req.params;
-    const link = await Link.findOne({ shortCode, isActive: true }).select('+passwordHash');
+    const link = await Link.findOne({ shortCode, ...(await linkScope(req)), isActive: true }).select('+passwordHash');
     if (!link) return res.status(404).json({ error: 'Link not found' });
 
     if (link.passwordHash) {
@@ -498,7 +1131,7 @@ export const getLinkForDelay = async (
       if (!ok) return res.status(401).json({ error: 'Password required or invalid' });
     }
 
-    const metadata = await fetchPageMetadata(link.originalUrl);
+    const metadata = await getMetadataSafe(link.originalUrl);
     const result: LinkAnalytics & { metadata?: PageMetadata } = {
       originalUrl: link.originalUrl,
       shortCode: link.shortCode,
@@ -525,7 +1158,7 @@ export const getMyLinkStats = async (req: Request, res: Response, next: NextFunc
       Link.countDocuments({ createdBy: userId }),
       Link.countDocuments({ createdBy: userId, createdAt: { $gt: oneHourAgo } }),
       Link.aggregate([
-        { $match: { createdBy: new (require('mongoose').Types.ObjectId)(userId) } },
+        { $match: { createdBy: new mongoose.Types.ObjectId(userId) } },
         { $group: { _id: null, totalClicks: { $sum: '$clicks' } } }
       ])
     ]);
@@ -545,10 +1178,39 @@ export const getMyLinkStats = async (req: Request, res: Response, next: NextFunc
   }
 };
 
+// GET /api/links/:shortCode/qr?format=png|svg&size=300&margin=4&ecc=L|M|Q|H&fg=000000&bg=ffffff&logo=true
+export const getLinkQr = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = qrQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+    const opts = parsed.data;
+    if (opts.logo && !hasLogo()) return res.status(400).json({ error: 'No QR logo is configured' });
+
+    const { shortCode } = req.params;
+    const link = await Link.findOne({ shortCode, ...(await linkScope(req)) }, { shortCode: 1, domain: 1 }).lean();
+    if (!link) return res.status(404).json({ error: 'Link not found' });
+
+    const shortUrl = buildShortUrl(req, link);
+    const etag = qrEtag(shortUrl, opts);
+    res.set('ETag', etag);
+    res.set('Cache-Control', 'public, max-age=86400');
+    if (req.fresh) return res.status(304).end();
+
+    const body = await renderQr(shortUrl, opts);
+    res.type(opts.format === 'svg' ? 'image/svg+xml' : 'image/png');
+    if (req.query.download === 'true') {
+      res.attachment(`${link.shortCode}.${opts.format}`);
+    }
+    res.send(body);
+  } catch (e) {
+    next(e);
+  }
+};
+
 export const getLinkClicks = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { shortCode } = req.params;
-    const link = await Link.findOne({ shortCode }, { shortCode: 1, clicks: 1, _id: 0 });
+    const link = await Link.findOne({ shortCode, ...(await linkScope(req)) }, { shortCode: 1, clicks: 1, _id: 0 });
     if (!link) return res.status(404).json({ error: 'Link not found' });
     res.json({ shortCode: link.shortCode, clicks: link.clicks });
   } catch (e) {
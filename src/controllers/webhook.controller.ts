@@ -0,0 +1,195 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { Webhook, WEBHOOK_EVENTS } from '../models/Webhook';
+import { WebhookDelivery } from '../models/WebhookDelivery';
+import { generateWebhookSecret, queueTestEvent } from '../services/webhook.service';
+
+const MAX_HOOKS_PER_USER = 10;
+
+const eventsSchema = z.array(z.enum([...WEBHOOK_EVENTS, '*'])).min(1);
+const webhookUrl = z.string().url().refine((u) => /^https?:\/\//i.test(u), 'Only http(s) URLs are supported');
+
+const createWebhookSchema = z.object({
+  url: webhookUrl,
+  events: eventsSchema.default(['*']),
+  description: z.string().max(200).optional()
+});
+
+const updateWebhookSchema = z.object({
+  url: webhookUrl.optional(),
+  events: eventsSchema.optional(),
+  description: z.string().max(200).nullable().optional(),
+  active: z.boolean().optional()
+});
+
+async function findOwnHook(req: Request, res: Response) {
+  const userId = (req as any).user?.sub as string | undefined;
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return null;
+  }
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    res.status(400).json({ error: 'Invalid webhook id' });
+    return null;
+  }
+  const hook = await Webhook.findOne({ _id: req.params.id, user: userId });
+  if (!hook) {
+    res.status(404).json({ error: 'Webhook not found' });
+    return null;
+  }
+  return hook;
+}
+
+// POST /api/webhooks   { url, events?, description? }
+export async function createWebhook(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = (req as any).user?.sub as string | undefined;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const parsed = createWebhookSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+    const count = await Webhook.countDocuments({ user: userId });
+    if (count >= MAX_HOOKS_PER_USER) {
+      return res.status(400).json({ error: `You can have at most ${MAX_HOOKS_PER_USER} webhooks` });
+    }
+
+    const secret = generateWebhookSecret();
+    const hook = await Webhook.create({ user: userId, ...parsed.data, secret });
+    const { secret: _omit, ...webhook } = hook.toObject();
+
+    res.status(201).json({ success: true, webhook, secret }); // secret only shown once
+  } catch (err) {
+    next(err);
+  }
+}
+
+// GET /api/webhooks
+export async function listWebhooks(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = (req as any).user?.sub as string | undefined;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const webhooks = await Webhook.find({ user: userId }).sort({ createdAt: -1 }).lean();
+    res.json({ success: true, webhooks, availableEvents: WEBHOOK_EVENTS });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// GET /api/webhooks/:id
+export async function getWebhook(req: Request, res: Response, next: NextFunction) {
+  try {
+    const hook = await findOwnHook(req, res);
+    if (!hook) return;
+    res.json({ success: true, webhook: hook });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// PATCH /api/webhooks/:id   { url?, events?, description?, active? }
+export async function updateWebhook(req: Request, res: Response, next: NextFunction) {
+  try {
+    const parsed = updateWebhookSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+    const hook = await findOwnHook(req, res);
+    if (!hook) return;
+
+    const { url, events, description, active } = parsed.data;
+    if (url !== undefined) hook.url = url;
+    if (events !== undefined) hook.events = events;
+    if (description !== undefined) hook.description = description ?? undefined;
+    if (active !== undefined) hook.active = active;
+    await hook.save();
+
+    res.json({ success: true, webhook: hook });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// POST /api/webhooks/:id/rotate-secret
+export async function rotateWebhookSecret(req: Request, res: Response, next: NextFunction) {
+  try {
+    const hook = await findOwnHook(req, res);
+    if (!hook) return;
+
+    const secret = generateWebhookSecret();
+    await Webhook.updateOne({ _id: hook._id }, { $set: { secret } });
+    res.json({ success: true, secret });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// DELETE /api/webhooks/:id
+export async function deleteWebhook(req: Request, res: Response, next: NextFunction) {
+  try {
+    const hook = await findOwnHook(req, res);
+    if (!hook) return;
+
+    await WebhookDelivery.deleteMany({ webhook: hook._id });
+    await hook.deleteOne();
+    res.json({ success: true, message: 'Webhook deleted' });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// POST /api/webhooks/:id/test   (queues a "webhook.test" event)
+export async function sendTestEvent(req: Request, res: Response, next: NextFunction) {
+  try {
+    const hook = await findOwnHook(req, res);
+    if (!hook) return;
+
+    const delivery = await queueTestEvent(hook);
+    res.status(202).json({ success: true, delivery });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// GET /api/webhooks/:id/deliveries   ?page=1&limit=20&status=pending|success|failed&event=link.created
+export async function listDeliveries(req: Request, res: Response, next: NextFunction) {
+  try {
+    const hook = await findOwnHook(req, res);
+    if (!hook) return;
+
+    const page = Math.max(1, Number.parseInt(String(req.query.page ?? '1')) || 1);
+    const limit = Math.min(100, Math.max(1, Number.parseInt(String(req.query.limit ?? '20')) || 20));
+    const filter: any = { webhook: hook._id };
+    if (typeof req.query.status === 'string') filter.status = req.query.status;
+    if (typeof req.query.event === 'string') filter.event = req.query.event;
+
+    const [deliveries, total] = await Promise.all([
+      WebhookDelivery.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit).lean(),
+      WebhookDelivery.countDocuments(filter)
+    ]);
+    res.json({ success: true, deliveries, pagination: { page, limit, total, pages: Math.ceil(total / limit) } });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// POST /api/webhooks/:id/deliveries/:deliveryId/redeliver
+export async function redeliver(req: Request, res: Response, next: NextFunction) {
+  try {
+    const hook = await findOwnHook(req, res);
+    if (!hook) return;
+    if (!mongoose.isValidObjectId(req.params.deliveryId)) return res.status(400).json({ error: 'Invalid delivery id' });
+
+    const delivery = await WebhookDelivery.findOneAndUpdate(
+      { _id: req.params.deliveryId, webhook: hook._id, status: { $in: ['success', 'failed'] } },
+      { $set: { status: 'pending', nextAttemptAt: new Date(), attempts: 0 } },
+      { new: true }
+    ).lean();
+    if (!delivery) return res.status(404).json({ error: 'Delivery not found or still in progress' });
+
+    res.status(202).json({ success: true, delivery });
+  } catch (err) {
+    next(err);
+  }
+}
@@ -0,0 +1,296 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import * as crypto from 'crypto';
+import { z } from 'zod';
+import { Workspace } from '../models/Workspace';
+import { WorkspaceInvite } from '../models/WorkspaceInvite';
+import { User } from '../models/User';
+import { Link } from '../models/Link';
+import { Domain } from '../models/Domain';
+import { hasWorkspaceRole, memberRole } from '../services/workspace.service';
+import { appUrl, sendMailSafe } from '../services/mail.service';
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const nameSchema = z.object({ name: z.string().min(2).max(100) });
+const inviteSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(['editor', 'viewer']).default('viewer')
+});
+const memberRoleSchema = z.object({ role: z.enum(['owner', 'editor', 'viewer']) });
+
+const hashToken = (t: string) => crypto.createHash('sha256').update(t).digest('hex');
+
+// Loads the workspace and checks the caller's role; sends the error response itself
+async function loadWorkspace(req: Request, res: Response, min: 'owner' | 'editor' | 'viewer') {
+  const userId = (req as any).user?.sub as string | undefined;
+  if (!userId) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return null;
+  }
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    res.status(400).json({ error: 'Invalid workspace id' });
+    return null;
+  }
+  const ws = await Workspace.findById(req.params.id);
+  const role = ws ? memberRole(ws, userId) : undefined;
+  if (!ws || !role) {
+    res.status(404).json({ error: 'Workspace not found' });
+    return null;
+  }
+  if (!hasWorkspaceRole(role, min)) {
+    res.status(403).json({ error: 'Forbidden' });
+    return null;
+  }
+  return { ws, userId, role };
+}
+
+// POST /api/workspaces   { name }
+export async function createWorkspace(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = (req as any).user?.sub as string | undefined;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const parsed = nameSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+    const ws = await Workspace.create({
+      name: parsed.data.name,
+      createdBy: userId,
+      members: [{ user: userId, role: 'owner' }]
+    });
+    res.status(201).json({ success: true, workspace: ws });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// GET /api/workspaces   (workspaces I'm a member of)
+export async function listMyWorkspaces(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = (req as any).user?.sub as string | undefined;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const list = await Workspace.find({ 'members.user': userId }).sort({ createdAt: -1 }).lean();
+    res.json({
+      success: true,
+      workspaces: list.map((ws) => ({
+        _id: ws._id,
+        name: ws.name,
+        myRole: memberRole(ws, userId),
+        memberCount: ws.members.length,
+        createdAt: ws.createdAt
+      }))
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// GET /api/workspaces/:id
+export async function getWorkspace(req: Request, res: Response, next: NextFunction) {
+  try {
+    const ctx = await loadWorkspace(req, res, 'viewer');
+    if (!ctx) return;
+
+    await ctx.ws.populate('members.user', 'fullName email');
+    const links = await Link.countDocuments({ workspace: ctx.ws._id });
+    res.json({ success: true, workspace: ctx.ws, myRole: ctx.role, links });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// PATCH /api/workspaces/:id   { name }  (owner)
+export async function renameWorkspace(req: Request, res: Response, next: NextFunction) {
+  try {
+    const ctx = await loadWorkspace(req, res, 'owner');
+    if (!ctx) return;
+
+    const parsed = nameSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+    ctx.ws.name = parsed.data.name;
+    await ctx.ws.save();
+    res.json({ success: true, workspace: ctx.ws });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// DELETE /api/workspaces/:id  (owner; links and domains go back to being personal ones of their creators)
+export async function deleteWorkspace(req: Request, res: Response, next: NextFunction) {
+  try {
+    const ctx = await loadWorkspace(req, res, 'owner');
+    if (!ctx) return;
+
+    await Link.updateMany({ workspace: ctx.ws._id }, { $set: { workspace: null } });
+    await Domain.updateMany({ workspace: ctx.ws._id }, { $set: { workspace: null } });
+    await WorkspaceInvite.deleteMany({ workspace: ctx.ws._id });
+    await ctx.ws.deleteOne();
+    res.json({ success: true, message: 'Workspace deleted' });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// PATCH /api/workspaces/:id/members/:userId   { role }  (owner)
+export async function updateMemberRole(req: Request, res: Response, next: NextFunction) {
+  try {
+    const ctx = await loadWorkspace(req, res, 'owner');
+    if (!ctx) return;
+
+    const parsed = memberRoleSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+
+    const member = ctx.ws.members.find((m) => String(m.user) === req.params.userId);
+    if (!member) return res.status(404).json({ error: 'Member not found' });
+
+    const owners = ctx.ws.members.filter((m) => m.role === 'owner').length;
+    if (member.role === 'owner' && parsed.data.role !== 'owner' && owners <= 1) {
+      return res.status(400).json({ error: 'A workspace needs at least one owner' });
+    }
+
+    member.role = parsed.data.role;
+    await ctx.ws.save();
+    res.json({ success: true, workspace: ctx.ws });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// DELETE /api/workspaces/:id/members/:userId  (owner, or a member leaving)
+export async function removeMember(req: Request, res: Response, next: NextFunction) {
+  try {
+    const leaving = (req as any).user?.sub === req.params.userId;
+    const ctx = await loadWorkspace(req, res, leaving ? 'viewer' : 'owner');
+    if (!ctx) return;
+
+    const member = ctx.ws.members.find((m) => String(m.user) === req.params.userId);
+    if (!member) return res.status(404).json({ error: 'Member not found' });
+
+    const owners = ctx.ws.members.filter((m) => m.role === 'owner').length;
+    if (member.role === 'owner' && owners <= 1) {
+      return res.status(400).json({ error: 'A workspace needs at least one owner' });
+    }
+
+    ctx.ws.members = ctx.ws.members.filter((m) => String(m.user) !== req.params.userId);
+    await ctx.ws.save();
+    res.json({ success: true, message: leaving ? 'Left workspace' : 'Member removed' });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// POST /api/workspaces/:id/invites   { email, role }  (owner)
+export async function createInvite(req: Request, res: Response, next: NextFunction) {
+  try {
+    const ctx = await loadWorkspace(req, res, 'owner');
+    if (!ctx) return;
+
+    const parsed = inviteSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+    const email = parsed.data.email.toLowerCase();
+
+    const existingUser = await User.findOne({ email }).select('_id').lean();
+    if (existingUser && memberRole(ctx.ws, String(existingUser._id))) {
+      return res.status(409).json({ error: 'User is already a member' });
+    }
+
+    // one open invite per email
+    await WorkspaceInvite.deleteMany({ workspace: ctx.ws._id, email, acceptedAt: { $exists: false } });
+
+    const token = crypto.randomBytes(24).toString('hex');
+    const invite = await WorkspaceInvite.create({
+      workspace: ctx.ws._id,
+      email,
+      role: parsed.data.role,
+      tokenHash: hashToken(token),
+      invitedBy: ctx.userId,
+      expiresAt: new Date(Date.now() + INVITE_TTL_MS)
+    });
+
+    const acceptUrl = appUrl(`/invites/${token}`);
+    sendMailSafe({
+      to: email,
+      subject: `You're invited to ${ctx.ws.name}`,
+      text: `You've been invited to join the workspace "${ctx.ws.name}" as ${invite.role}.\n\nAccept the invite: ${acceptUrl}\n\nThe invite expires on ${invite.expiresAt.toUTCString()}.`
+    });
+
+    res.status(201).json({
+      success: true,
+      invite: { id: invite._id, email: invite.email, role: invite.role, expiresAt: invite.expiresAt },
+      token // shown once; also emailed to the invitee
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// GET /api/workspaces/:id/invites  (owner; pending only)
+export async function listInvites(req: Request, res: Response, next: NextFunction) {
+  try {
+    const ctx = await loadWorkspace(req, res, 'owner');
+    if (!ctx) return;
+
+    const invites = await WorkspaceInvite.find({
+      workspace: ctx.ws._id,
+      acceptedAt: { $exists: false },
+      expiresAt: { $gt: new Date() }
+    })
+      .select('-tokenHash')
+      .sort({ createdAt: -1 })
+      .lean();
+    res.json({ success: true, invites });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// DELETE /api/workspaces/:id/invites/:inviteId  (owner)
+export async function revokeInvite(req: Request, res: Response, next: NextFunction) {
+  try {
+    const ctx = await loadWorkspace(req, res, 'owner');
+    if (!ctx) return;
+    if (!mongoose.isValidObjectId(req.params.inviteId)) return res.status(400).json({ error: 'Invalid invite id' });
+
+    const result = await WorkspaceInvite.deleteOne({ _id: req.params.inviteId, workspace: ctx.ws._id });
+    if (result.deletedCount === 0) return res.status(404).json({ error: 'Invite not found' });
+    res.json({ success: true, message: 'Invite revoked' });
+  } catch (err) {
+    next(err);
+  }
+}
+
+// POST /api/workspaces/invites/:token/accept  (invitee, logged in with the invited email)
+export async function acceptInvite(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = (req as any).user?.sub as string | undefined;
+    if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+
+    const invite = await WorkspaceInvite.findOne({ tokenHash: hashToken(String(req.params.token)) });
+    if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+      return res.status(404).json({ error: 'Invite not found or expired' });
+    }
+
+    const user = await User.findById(userId).select('email').lean();
+    if (!user || user.email !== invite.email) {
+      return res.status(403).json({ error: 'This invite was sent to a different email address' });
+    }
+
+    const ws = await Workspace.findById(invite.workspace);
+    if (!ws) return res.status(404).json({ error: 'Workspace not found' });
+
+    if (!memberRole(ws, userId)) {
+      ws.members.push({ user: new mongoose.Types.ObjectId(userId), role: invite.role, addedAt: new Date() });
+      await ws.save();
+    }
+    invite.acceptedAt = new Date();
+    invite.acceptedBy = new mongoose.Types.ObjectId(userId);
+    await invite.save();
+
+    res.json({ success: true, workspace: { _id: ws._id, name: ws.name }, role: memberRole(ws, userId) });
+  } catch (err) {
+    next(err);
+  }
+}
@@ -1,20 +1,66 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken } from '../utils/jwt';
+import { authenticateApiKey, consumeRateLimit } from '../services/apiKey.service';
+import { getUserAuthState } from '../services/authState.service';
+
+type AuthOptions = {
+  apiKey?: boolean; // also accept "Authorization: ApiKey <key>" / "X-API-Key: <key>"
+};
+
+function readApiKey(req: Request) {
+  const header = req.headers.authorization ?? '';
+  if (header.startsWith('ApiKey ')) return header.slice(7).trim();
+  const x = req.headers['x-api-key'];
+  return (Array.isArray(x) ? x[0] : x)?.trim() ?? '';
+}
+
+export function auth(required = true, opts: AuthOptions = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const apiKey = readApiKey(req);
+    if (apiKey) {
+      if (!opts.apiKey) return res.status(401).json({ error: 'API keys are not accepted on this endpoint' });
+      try {
+        const result = await authenticateApiKey(apiKey);
+        if (!result) return res.status(401).json({ error: 'Invalid or revoked API key' });
+
+        const rl = consumeRateLimit(result.principal.apiKeyId, result.key.rateLimitPerMinute);
+        res.set('X-RateLimit-Limit', String(rl.limit));
+        res.set('X-RateLimit-Remaining', String(rl.remaining));
+        res.set('X-RateLimit-Reset', String(rl.resetSeconds));
+        if (!rl.allowed) {
+          res.set('Retry-After', String(rl.resetSeconds));
+          return res.status(429).json({ error: 'API key rate limit exceeded' });
+        }
+
+        (req as any).user = result.principal;
+        return next();
+      } catch (err) {
+        return next(err);
+      }
+    }
 
-export function auth(required = true) {
-  return (req: Request, res: Response, next: NextFunction) => {
     const header = req.headers.authorization ?? '';
     const token = header.startsWith('Bearer ') ? header.slice(7) : '';
     if (!token) {
       if (!required) return next();
       return res.status(401).json({ error: 'Unauthorized' });
     }
+    let payload;
     try {
-      const payload = verifyAccessToken(token);
-      (req as any).user = payload;
-      next();
+      payload = verifyAccessToken(token);
     } catch {
       return res.status(401).json({ error: 'Invalid or expired token' });
     }
+    try {
+      // the token may predate a deletion, demotion, password change or "log out everywhere"
+      const state = await getUserAuthState(payload.sub);
+      if (!state) return res.status(401).json({ error: 'User no longer exists' });
+      if (state.suspended) return res.status(403).json({ error: 'Account suspended' });
+      if (state.tokenVersion !== payload.tv) return res.status(401).json({ error: 'Token has been revoked' });
+      (req as any).user = { ...payload, role: state.role };
+      next();
+    } catch (err) {
+      return next(err);
+    }
   };
 }
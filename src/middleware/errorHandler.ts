@@ -7,5 +7,6 @@ export function notFound(req: Request, res: Response) {
 export function errorHandler(err: any, _req: Request, res: Response, _next: NextFunction) {
   console.error(err);
   const status = err?.status || 500;
+  if (err?.retryAfterSeconds) res.set('Retry-After', String(err.retryAfterSeconds));
   res.status(status).json({ error: err?.message || 'Server error' });
 }
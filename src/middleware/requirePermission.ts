@@ -0,0 +1,14 @@
+import { Request, Response, NextFunction } from 'express';
+import type { Role } from '../models/User';
+import { hasPermission, Permission } from '../config/permissions';
+
+// All listed permissions are required. API-key requests never get admin permissions.
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user as { role?: Role; apiKeyId?: string } | undefined;
+    if (!user?.role || user.apiKeyId || !permissions.every((p) => hasPermission(user.role, p))) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+    next();
+  };
+}
@@ -0,0 +1,13 @@
+import { Request, Response, NextFunction } from 'express';
+import type { ApiKeyScope } from '../models/ApiKey';
+
+// Only API-key requests carry scopes; a logged-in user (JWT) has them all
+export function requireScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user as { apiKeyId?: string; scopes?: string[] } | undefined;
+    if (user?.apiKeyId && !user.scopes?.includes(scope)) {
+      return res.status(403).json({ error: `API key is missing the "${scope}" scope` });
+    }
+    next();
+  };
+}
@@ -0,0 +1,35 @@
+import { Schema, model, Types } from 'mongoose';
+
+export const API_KEY_SCOPES = ['links:read', 'links:write', 'analytics:read'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface ApiKeyDoc {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  name: string;
+  prefix: string;              // first chars of the key, shown in listings
+  keyHash: string;             // sha256 of the full key (keys are high-entropy, no salt needed)
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  lastUsedAt?: Date;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+const ApiKeySchema = new Schema<ApiKeyDoc>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    name: { type: String, required: true, trim: true },
+    prefix: { type: String, required: true },
+    keyHash: { type: String, required: true, unique: true, select: false },
+    scopes: { type: [String], enum: API_KEY_SCOPES, default: [] },
+    rateLimitPerMinute: { type: Number, default: 60 },
+    lastUsedAt: Date,
+    expiresAt: Date,
+    revokedAt: Date
+  },
+  { timestamps: true }
+);
+
+export const ApiKey = model<ApiKeyDoc>('ApiKey', ApiKeySchema);
@@ -0,0 +1,31 @@
+import { Schema, model, Types } from 'mongoose';
+
+export type AuthTokenPurpose = 'password_reset' | 'email_verification';
+
+// Single-use emailed tokens. Only the sha256 is stored; expired ones are TTL-deleted.
+export interface AuthTokenDoc {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  purpose: AuthTokenPurpose;
+  tokenHash: string;
+  email: string;        // address the token was sent to
+  expiresAt: Date;
+  usedAt?: Date | null;
+  createdAt: Date;
+}
+
+const AuthTokenSchema = new Schema<AuthTokenDoc>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    purpose: { type: String, enum: ['password_reset', 'email_verification'], required: true },
+    tokenHash: { type: String, required: true, unique: true },
+    email: { type: String, required: true, lowercase: true, trim: true },
+    expiresAt: { type: Date, required: true },
+    usedAt: { type: Date, default: null }
+  },
+  { timestamps: true }
+);
+
+AuthTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const AuthToken = model<AuthTokenDoc>('AuthToken', AuthTokenSchema);
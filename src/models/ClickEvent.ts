@@ -0,0 +1,32 @@
+import { Schema, model, Types } from 'mongoose';
+
+export interface ClickEventDoc {
+  _id: Types.ObjectId;
+  link: Types.ObjectId;
+  shortCode: string;
+  clickedAt: Date;
+  referrer?: string;
+  userAgent?: string;
+  ipHash?: string;
+  country?: string;
+  variant?: string; // A/B variant key the visitor was sent to
+}
+
+const ClickEventSchema = new Schema<ClickEventDoc>(
+  {
+    link: { type: Schema.Types.ObjectId, ref: 'Link', required: true },
+    shortCode: { type: String, required: true },
+    clickedAt: { type: Date, default: () => new Date() },
+    referrer: { type: String, trim: true },
+    userAgent: { type: String, trim: true },
+    ipHash: String,
+    country: { type: String, uppercase: true, trim: true },
+    variant: String
+  },
+  { versionKey: false }
+);
+
+// analytics always query one link over a time range
+ClickEventSchema.index({ link: 1, clickedAt: -1 });
+
+export const ClickEvent = model<ClickEventDoc>('ClickEvent', ClickEventSchema);
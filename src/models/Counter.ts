@@ -0,0 +1,26 @@
+import { Schema, model } from 'mongoose';
+
+// Named monotonic sequences (e.g. "shortCode" for the sequence generator)
+export interface CounterDoc {
+  _id: string;
+  seq: number;
+}
+
+const CounterSchema = new Schema<CounterDoc>(
+  {
+    _id: { type: String, required: true },
+    seq: { type: Number, default: 0 }
+  },
+  { versionKey: false }
+);
+
+export const Counter = model<CounterDoc>('Counter', CounterSchema);
+
+export async function nextSequence(name: string): Promise<number> {
+  const doc = await Counter.findOneAndUpdate(
+    { _id: name },
+    { $inc: { seq: 1 } },
+    { upsert: true, new: true }
+  ).lean();
+  return doc!.seq;
+}
@@ -0,0 +1,33 @@
+import { Schema, model, Types } from 'mongoose';
+
+export interface DomainDoc {
+  _id: Types.ObjectId;
+  hostname: string;            // lower-case, no port: "go.example.com"
+  owner: Types.ObjectId;         // who registered it
+  workspace: Types.ObjectId | null; // shared with workspace members when set (access follows the workspace role)
+  verificationToken: string;
+  verified: boolean;
+  verifiedAt?: Date;
+  lastCheckedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DomainSchema = new Schema<DomainDoc>(
+  {
+    hostname: { type: String, required: true, lowercase: true, trim: true },
+    owner: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    workspace: { type: Schema.Types.ObjectId, ref: 'Workspace', default: null, index: true },
+    verificationToken: { type: String, required: true },
+    verified: { type: Boolean, default: false, index: true },
+    verifiedAt: Date,
+    lastCheckedAt: Date
+  },
+  { timestamps: true }
+);
+
+// Several accounts may claim a hostname while it is unverified; only one claim can be verified
+DomainSchema.index({ hostname: 1 }, { name: 'hostname_verified', unique: true, partialFilterExpression: { verified: true } });
+DomainSchema.index({ hostname: 1, owner: 1 }, { unique: true });
+
+export const Domain = model<DomainDoc>('Domain', DomainSchema);
@@ -32,36 +32,177 @@
 // export const Link = model<LinkDoc>('Link', LinkSchema);
 
 import { Schema, model, Types } from 'mongoose';
+import type { BrowserName, DeviceType, OsName } from '../utils/userAgent';
+
+export type RedirectMode = 'direct' | 'preview' | 'countdown';
+export type RedirectStatus = 301 | 302 | 307 | 308;
+
+export interface LinkSafety {
+  status: 'ok' | 'flagged';
+  reason?: string;
+  source?: string;
+  checkedAt: Date;
+  flaggedAt?: Date;
+}
+
+// Conditions inside a rule are ANDed; values inside one condition are ORed.
+export interface RoutingMatch {
+  countries?: string[];        // ISO 3166-1 alpha-2, uppercase (local GeoIP database)
+  devices?: DeviceType[];
+  os?: OsName[];
+  browsers?: BrowserName[];
+  languages?: string[];        // Accept-Language tags, lowercase; "fr" also matches "fr-ca"
+  referrerDomains?: string[];  // also matches subdomains
+  timeWindow?: {
+    start?: string;            // "HH:MM"; start > end wraps past midnight
+    end?: string;
+    days?: number[];           // 0 = Sunday
+    timezone?: string;         // IANA name, default UTC
+  };
+}
+
+export interface RoutingRule {
+  label?: string;
+  match: RoutingMatch;
+  destination: string;
+}
+
+// A/B split: visitors are assigned by weight and kept on their variant by cookie
+export interface LinkVariant {
+  key: string;          // stable id within the link ("a", "b", ...)
+  label?: string;
+  destination: string;
+  weight: number;       // relative share; 0 pauses the variant
+  clicks: number;
+}
+
+export type EnrichmentStatus = 'pending' | 'enriched' | 'failed';
+
+export interface LinkEnrichment {
+  status: EnrichmentStatus;
+  attempts: number;
+  error?: string;
+  updatedAt?: Date;
+  nextAttemptAt?: Date | null; // background worker picks pending links once due
+}
 
 export interface LinkDoc {
   _id: Types.ObjectId;
   originalUrl: string;
   shortCode: string;
+  domain: string | null; // verified custom domain; null = default host
   customAlias?: string;
   clicks: number;
   createdAt: Date;
   createdBy: Types.ObjectId | null;
-  expiresAt: Date;
+  workspace: Types.ObjectId | null; // shared with workspace members when set
+  expiresAt: Date | null; // null = never expires
   isActive: boolean;
   title?: string;
   description?: string;
   passwordHash?: string; // <-- NEW
+  batchId?: string;      // set when created through bulk import
+  expiredNotifiedAt?: Date | null; // link.expired webhook already emitted
+  redirectMode: RedirectMode;
+  redirectStatus: RedirectStatus;  // used by "direct"
+  countdownSeconds: number;        // used by "countdown"
+  safety?: LinkSafety;             // last destination safety check
+  deactivatedReason?: string;
+  moderatedAt?: Date | null;       // switched off by an admin/manager; only they can switch it back on
+  moderatedBy?: Types.ObjectId | null;
+  image?: string;                  // from destination page metadata
+  siteName?: string;
+  enrichment?: LinkEnrichment;     // title/description/image auto-fill state
+  tags: string[];                  // lowercase labels
+  folder: string | null;           // owner-defined grouping; null = unfiled
+  routingRules: RoutingRule[];     // evaluated in order on redirect; none matching = originalUrl
+  variants: LinkVariant[];         // when set, replace originalUrl for traffic no rule matched
 }
 
+const RoutingRuleSchema = new Schema<RoutingRule>(
+  {
+    label: { type: String, trim: true },
+    match: {
+      countries: { type: [String], default: undefined },
+      devices: { type: [String], default: undefined },
+      os: { type: [String], default: undefined },
+      browsers: { type: [String], default: undefined },
+      languages: { type: [String], default: undefined },
+      referrerDomains: { type: [String], default: undefined },
+      timeWindow: {
+        type: new Schema({ start: String, end: String, days: [Number], timezone: String }, { _id: false }),
+        default: undefined
+      }
+    },
+    destination: { type: String, required: true, trim: true }
+  },
+  { _id: false }
+);
+
+const LinkVariantSchema = new Schema<LinkVariant>(
+  {
+    key: { type: String, required: true, trim: true },
+    label: { type: String, trim: true },
+    destination: { type: String, required: true, trim: true },
+    weight: { type: Number, min: 0, max: 1000, default: 1 },
+    clicks: { type: Number, default: 0 }
+  },
+  { _id: false }
+);
+
 const LinkSchema = new Schema<LinkDoc>(
   {
     originalUrl: { type: String, required: true, trim: true },
-    shortCode: { type: String, required: true, unique: true, index: true },
+    shortCode: { type: String, required: true, index: true },
+    domain: { type: String, lowercase: true, trim: true, default: null },
     customAlias: { type: String, trim: true },
     clicks: { type: Number, default: 0 },
     createdBy: { type: Schema.Types.ObjectId, ref: 'User', default: null, index: true },
-    expiresAt: { type: Date, required: true, index: true },
+    workspace: { type: Schema.Types.ObjectId, ref: 'Workspace', default: null, index: true },
+    expiresAt: { type: Date, default: null, index: true },
     isActive: { type: Boolean, default: true, index: true },
     title: { type: String, trim: true },
     description: { type: String, trim: true },
-    passwordHash: { type: String, select: false } // <-- NEW (not selected by default)
+    passwordHash: { type: String, select: false }, // <-- NEW (not selected by default)
+    batchId: { type: String, index: true, sparse: true },
+    expiredNotifiedAt: { type: Date, default: null },
+    redirectMode: { type: String, enum: ['direct', 'preview', 'countdown'], default: 'direct' },
+    redirectStatus: { type: Number, enum: [301, 302, 307, 308], default: 302 },
+    countdownSeconds: { type: Number, min: 1, max: 60, default: 5 },
+    safety: {
+      status: { type: String, enum: ['ok', 'flagged'] },
+      reason: String,
+      source: String,
+      checkedAt: Date,
+      flaggedAt: Date
+    },
+    deactivatedReason: { type: String, trim: true },
+    moderatedAt: { type: Date, default: null },
+    moderatedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    image: { type: String, trim: true },
+    siteName: { type: String, trim: true },
+    enrichment: {
+      status: { type: String, enum: ['pending', 'enriched', 'failed'] },
+      attempts: { type: Number, default: 0 },
+      error: String,
+      updatedAt: Date,
+      nextAttemptAt: { type: Date, default: null }
+    },
+    tags: { type: [String], default: [], index: true },
+    folder: { type: String, trim: true, default: null, index: true },
+    routingRules: { type: [RoutingRuleSchema], default: [] },
+    variants: { type: [LinkVariantSchema], default: [] }
   },
   { timestamps: true }
 );
 
+// The same alias may exist once per domain (the old unique shortCode_1 is dropped at startup, see config/database)
+LinkSchema.index({ domain: 1, shortCode: 1 }, { unique: true });
+LinkSchema.index({ 'enrichment.status': 1, 'enrichment.nextAttemptAt': 1 });
+// Owner search (GET /api/links/my?q=); MongoDB allows a single text index per collection
+LinkSchema.index(
+  { title: 'text', description: 'text', originalUrl: 'text', shortCode: 'text', customAlias: 'text', tags: 'text' },
+  { name: 'link_text', weights: { title: 5, shortCode: 5, customAlias: 5, tags: 3, description: 2, originalUrl: 1 } }
+);
+
 export const Link = model<LinkDoc>('Link', LinkSchema);
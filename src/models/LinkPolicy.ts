@@ -0,0 +1,47 @@
+import { Schema, model, Types } from 'mongoose';
+import type { Role } from './User';
+
+// All limits are optional on the document: missing fields fall back to
+// the role policy (for user overrides) and then to DEFAULT_POLICIES.
+export interface PolicyLimits {
+  createLimit: number | null;        // links per window (null = unlimited)
+  createWindowMinutes: number;
+  bulkLimit: number | null;          // bulk-imported links per window (null = unlimited)
+  bulkWindowMinutes: number;
+  maxExpiryDays: number | null;      // max expiry horizon (null = no cap)
+  defaultExpiryDays: number;         // used when no expiryDate is given
+  allowNeverExpire: boolean;
+  maxActiveLinks: number | null;     // active + unexpired links (null = unlimited)
+}
+
+export interface LinkPolicyDoc extends Partial<PolicyLimits> {
+  _id: Types.ObjectId;
+  key: string;                       // "role:<role>" or "user:<userId>"
+  scope: 'role' | 'user';
+  role?: Role;
+  user?: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LinkPolicySchema = new Schema<LinkPolicyDoc>(
+  {
+    key: { type: String, required: true, unique: true, index: true },
+    scope: { type: String, enum: ['role', 'user'], required: true },
+    role: { type: String, enum: ['admin', 'manager', 'user'] },
+    user: { type: Schema.Types.ObjectId, ref: 'User' },
+    createLimit: { type: Number, min: 0 },
+    createWindowMinutes: { type: Number, min: 1 },
+    bulkLimit: { type: Number, min: 0 },
+    bulkWindowMinutes: { type: Number, min: 1 },
+    maxExpiryDays: { type: Number, min: 0 },
+    defaultExpiryDays: { type: Number, min: 0 },
+    allowNeverExpire: Boolean,
+    maxActiveLinks: { type: Number, min: 0 },
+    updatedBy: { type: Schema.Types.ObjectId, ref: 'User' }
+  },
+  { timestamps: true }
+);
+
+export const LinkPolicy = model<LinkPolicyDoc>('LinkPolicy', LinkPolicySchema);
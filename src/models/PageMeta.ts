@@ -1,23 +1,35 @@
 import { Schema, model } from 'mongoose';
 
 export interface PageMetaDoc {
-  url: string;
+  url: string;                 // normalized URL (cache key)
+  finalUrl?: string;           // after redirects
   title?: string;
   description?: string;
   image?: string;
   keywords?: string;
   siteName?: string;
+  favicon?: string;
+  canonicalUrl?: string;
+  language?: string;
+  oembed?: Record<string, unknown>;
+  jsonLd?: unknown[];
   fetchedAt: Date;
 }
 
 const PageMetaSchema = new Schema<PageMetaDoc>(
   {
     url: { type: String, required: true, unique: true, index: true },
+    finalUrl: String,
     title: String,
     description: String,
     image: String,
     keywords: String,
     siteName: String,
+    favicon: String,
+    canonicalUrl: String,
+    language: String,
+    oembed: Schema.Types.Mixed,
+    jsonLd: [Schema.Types.Mixed],
     fetchedAt: { type: Date, default: () => new Date(), index: true }
   },
   { timestamps: true }
@@ -25,4 +37,4 @@ const PageMetaSchema = new Schema<PageMetaDoc>(
 
 PageMetaSchema.index({ fetchedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
 
-export const PageMeta = model<PageMetaDoc>('PageMeta', PageMetaSchema);
\ No newline at end of file
+export const PageMeta = model<PageMetaDoc>('PageMeta', PageMetaSchema);
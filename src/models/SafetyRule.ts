@@ -0,0 +1,29 @@
+import { Schema, model, Types } from 'mongoose';
+
+export type SafetyRuleList = 'block' | 'allow';
+export type SafetyRuleKind = 'domain' | 'regex';
+
+export interface SafetyRuleDoc {
+  _id: Types.ObjectId;
+  list: SafetyRuleList;
+  kind: SafetyRuleKind;
+  pattern: string;             // "example.com" (also matches subdomains) or a regex tested against the full URL
+  reason?: string;
+  createdBy?: Types.ObjectId;
+  createdAt: Date;
+}
+
+const SafetyRuleSchema = new Schema<SafetyRuleDoc>(
+  {
+    list: { type: String, enum: ['block', 'allow'], required: true, index: true },
+    kind: { type: String, enum: ['domain', 'regex'], required: true },
+    pattern: { type: String, required: true, trim: true },
+    reason: { type: String, trim: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User' }
+  },
+  { timestamps: true }
+);
+
+SafetyRuleSchema.index({ list: 1, kind: 1, pattern: 1 }, { unique: true });
+
+export const SafetyRule = model<SafetyRuleDoc>('SafetyRule', SafetyRuleSchema);
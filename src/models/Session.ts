@@ -0,0 +1,42 @@
+import { Schema, model, Types } from 'mongoose';
+
+export type SessionRevokeReason = 'logout' | 'revoked' | 'reuse' | 'logout-all';
+
+// One refresh-token family (a login on one device). Each refresh rotates `jti`;
+// presenting an older jti means the token was copied, so the family is revoked
+// (except prevJti right after a rotation: concurrent refreshes from the same client).
+export interface SessionDoc {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  jti: string;                 // id of the only refresh token currently valid for this session
+  prevJti?: string;            // the one it replaced, accepted for a few seconds after rotatedAt
+  rotatedAt?: Date;
+  userAgent?: string;
+  ip?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;             // slides forward on every rotation
+  revokedAt?: Date | null;
+  revokedReason?: SessionRevokeReason;
+}
+
+const SessionSchema = new Schema<SessionDoc>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    jti: { type: String, required: true },
+    prevJti: String,
+    rotatedAt: Date,
+    userAgent: { type: String, trim: true },
+    ip: { type: String, trim: true },
+    lastUsedAt: { type: Date, default: () => new Date() },
+    expiresAt: { type: Date, required: true },
+    revokedAt: { type: Date, default: null },
+    revokedReason: { type: String, enum: ['logout', 'revoked', 'reuse', 'logout-all'] }
+  },
+  { timestamps: true }
+);
+
+// expired sessions disappear on their own
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = model<SessionDoc>('Session', SessionSchema);
@@ -1,4 +1,4 @@
-import { Schema, model } from 'mongoose';
+import { Schema, model, Types } from 'mongoose';
 
 export type Role = 'admin' | 'manager' | 'user';
 
@@ -8,6 +8,10 @@ interface IUser {
   passwordHash: string;
   role: Role;
   tokenVersion: number;
+  emailVerifiedAt?: Date | null;
+  suspendedAt?: Date | null;     // suspended accounts can't log in, refresh or use API keys
+  suspendedReason?: string;
+  suspendedBy?: Types.ObjectId;
 }
 
 const UserSchema = new Schema<IUser>(
@@ -16,10 +20,30 @@ const UserSchema = new Schema<IUser>(
     email:    { type: String, required: true, unique: true, lowercase: true, trim: true },
     passwordHash: { type: String, required: true },
     role: { type: String, enum: ['admin', 'manager', 'user'], default: 'user', index: true },
-    tokenVersion: { type: Number, default: 0 }
+    tokenVersion: { type: Number, default: 0 },
+    emailVerifiedAt: { type: Date, default: null },
+    suspendedAt: { type: Date, default: null },
+    suspendedReason: { type: String, trim: true },
+    suspendedBy: { type: Schema.Types.ObjectId, ref: 'User' }
   },
   { timestamps: true }
 );
 
+// Role, password or suspension changes invalidate every token issued so far (tokens carry tokenVersion)
+const REVOKING_FIELDS = ['role', 'passwordHash', 'suspendedAt'];
+
+UserSchema.pre('save', function () {
+  if (!this.isNew && REVOKING_FIELDS.some((f) => this.isModified(f))) this.tokenVersion += 1;
+});
+
+UserSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate'], function () {
+  const update = this.getUpdate() as Record<string, any> | null;
+  if (!update || Array.isArray(update)) return;
+  const touched = REVOKING_FIELDS.some((f) => f in update || (update.$set && f in update.$set));
+  if (touched && !update.$inc?.tokenVersion) {
+    this.setUpdate({ ...update, $inc: { ...(update.$inc ?? {}), tokenVersion: 1 } });
+  }
+});
+
 export const User = model<IUser>('User', UserSchema);
 export type UserDocument = InstanceType<typeof User>;
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { Schema, model, Types } from 'mongoose';
+
+export const WEBHOOK_EVENTS = [
+  'link.created',
+  'link.updated',
+  'link.deleted',
+  'link.expired',
+  'link.deactivated',
+  'link.clicked'
+] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number] | 'webhook.test';
+
+export interface WebhookDoc {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  url: string;
+  events: string[];            // subset of WEBHOOK_EVENTS, or ['*']
+  secret: string;              // HMAC key, needed in clear to sign payloads
+  description?: string;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebhookSchema = new Schema<WebhookDoc>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    url: { type: String, required: true, trim: true },
+    events: { type: [String], default: ['*'] },
+    secret: { type: String, required: true, select: false },
+    description: { type: String, trim: true },
+    active: { type: Boolean, default: true }
+  },
+  { timestamps: true }
+);
+
+export const Webhook = model<WebhookDoc>('Webhook', WebhookSchema);
@@ -0,0 +1,45 @@
+import { Schema, model, Types } from 'mongoose';
+
+export type DeliveryStatus = 'pending' | 'delivering' | 'success' | 'failed';
+
+export interface WebhookDeliveryDoc {
+  _id: Types.ObjectId;
+  webhook: Types.ObjectId;
+  user: Types.ObjectId;
+  event: string;
+  payload: Record<string, unknown>;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedUntil?: Date;
+  lastError?: string;
+  responseStatus?: number;
+  durationMs?: number;
+  deliveredAt?: Date;
+  createdAt: Date;
+}
+
+const WebhookDeliverySchema = new Schema<WebhookDeliveryDoc>(
+  {
+    webhook: { type: Schema.Types.ObjectId, ref: 'Webhook', required: true, index: true },
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    event: { type: String, required: true },
+    payload: { type: Schema.Types.Mixed, required: true },
+    status: { type: String, enum: ['pending', 'delivering', 'success', 'failed'], default: 'pending' },
+    attempts: { type: Number, default: 0 },
+    nextAttemptAt: { type: Date, default: () => new Date() },
+    lockedUntil: Date,
+    lastError: String,
+    responseStatus: Number,
+    durationMs: Number,
+    deliveredAt: Date
+  },
+  { timestamps: true }
+);
+
+// the worker polls for due work
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+// delivery log keeps 30 days
+WebhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export const WebhookDelivery = model<WebhookDeliveryDoc>('WebhookDelivery', WebhookDeliverySchema);
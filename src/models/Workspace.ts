@@ -0,0 +1,41 @@
+import { Schema, model, Types } from 'mongoose';
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface WorkspaceMember {
+  user: Types.ObjectId;
+  role: WorkspaceRole;
+  addedAt: Date;
+}
+
+export interface WorkspaceDoc {
+  _id: Types.ObjectId;
+  name: string;
+  createdBy: Types.ObjectId;
+  members: WorkspaceMember[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkspaceMemberSchema = new Schema<WorkspaceMember>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    role: { type: String, enum: ['owner', 'editor', 'viewer'], required: true },
+    addedAt: { type: Date, default: () => new Date() }
+  },
+  { _id: false }
+);
+
+const WorkspaceSchema = new Schema<WorkspaceDoc>(
+  {
+    name: { type: String, required: true, trim: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    members: { type: [WorkspaceMemberSchema], default: [] }
+  },
+  { timestamps: true }
+);
+
+// "which workspaces am I in" is the hot query
+WorkspaceSchema.index({ 'members.user': 1 });
+
+export const Workspace = model<WorkspaceDoc>('Workspace', WorkspaceSchema);
@@ -0,0 +1,31 @@
+import { Schema, model, Types } from 'mongoose';
+import type { WorkspaceRole } from './Workspace';
+
+export interface WorkspaceInviteDoc {
+  _id: Types.ObjectId;
+  workspace: Types.ObjectId;
+  email: string;
+  role: Exclude<WorkspaceRole, 'owner'>;
+  tokenHash: string;           // sha256 of the token sent to the invitee
+  invitedBy: Types.ObjectId;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  acceptedBy?: Types.ObjectId;
+  createdAt: Date;
+}
+
+const WorkspaceInviteSchema = new Schema<WorkspaceInviteDoc>(
+  {
+    workspace: { type: Schema.Types.ObjectId, ref: 'Workspace', required: true, index: true },
+    email: { type: String, required: true, lowercase: true, trim: true },
+    role: { type: String, enum: ['editor', 'viewer'], required: true },
+    tokenHash: { type: String, required: true, unique: true },
+    invitedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    expiresAt: { type: Date, required: true },
+    acceptedAt: Date,
+    acceptedBy: { type: Schema.Types.ObjectId, ref: 'User' }
+  },
+  { timestamps: true }
+);
+
+export const WorkspaceInvite = model<WorkspaceInviteDoc>('WorkspaceInvite', WorkspaceInviteSchema);
@@ -1,30 +1,33 @@
 import { Router } from 'express';
 import { auth } from '../middleware/auth';
-import { requireRole } from '../middleware/requireRole';
+import { requirePermission } from '../middleware/requirePermission';
 import {
   listAllLinks,
   getLinkAdmin,
   deleteLinkAdmin,
   setLinkActiveAdmin,
-  getLinksStatsAdmin
+  getLinksStatsAdmin,
+  exportLinksAdmin
 } from '../controllers/admin.links.controller';
 
 const router = Router();
 
-// All endpoints here are admin-only
-router.use(auth(true), requireRole('admin'));
+// Admins and managers; each endpoint names the permission it needs (config/permissions.ts)
+router.use(auth(true));
 
 /**
  * GET    /api/admin/links              list with filters (any user's links)
  * GET    /api/admin/links/stats        totals/active/expired/clicks
+ * GET    /api/admin/links/export       same filters; ?format=csv|json|ndjson&clicks=true&clicksFrom=&clicksTo=
  * GET    /api/admin/links/:idOrCode    view by ObjectId or shortCode
  * DELETE /api/admin/links/:idOrCode    delete any link
- * PATCH  /api/admin/links/:idOrCode/status  { isActive: boolean } activate/deactivate
+ * PATCH  /api/admin/links/:idOrCode/status  { isActive: boolean, reason? } activate/deactivate (moderation)
  */
-router.get('/', listAllLinks);
-router.get('/stats', getLinksStatsAdmin);
-router.get('/:idOrCode', getLinkAdmin);
-router.delete('/:idOrCode', deleteLinkAdmin);
-router.patch('/:idOrCode/status', setLinkActiveAdmin);
+router.get('/', requirePermission('links.read.any'), listAllLinks);
+router.get('/stats', requirePermission('stats.view'), getLinksStatsAdmin);
+router.get('/export', requirePermission('links.read.any', 'links.export'), exportLinksAdmin);
+router.get('/:idOrCode', requirePermission('links.read.any'), getLinkAdmin);
+router.delete('/:idOrCode', requirePermission('links.delete.any'), deleteLinkAdmin);
+router.patch('/:idOrCode/status', requirePermission('links.moderate'), setLinkActiveAdmin);
 
 export default router;
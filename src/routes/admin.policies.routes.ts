@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { auth } from '../middleware/auth';
+import { requirePermission } from '../middleware/requirePermission';
+import {
+  listPolicies,
+  getRolePolicyAdmin,
+  putRolePolicy,
+  resetRolePolicy,
+  getUserPolicyAdmin,
+  putUserPolicy,
+  deleteUserPolicy
+} from '../controllers/admin.policies.controller';
+
+const router = Router();
+
+// All endpoints here need policies.manage (admin only)
+router.use(auth(true), requirePermission('policies.manage'));
+
+/**
+ * GET    /api/admin/policies                 defaults, effective role policies, user overrides
+ * GET    /api/admin/policies/roles/:role     stored + effective policy for a role
+ * PUT    /api/admin/policies/roles/:role     replace role policy
+ * DELETE /api/admin/policies/roles/:role     reset role to built-in defaults
+ * GET    /api/admin/policies/users/:userId   override + effective policy for a user
+ * PUT    /api/admin/policies/users/:userId   replace user override
+ * DELETE /api/admin/policies/users/:userId   remove user override
+ *
+ * Policy fields: createLimit, createWindowMinutes, bulkLimit, bulkWindowMinutes,
+ * maxExpiryDays, defaultExpiryDays, allowNeverExpire, maxActiveLinks (null = unlimited)
+ */
+router.get('/', listPolicies);
+router.get('/roles/:role', getRolePolicyAdmin);
+router.put('/roles/:role', putRolePolicy);
+router.delete('/roles/:role', resetRolePolicy);
+router.get('/users/:userId', getUserPolicyAdmin);
+router.put('/users/:userId', putUserPolicy);
+router.delete('/users/:userId', deleteUserPolicy);
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { auth } from '../middleware/auth';
+import { requirePermission } from '../middleware/requirePermission';
+import {
+  listSafetyRules,
+  createSafetyRule,
+  deleteSafetyRule,
+  checkUrlAdmin,
+  rescanNow,
+  listFlaggedLinks
+} from '../controllers/admin.safety.controller';
+
+const router = Router();
+
+router.use(auth(true));
+
+/**
+ * GET    /api/admin/safety/rules        ?list=block|allow
+ * POST   /api/admin/safety/rules        { list: block|allow, kind: domain|regex, pattern, reason? }
+ * DELETE /api/admin/safety/rules/:id
+ * POST   /api/admin/safety/check        { url }  dry-run verdict
+ * POST   /api/admin/safety/rescan       rescan active links now (?limit=500)
+ * GET    /api/admin/safety/flagged      links deactivated by the scanner
+ */
+router.get('/rules', requirePermission('safety.manage'), listSafetyRules);
+router.post('/rules', requirePermission('safety.manage'), createSafetyRule);
+router.delete('/rules/:id', requirePermission('safety.manage'), deleteSafetyRule);
+router.post('/check', requirePermission('safety.manage'), checkUrlAdmin);
+router.post('/rescan', requirePermission('safety.manage'), rescanNow);
+router.get('/flagged', requirePermission('links.read.any'), listFlaggedLinks);
+
+export default router;
@@ -1,20 +1,40 @@
 import { Router } from 'express';
 import { auth } from '../middleware/auth';
-import { requireRole } from '../middleware/requireRole';
-import { listUsers, getUserById, deleteUserById } from '../controllers/admin.users.controller';
+import { requirePermission } from '../middleware/requirePermission';
+import {
+  listUsers,
+  getUserById,
+  deleteUserById,
+  createUser,
+  updateUserRole,
+  suspendUser,
+  unsuspendUser,
+  resetUserPassword
+} from '../controllers/admin.users.controller';
 
 const router = Router();
 
-// All routes below require admin
-router.use(auth(true), requireRole('admin'));
+// Admins and managers; each endpoint names the permission it needs (config/permissions.ts)
+router.use(auth(true));
 
 /**
- * GET    /api/admin/users            ?page=1&limit=10&q=search&role=user|manager|admin
+ * GET    /api/admin/users            ?page=1&limit=10&q=search&role=user|manager|admin&suspended=true|false
+ * POST   /api/admin/users            { fullName, email, password?, role? }
  * GET    /api/admin/users/:id
- * DELETE /api/admin/users/:id        (?cascade=true to also delete that user's links)
+ * DELETE /api/admin/users/:id        (?cascade=true to also delete that user's links and their clicks)
+ * PATCH  /api/admin/users/:id/role   { role }
+ * POST   /api/admin/users/:id/suspend    { reason?, suspendLinks? }
+ * POST   /api/admin/users/:id/unsuspend
+ * POST   /api/admin/users/:id/password   { password? }
+ * The last active admin can't be demoted, suspended or deleted.
  */
-router.get('/', listUsers);
-router.get('/:id', getUserById);
-router.delete('/:id', deleteUserById);
+router.get('/', requirePermission('users.read'), listUsers);
+router.post('/', requirePermission('users.manage'), createUser);
+router.get('/:id', requirePermission('users.read'), getUserById);
+router.delete('/:id', requirePermission('users.delete'), deleteUserById);
+router.patch('/:id/role', requirePermission('users.roles'), updateUserRole);
+router.post('/:id/suspend', requirePermission('users.manage'), suspendUser);
+router.post('/:id/unsuspend', requirePermission('users.manage'), unsuspendUser);
+router.post('/:id/password', requirePermission('users.manage'), resetUserPassword);
 
 export default router;
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { auth } from '../middleware/auth';
+import { createApiKey, listApiKeys, revokeApiKey } from '../controllers/apiKey.controller';
+
+const router = Router();
+
+// managing keys needs a real login (an API key can't mint more keys)
+router.use(auth(true));
+
+/**
+ * POST   /api/api-keys        { name, scopes?: ['links:read'|'links:write'|'analytics:read'], rateLimitPerMinute?, expiresAt? }
+ * GET    /api/api-keys
+ * DELETE /api/api-keys/:id    revoke
+ *
+ * Use a key with "Authorization: ApiKey <key>" or "X-API-Key: <key>" on /api/links endpoints.
+ */
+router.post('/', createApiKey);
+router.get('/', listApiKeys);
+router.delete('/:id', revokeApiKey);
+
+export default router;
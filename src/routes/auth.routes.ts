@@ -1,7 +1,11 @@
 import { Router } from 'express';
-import { signup, login, refresh, logout } from '../controllers/auth.controller';
+import {
+  signup, login, refresh, logout, logoutAll, listSessions, deleteSession,
+  forgotPassword, resetPassword, changePassword, verifyEmail, resendVerification
+} from '../controllers/auth.controller';
 import { auth } from '../middleware/auth';
-import { requireRole } from '../middleware/requireRole';
+import { requirePermission } from '../middleware/requirePermission';
+import { permissionsFor } from '../config/permissions';
 
 const router = Router();
 
@@ -9,9 +13,19 @@ router.post('/signup', signup);
 router.post('/login',  login);
 router.post('/refresh', refresh);
 router.post('/logout', logout);
+router.post('/logout-all', auth(true), logoutAll);
 
-router.get('/me', auth(true), (req, res) => res.json({ user: (req as any).user }));
-router.get('/admin', auth(true), requireRole('admin'), (_req, res) => res.json({ ok: true, area: 'admin' }));
-router.get('/manager', auth(true), requireRole('manager','admin'), (_req, res) => res.json({ ok: true, area: 'manager' }));
+router.get('/sessions', auth(true), listSessions);
+router.delete('/sessions/:id', auth(true), deleteSession);
+
+router.post('/password/forgot', forgotPassword);
+router.post('/password/reset', resetPassword);
+router.post('/password/change', auth(true), changePassword);
+router.post('/email/verify', verifyEmail);
+router.post('/email/resend', auth(true), resendVerification);
+
+router.get('/me', auth(true), (req, res) => res.json({ user: (req as any).user, permissions: permissionsFor((req as any).user?.role) }));
+router.get('/admin', auth(true), requirePermission('users.manage'), (_req, res) => res.json({ ok: true, area: 'admin' }));
+router.get('/manager', auth(true), requirePermission('links.moderate'), (_req, res) => res.json({ ok: true, area: 'manager' }));
 
 export default router;
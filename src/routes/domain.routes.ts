@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { auth } from '../middleware/auth';
+import {
+  createDomain,
+  listMyDomains,
+  getMyDomain,
+  verifyDomain,
+  deleteDomain
+} from '../controllers/domain.controller';
+
+const router = Router();
+
+router.use(auth(true));
+
+/**
+ * POST   /api/domains              { hostname, workspace? }  register (returns the TXT record to create)
+ * GET    /api/domains              my domains and my workspaces' domains
+ * GET    /api/domains/:id
+ * POST   /api/domains/:id/verify   check the DNS TXT record
+ * DELETE /api/domains/:id
+ */
+router.post('/', createDomain);
+router.get('/', listMyDomains);
+router.get('/:id', getMyDomain);
+router.post('/:id/verify', verifyDomain);
+router.delete('/:id', deleteDomain);
+
+export default router;
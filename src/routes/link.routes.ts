@@ -1,33 +1,67 @@
-import { Router } from 'express';
+import { Router, text, urlencoded, Request, Response, NextFunction } from 'express';
+import multer = require('multer');
 import { auth } from '../middleware/auth';
+import { requireScope } from '../middleware/requireScope';
+import { httpError } from '../utils/httpError';
 import {
   createShortLink,
+  createBulkLinks,
   redirectToOriginalUrl,
   getLinkAnalytics,
   getUserLinks,
   getLinkInfo,
   deleteLink,
+  updateLink,
   getLinkForDelay,
   getLinkClicks,
-  getMyLinkStats
+  getLinkQr,
+  getMyLinkStats,
+  refreshLinkMetadata,
+  getMyLinkFacets,
+  exportMyLinks,
+  setLinkVariants,
+  declareVariantWinner
 } from '../controllers/link.controller';
 
 const router = Router();
 
+// CSV imports: multipart "file" field or a raw text/csv body (1 MB max)
+const csvUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 1024 * 1024 } });
+// multer errors carry no status; an oversized file is a 413, anything else a bad request
+const csvFile = (req: Request, res: Response, next: NextFunction) =>
+  csvUpload.single('file')(req, res, (err?: unknown) => {
+    if (!(err instanceof multer.MulterError)) return next(err);
+    next(err.code === 'LIMIT_FILE_SIZE' ? httpError(413, 'CSV file is larger than 1 MB') : httpError(400, err.message));
+  });
+const csvText = text({ type: ['text/csv', 'text/plain'], limit: '1mb' });
+
+// JWT or API key (scoped)
+const userOrKey = auth(true, { apiKey: true });
+
 // create
-router.post('/', auth(true), createShortLink);
+router.post('/', userOrKey, requireScope('links:write'), createShortLink);
+router.post('/bulk', userOrKey, requireScope('links:write'), csvFile, csvText, createBulkLinks);
 
-router.get('/my', auth(true), getUserLinks);
-router.get('/my/stats', auth(true), getMyLinkStats);  
+router.get('/my', userOrKey, requireScope('links:read'), getUserLinks);
+router.get('/my/export', userOrKey, requireScope('links:read'), exportMyLinks);
+router.get('/my/tags', userOrKey, requireScope('links:read'), getMyLinkFacets);
+router.get('/my/stats', userOrKey, requireScope('analytics:read'), getMyLinkStats);
 
 router.get('/:shortCode/info', getLinkInfo);
 router.get('/:shortCode/clicks', getLinkClicks); 
+router.get('/:shortCode/qr', getLinkQr);
 
-router.get('/:shortCode/analytics', auth(true), getLinkAnalytics);
-router.delete('/:shortCode', auth(true), deleteLink);
+router.get('/:shortCode/analytics', userOrKey, requireScope('analytics:read'), getLinkAnalytics);
+router.patch('/:shortCode', userOrKey, requireScope('links:write'), updateLink);
+router.delete('/:shortCode', userOrKey, requireScope('links:write'), deleteLink);
+router.put('/:shortCode/variants', userOrKey, requireScope('links:write'), setLinkVariants);
+router.post('/:shortCode/variants/:key/winner', userOrKey, requireScope('links:write'), declareVariantWinner);
+router.post('/:shortCode/metadata/refresh', userOrKey, requireScope('links:write'), refreshLinkMetadata);
 
 router.get('/delay/:shortCode', getLinkForDelay);
 
 router.get('/r/:shortCode', redirectToOriginalUrl);
+// HTML password form posts back here
+router.post('/r/:shortCode', urlencoded({ extended: false, limit: '2kb' }), redirectToOriginalUrl);
 
 export default router;
\ No newline at end of file
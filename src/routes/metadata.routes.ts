@@ -1,8 +1,9 @@
 import { Router } from 'express';
 import { fetchMetadata } from '../controllers/metadata.controller';
+import { auth } from '../middleware/auth';
 
 const router = Router();
-// POST /api/metadata  { url }
-router.post('/', fetchMetadata);
+// POST /api/metadata  { url, refresh? }  (refresh: true bypasses the cache, signed-in users only)
+router.post('/', auth(false, { apiKey: true }), fetchMetadata);
 
 export default router;
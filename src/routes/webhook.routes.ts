@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { auth } from '../middleware/auth';
+import {
+  createWebhook,
+  listWebhooks,
+  getWebhook,
+  updateWebhook,
+  rotateWebhookSecret,
+  deleteWebhook,
+  sendTestEvent,
+  listDeliveries,
+  redeliver
+} from '../controllers/webhook.controller';
+
+const router = Router();
+
+router.use(auth(true));
+
+/**
+ * POST   /api/webhooks                         { url, events?: [...]|['*'], description? }
+ * GET    /api/webhooks
+ * GET    /api/webhooks/:id
+ * PATCH  /api/webhooks/:id                     { url?, events?, description?, active? }
+ * DELETE /api/webhooks/:id
+ * POST   /api/webhooks/:id/rotate-secret
+ * POST   /api/webhooks/:id/test                queue a "webhook.test" event
+ * GET    /api/webhooks/:id/deliveries          delivery log (?status=&event=&page=&limit=)
+ * POST   /api/webhooks/:id/deliveries/:deliveryId/redeliver
+ *
+ * Events: link.created, link.updated, link.deleted, link.expired, link.deactivated, link.clicked
+ */
+router.post('/', createWebhook);
+router.get('/', listWebhooks);
+router.get('/:id', getWebhook);
+router.patch('/:id', updateWebhook);
+router.delete('/:id', deleteWebhook);
+router.post('/:id/rotate-secret', rotateWebhookSecret);
+router.post('/:id/test', sendTestEvent);
+router.get('/:id/deliveries', listDeliveries);
+router.post('/:id/deliveries/:deliveryId/redeliver', redeliver);
+
+export default router;
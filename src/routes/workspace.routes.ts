@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { auth } from '../middleware/auth';
+import {
+  createWorkspace,
+  listMyWorkspaces,
+  getWorkspace,
+  renameWorkspace,
+  deleteWorkspace,
+  updateMemberRole,
+  removeMember,
+  createInvite,
+  listInvites,
+  revokeInvite,
+  acceptInvite
+} from '../controllers/workspace.controller';
+
+const router = Router();
+
+router.use(auth(true));
+
+/**
+ * POST   /api/workspaces                          { name }
+ * GET    /api/workspaces                          workspaces I'm a member of
+ * POST   /api/workspaces/invites/:token/accept    join via invite token
+ * GET    /api/workspaces/:id
+ * PATCH  /api/workspaces/:id                      { name }            (owner)
+ * DELETE /api/workspaces/:id                                          (owner)
+ * PATCH  /api/workspaces/:id/members/:userId      { role }            (owner)
+ * DELETE /api/workspaces/:id/members/:userId      remove / leave
+ * POST   /api/workspaces/:id/invites              { email, role }     (owner)
+ * GET    /api/workspaces/:id/invites              pending invites     (owner)
+ * DELETE /api/workspaces/:id/invites/:inviteId                        (owner)
+ *
+ * Member roles: owner (manage), editor (create/edit/delete links), viewer (list + analytics)
+ */
+router.post('/', createWorkspace);
+router.get('/', listMyWorkspaces);
+router.post('/invites/:token/accept', acceptInvite);
+router.get('/:id', getWorkspace);
+router.patch('/:id', renameWorkspace);
+router.delete('/:id', deleteWorkspace);
+router.patch('/:id/members/:userId', updateMemberRole);
+router.delete('/:id/members/:userId', removeMember);
+router.post('/:id/invites', createInvite);
+router.get('/:id/invites', listInvites);
+router.delete('/:id/invites/:inviteId', revokeInvite);
+
+export default router;
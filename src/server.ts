@@ -1,9 +1,15 @@
 import { env } from './config/env';
 import { connectDB } from './config/database';
 import app from './app';
+import { startWebhookWorker } from './services/webhook.service';
+import { startSafetyRescanner } from './services/safety.service';
+import { startEnrichmentWorker } from './services/enrichment.service';
 
 async function main() {
   await connectDB(env.MONGODB_URI);
+  startWebhookWorker();
+  startSafetyRescanner();
+  startEnrichmentWorker();
   app.listen(env.PORT, () => {
     console.log(`🚀 Server running on http://localhost:${env.PORT}`);
   });
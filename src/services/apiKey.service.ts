@@ -0,0 +1,69 @@
+import * as crypto from 'crypto';
+import { ApiKey, ApiKeyDoc } from '../models/ApiKey';
+import { User } from '../models/User';
+import type { JWTPayload } from '../utils/jwt';
+
+const KEY_PREFIX = 'sk_';
+const LAST_USED_WRITE_MS = 60 * 1000;
+
+export const hashApiKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+export function generateApiKey() {
+  const key = KEY_PREFIX + crypto.randomBytes(24).toString('base64url');
+  return { key, prefix: key.slice(0, KEY_PREFIX.length + 6), keyHash: hashApiKey(key) };
+}
+
+export type ApiKeyPrincipal = JWTPayload & { apiKeyId: string; scopes: string[] };
+
+// Resolves a raw key to the owning user (current role from the DB), or null
+export async function authenticateApiKey(raw: string): Promise<{ principal: ApiKeyPrincipal; key: ApiKeyDoc } | null> {
+  if (!raw.startsWith(KEY_PREFIX)) return null;
+  const key = await ApiKey.findOne({ keyHash: hashApiKey(raw) }).lean();
+  if (!key || key.revokedAt || (key.expiresAt && key.expiresAt < new Date())) return null;
+
+  const user = await User.findById(key.user).select('role tokenVersion suspendedAt').lean();
+  if (!user || user.suspendedAt) return null;
+
+  // throttle lastUsedAt writes
+  if (!key.lastUsedAt || Date.now() - new Date(key.lastUsedAt).getTime() > LAST_USED_WRITE_MS) {
+    ApiKey.updateOne({ _id: key._id }, { $set: { lastUsedAt: new Date() } })
+      .catch((err) => console.error('❌ API key lastUsedAt error:', err?.message));
+  }
+
+  return {
+    key,
+    principal: {
+      sub: String(user._id),
+      role: user.role,
+      tv: user.tokenVersion,
+      apiKeyId: String(key._id),
+      scopes: key.scopes
+    }
+  };
+}
+
+// ---------- per-key rate limit ----------
+// Fixed one-minute windows kept in memory (per instance).
+const windows = new Map<string, { start: number; count: number }>();
+
+export function consumeRateLimit(keyId: string, limitPerMinute: number) {
+  const now = Date.now();
+  let w = windows.get(keyId);
+  if (!w || now - w.start >= 60 * 1000) {
+    w = { start: now, count: 0 };
+    windows.set(keyId, w);
+  }
+  w.count++;
+  return {
+    allowed: w.count <= limitPerMinute,
+    limit: limitPerMinute,
+    remaining: Math.max(0, limitPerMinute - w.count),
+    resetSeconds: Math.ceil((w.start + 60 * 1000 - now) / 1000)
+  };
+}
+
+// drop stale windows now and then so the map doesn't grow forever
+setInterval(() => {
+  const cutoff = Date.now() - 60 * 1000;
+  for (const [k, w] of windows) if (w.start < cutoff) windows.delete(k);
+}, 5 * 60 * 1000).unref();
@@ -0,0 +1,36 @@
+import { Types } from 'mongoose';
+import { Role, User } from '../models/User';
+
+// Current role + tokenVersion per user, cached briefly so every authenticated
+// request doesn't hit the users collection. Changes made in this process call
+// forgetUserAuthState; other instances pick them up within CACHE_TTL_MS.
+
+const CACHE_TTL_MS = 15 * 1000;
+const MAX_ENTRIES = 10_000;
+
+export interface UserAuthState {
+  role: Role;
+  tokenVersion: number;
+  suspended: boolean;
+}
+
+const cache = new Map<string, { state: UserAuthState | null; at: number }>();
+
+export function forgetUserAuthState(userId: string | Types.ObjectId) {
+  cache.delete(String(userId));
+}
+
+// null = the user no longer exists
+export async function getUserAuthState(userId: string): Promise<UserAuthState | null> {
+  const hit = cache.get(userId);
+  if (hit && Date.now() - hit.at < CACHE_TTL_MS) return hit.state;
+
+  const user = Types.ObjectId.isValid(userId)
+    ? await User.findById(userId).select('role tokenVersion suspendedAt').lean()
+    : null;
+  const state = user ? { role: user.role, tokenVersion: user.tokenVersion, suspended: Boolean(user.suspendedAt) } : null;
+
+  if (cache.size >= MAX_ENTRIES) cache.delete(cache.keys().next().value!); // oldest first
+  cache.set(userId, { state, at: Date.now() });
+  return state;
+}
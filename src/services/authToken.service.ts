@@ -0,0 +1,46 @@
+import * as crypto from 'crypto';
+import { Types } from 'mongoose';
+import { AuthToken, AuthTokenPurpose } from '../models/AuthToken';
+
+const TTL_MS: Record<AuthTokenPurpose, number> = {
+  password_reset: 60 * 60 * 1000,               // 1 hour
+  email_verification: 48 * 60 * 60 * 1000       // 2 days
+};
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+const hashToken = (t: string) => crypto.createHash('sha256').update(t).digest('hex');
+
+// null while the previous token for the same purpose is younger than the cooldown
+export async function issueAuthToken(userId: Types.ObjectId | string, purpose: AuthTokenPurpose, email: string) {
+  const recent = await AuthToken.exists({
+    user: userId,
+    purpose,
+    usedAt: null,
+    createdAt: { $gt: new Date(Date.now() - RESEND_COOLDOWN_MS) }
+  });
+  if (recent) return null;
+
+  // only the newest token of a purpose works
+  await AuthToken.deleteMany({ user: userId, purpose, usedAt: null });
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  await AuthToken.create({
+    user: userId,
+    purpose,
+    tokenHash: hashToken(token),
+    email: email.toLowerCase(),
+    expiresAt: new Date(Date.now() + TTL_MS[purpose])
+  });
+  return token;
+}
+
+// Atomically marks the token used; null if unknown, expired or already used
+export async function consumeAuthToken(token: string, purpose: AuthTokenPurpose) {
+  if (!token) return null;
+  const now = new Date();
+  return AuthToken.findOneAndUpdate(
+    { tokenHash: hashToken(token), purpose, usedAt: null, expiresAt: { $gt: now } },
+    { $set: { usedAt: now } },
+    { new: true }
+  ).lean();
+}
@@ -0,0 +1,96 @@
+import { Request } from 'express';
+import * as dns from 'dns';
+import * as fs from 'fs';
+import { env } from '../config/env';
+import { Domain } from '../models/Domain';
+
+// ---------- DNS TXT verification ----------
+// Users prove ownership with a TXT record:
+//   _shorturl-verify.<hostname>  TXT  "shorturl-verification=<token>"
+
+export const VERIFY_PREFIX = '_shorturl-verify';
+export const verifyRecordName = (hostname: string) => `${VERIFY_PREFIX}.${hostname}`;
+export const verifyRecordValue = (token: string) => `shorturl-verification=${token}`;
+
+export interface TxtResolver {
+  resolveTxt(name: string): Promise<string[]>;
+}
+
+const systemResolver: TxtResolver = {
+  async resolveTxt(name) {
+    try {
+      const records = await dns.promises.resolveTxt(name);
+      return records.map((chunks) => chunks.join(''));
+    } catch (err: any) {
+      if (err?.code === 'ENOTFOUND' || err?.code === 'ENODATA') return [];
+      throw err;
+    }
+  }
+};
+
+// Local development: DNS_STUB_FILE is JSON { "<record name>": ["txt value", ...] }, re-read on every check
+const stubResolver: TxtResolver = {
+  async resolveTxt(name) {
+    if (!env.DNS_STUB_FILE) return [];
+    try {
+      const map = JSON.parse(fs.readFileSync(env.DNS_STUB_FILE, 'utf8')) as Record<string, string[] | string>;
+      const v = map[name];
+      return v === undefined ? [] : Array.isArray(v) ? v : [v];
+    } catch {
+      return [];
+    }
+  }
+};
+
+let resolver: TxtResolver = env.DNS_RESOLVER === 'stub' ? stubResolver : systemResolver;
+
+export function setTxtResolver(r: TxtResolver) {
+  resolver = r;
+}
+
+export async function checkDomainTxt(hostname: string, token: string) {
+  const values = await resolver.resolveTxt(verifyRecordName(hostname));
+  return values.some((v) => v.trim() === verifyRecordValue(token));
+}
+
+// ---------- host -> domain scoping ----------
+const HOSTNAME_RE = /^(?=.{1,253}$)(?!-)[a-z0-9-]{1,63}(?<!-)(\.(?!-)[a-z0-9-]{1,63}(?<!-))+$/;
+
+export const normalizeHostname = (raw: string) => raw.trim().toLowerCase().replace(/\.$/, '');
+export const isValidHostname = (h: string) => HOSTNAME_RE.test(h);
+
+const CACHE_TTL_MS = 60 * 1000;
+const hostCache = new Map<string, { verified: boolean; at: number }>();
+
+export function forgetHost(hostname: string) {
+  hostCache.delete(hostname);
+}
+
+async function isVerifiedCustomHost(hostname: string) {
+  const hit = hostCache.get(hostname);
+  if (hit && Date.now() - hit.at < CACHE_TTL_MS) return hit.verified;
+  const verified = Boolean(await Domain.exists({ hostname, verified: true }));
+  hostCache.set(hostname, { verified, at: Date.now() });
+  return verified;
+}
+
+// null = the default (API) host
+export async function resolveRequestDomain(req: Request): Promise<string | null> {
+  const host = req.hostname ? normalizeHostname(req.hostname) : '';
+  if (!host || !isValidHostname(host)) return null;
+  return (await isVerifiedCustomHost(host)) ? host : null;
+}
+
+// Public routes (redirect, info, QR...): the request Host decides the domain. Any verified
+// domain counts, personal or workspace-owned.
+export async function linkScope(req: Request): Promise<{ domain: string | null }> {
+  return { domain: await resolveRequestDomain(req) };
+}
+
+// Owner routes may pick another domain with ?domain= from the API host; the access
+// filter they combine this with keeps other users' links out of reach
+export async function ownerLinkScope(req: Request): Promise<{ domain: string | null }> {
+  const q = typeof req.query.domain === 'string' ? normalizeHostname(req.query.domain) : '';
+  if (q) return { domain: q };
+  return linkScope(req);
+}
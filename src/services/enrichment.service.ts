@@ -0,0 +1,125 @@
+import { Types } from 'mongoose';
+import { Link, LinkDoc } from '../models/Link';
+import { getMetadata, PageMetadata } from './metadata.service';
+
+// Fills link title/description/image/siteName from the destination page after creation.
+// Pending links are claimed atomically, so several instances can run the worker.
+
+const POLL_MS = 30 * 1000;
+const BATCH = 20;
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 60 * 1000;  // 1m, 2m
+const LOCK_MS = 60 * 1000;          // claimed links are due again if the worker dies
+
+const backoffMs = (attempts: number) => BASE_BACKOFF_MS * Math.pow(2, attempts - 1);
+
+// Applies page metadata; user-provided title/description are kept unless overwrite is set
+type EnrichedFields = Partial<Pick<LinkDoc, 'title' | 'description' | 'image' | 'siteName'>>;
+
+export function applyMetadata<T extends EnrichedFields>(link: T, meta: PageMetadata, overwrite = false) {
+  if (meta.title && (overwrite || !link.title)) link.title = meta.title.slice(0, 200);
+  if (meta.description && (overwrite || !link.description)) link.description = meta.description.slice(0, 500);
+  if (meta.image) link.image = meta.image;
+  if (meta.siteName) link.siteName = meta.siteName;
+  return link;
+}
+
+// Initial state for a new link: done already on a metadata cache hit, otherwise queued
+export const initialEnrichment = (cached: PageMetadata | null) =>
+  cached
+    ? { status: 'enriched' as const, attempts: 0, updatedAt: new Date(), nextAttemptAt: null }
+    : { status: 'pending' as const, attempts: 0, nextAttemptAt: new Date() };
+
+type EnrichTarget = Pick<LinkDoc, '_id' | 'originalUrl' | 'title' | 'description' | 'enrichment'>;
+
+// Compare-and-set in an update pipeline: the field only changes while it still holds the
+// value the worker read, so an owner's edit made during the fetch wins. $literal keeps
+// values starting with "$" from being read as field paths.
+const setIfUnchanged = (field: 'title' | 'description', seen: string | undefined, value: string | undefined) => ({
+  $cond: [{ $eq: [{ $ifNull: [`$${field}`, null] }, seen ?? null] }, { $literal: value }, `$${field}`]
+});
+
+async function enrich(link: EnrichTarget, opts: { forceRefresh?: boolean; overwrite?: boolean; retry?: boolean }) {
+  const attempts = (link.enrichment?.attempts ?? 0) + 1;
+  const set: Record<string, unknown> = {};
+  try {
+    const { metadata } = await getMetadata(link.originalUrl, { forceRefresh: opts.forceRefresh });
+    const next = applyMetadata<EnrichedFields>({ title: link.title, description: link.description }, metadata, opts.overwrite);
+    if (next.title !== link.title) set.title = setIfUnchanged('title', link.title, next.title);
+    if (next.description !== link.description) set.description = setIfUnchanged('description', link.description, next.description);
+    if (next.image) set.image = { $literal: next.image };
+    if (next.siteName) set.siteName = { $literal: next.siteName };
+    set.enrichment = { $literal: { status: 'enriched', attempts, updatedAt: new Date(), nextAttemptAt: null } };
+  } catch (err: any) {
+    const error = String(err?.message || 'Metadata fetch failed').slice(0, 300);
+    set.enrichment = {
+      $literal:
+        opts.retry !== false && attempts < MAX_ATTEMPTS
+          ? { status: 'pending', attempts, error, updatedAt: new Date(), nextAttemptAt: new Date(Date.now() + backoffMs(attempts)) }
+          : { status: 'failed', attempts, error, updatedAt: new Date(), nextAttemptAt: null }
+    };
+  }
+  // a destination changed meanwhile has been queued again; this result is for the old one
+  return Link.findOneAndUpdate({ _id: link._id, originalUrl: link.originalUrl }, [{ $set: set }], { new: true }).lean();
+}
+
+// Manual refresh: bypasses the metadata cache, no background retries
+export async function refreshEnrichment(linkId: string | Types.ObjectId, opts: { overwrite?: boolean } = {}) {
+  const link = await Link.findById(linkId).lean();
+  if (!link) return null;
+  return enrich({ ...link, enrichment: { status: 'pending', attempts: 0, nextAttemptAt: null } }, {
+    forceRefresh: true,
+    overwrite: opts.overwrite,
+    retry: false
+  });
+}
+
+// Returns how many links were processed (BATCH means there may be more due)
+export async function processPendingEnrichments() {
+  let i = 0;
+  for (; i < BATCH; i++) {
+    const now = new Date();
+    const claimed = await Link.findOneAndUpdate(
+      { 'enrichment.status': 'pending', 'enrichment.nextAttemptAt': { $lte: now } },
+      { $set: { 'enrichment.nextAttemptAt': new Date(now.getTime() + LOCK_MS) } },
+      { sort: { 'enrichment.nextAttemptAt': 1 }, new: true }
+    ).lean();
+    if (!claimed) break;
+    await enrich(claimed, {});
+  }
+  return i;
+}
+
+let busy = false;
+let again = false;
+
+async function drain() {
+  if (busy) {
+    again = true;
+    return;
+  }
+  busy = true;
+  try {
+    let full: boolean;
+    do {
+      again = false;
+      full = (await processPendingEnrichments()) === BATCH;
+    } while (again || full);
+  } catch (err: any) {
+    console.error('❌ Link enrichment error:', err?.message);
+  } finally {
+    busy = false;
+  }
+}
+
+// Called after creating pending links so they don't wait for the next poll
+export function queueEnrichment() {
+  setImmediate(() => void drain());
+}
+
+let started = false;
+export function startEnrichmentWorker() {
+  if (started) return;
+  started = true;
+  setInterval(() => void drain(), POLL_MS).unref();
+}
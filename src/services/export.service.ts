@@ -0,0 +1,147 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { ClickEvent } from '../models/ClickEvent';
+import type { LinkDoc } from '../models/Link';
+import { toCsvRow } from '../utils/csv';
+
+// Streams links (optionally with their click events) as CSV, JSON or NDJSON.
+// Documents come from a Mongo cursor and are written one at a time with backpressure,
+// so exports never hold the whole result set in memory.
+
+export const exportQuerySchema = z.object({
+  format: z.enum(['csv', 'json', 'ndjson']).default('csv'),
+  clicks: z.enum(['true', 'false']).default('false').transform((v) => v === 'true'),
+  clicksFrom: z.coerce.date().optional(),
+  clicksTo: z.coerce.date().optional()
+});
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8'
+};
+
+const LINK_COLUMNS = [
+  'id', 'shortCode', 'domain', 'originalUrl', 'title', 'description', 'tags', 'folder',
+  'isActive', 'clicks', 'createdAt', 'expiresAt', 'createdBy', 'workspace'
+] as const;
+const CLICK_COLUMNS = ['clickedAt', 'referrer', 'userAgent', 'country'] as const;
+
+type ExportLink = Pick<LinkDoc, '_id' | 'shortCode' | 'domain' | 'originalUrl' | 'title' | 'description' | 'tags' | 'folder' | 'isActive' | 'clicks' | 'createdAt' | 'expiresAt' | 'createdBy' | 'workspace'>;
+
+const linkRecord = (l: ExportLink) => ({
+  id: String(l._id),
+  shortCode: l.shortCode,
+  domain: l.domain ?? null,
+  originalUrl: l.originalUrl,
+  title: l.title ?? null,
+  description: l.description ?? null,
+  tags: l.tags ?? [],
+  folder: l.folder ?? null,
+  isActive: l.isActive,
+  clicks: l.clicks,
+  createdAt: l.createdAt,
+  expiresAt: l.expiresAt ?? null,
+  createdBy: l.createdBy ? String(l.createdBy) : null,
+  workspace: l.workspace ? String(l.workspace) : null
+});
+
+const clickRecord = (c: { clickedAt: Date; referrer?: string; userAgent?: string; country?: string }) => ({
+  clickedAt: c.clickedAt,
+  referrer: c.referrer ?? null,
+  userAgent: c.userAgent ?? null,
+  country: c.country ?? null
+});
+
+const linkCells = (l: ReturnType<typeof linkRecord>) =>
+  LINK_COLUMNS.map((c) => (c === 'tags' ? l.tags.join('|') : l[c]));
+
+function clickCursor(linkId: unknown, q: ExportQuery) {
+  const clickedAt: Record<string, Date> = {};
+  if (q.clicksFrom) clickedAt.$gte = q.clicksFrom;
+  if (q.clicksTo) clickedAt.$lte = q.clicksTo;
+  return ClickEvent.find({ link: linkId, ...(Object.keys(clickedAt).length ? { clickedAt } : {}) })
+    .select('clickedAt referrer userAgent country')
+    .sort({ clickedAt: 1 })
+    .lean()
+    .cursor();
+}
+
+export async function streamLinkExport(
+  res: Response,
+  links: AsyncIterable<ExportLink> & { close(): Promise<unknown> },
+  q: ExportQuery,
+  filename: string
+) {
+  let aborted = false;
+  res.on('close', () => {
+    if (!res.writableFinished) aborted = true;
+  });
+
+  const write = async (chunk: string) => {
+    if (!res.write(chunk)) await new Promise<void>((resolve) => res.once('drain', resolve).once('close', resolve));
+  };
+
+  res.status(200);
+  res.setHeader('Content-Type', CONTENT_TYPES[q.format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.${q.format}"`);
+  res.setHeader('Cache-Control', 'no-store');
+
+  try {
+    if (q.format === 'csv') {
+      // with clicks: one row per click, link columns repeated (links without clicks get one row)
+      await write('﻿' + toCsvRow(q.clicks ? [...LINK_COLUMNS, ...CLICK_COLUMNS] : [...LINK_COLUMNS]));
+    } else if (q.format === 'json') {
+      await write('[');
+    }
+
+    let first = true;
+    for await (const doc of links) {
+      if (aborted) break;
+      const link = linkRecord(doc);
+
+      if (q.format === 'csv') {
+        if (!q.clicks) {
+          await write(toCsvRow(linkCells(link)));
+          continue;
+        }
+        let any = false;
+        for await (const c of clickCursor(doc._id, q)) {
+          if (aborted) break;
+          any = true;
+          const click = clickRecord(c);
+          await write(toCsvRow([...linkCells(link), ...CLICK_COLUMNS.map((k) => click[k])]));
+        }
+        if (!any) await write(toCsvRow(linkCells(link)));
+        continue;
+      }
+
+      // JSON / NDJSON: clickEvents nested inside each link object, streamed element by element
+      const prefix = q.format === 'json' ? (first ? '\n' : ',\n') : '';
+      first = false;
+      const body = JSON.stringify(link);
+      if (!q.clicks) {
+        await write(prefix + body + (q.format === 'ndjson' ? '\n' : ''));
+        continue;
+      }
+      await write(prefix + body.slice(0, -1) + ',"clickEvents":[');
+      let sep = '';
+      for await (const c of clickCursor(doc._id, q)) {
+        if (aborted) break;
+        await write(sep + JSON.stringify(clickRecord(c)));
+        sep = ',';
+      }
+      await write(']}' + (q.format === 'ndjson' ? '\n' : ''));
+    }
+
+    if (q.format === 'json') await write('\n]\n');
+    res.end();
+  } catch (err: any) {
+    // headers are gone: all we can do is cut the response short
+    console.error('❌ Export error:', err?.message);
+    res.destroy(err);
+  } finally {
+    await links.close().catch(() => undefined);
+  }
+}
@@ -0,0 +1,86 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { env } from '../config/env';
+
+// Outgoing mail behind a small transport interface. Console and file transports
+// work without an SMTP server; production plugs a real one in with setMailTransport.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  async send(m: MailMessage & { from: string }) {
+    console.log(`📧 Mail to ${m.to}: ${m.subject}\n${m.text}\n`);
+  }
+}
+
+// One RFC 822-ish .eml file per message (opens in any mail client)
+export class FileMailTransport implements MailTransport {
+  constructor(private dir: string) {}
+
+  async send(m: MailMessage & { from: string }) {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = path.join(this.dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.eml`);
+    const headers = [
+      `From: ${m.from}`,
+      `To: ${m.to}`,
+      `Subject: ${m.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8'
+    ];
+    await fs.writeFile(file, `${headers.join('\r\n')}\r\n\r\n${m.text}\r\n`, 'utf8');
+  }
+}
+
+let transport: MailTransport | null = null;
+
+// Console/file output would put live reset links into production logs or disks, so
+// production only uses them when MAIL_TRANSPORT says so explicitly
+function defaultTransport(): MailTransport {
+  const kind = env.MAIL_TRANSPORT || (env.NODE_ENV === 'production' ? '' : 'console');
+  if (kind === 'console') return new ConsoleMailTransport();
+  if (kind === 'file') return new FileMailTransport(env.MAIL_DIR);
+  throw new Error(
+    env.MAIL_TRANSPORT
+      ? `Unknown MAIL_TRANSPORT "${env.MAIL_TRANSPORT}"`
+      : 'No mail transport configured: set MAIL_TRANSPORT or call setMailTransport()'
+  );
+}
+
+// header values come from user input (names, workspace names): no header injection
+const headerValue = (v: string) => v.replace(/[\r\n]+/g, ' ').trim();
+
+export function setMailTransport(t: MailTransport) {
+  transport = t;
+}
+
+export async function sendMail(message: MailMessage) {
+  transport ??= defaultTransport();
+  await transport.send({
+    ...message,
+    to: headerValue(message.to),
+    subject: headerValue(message.subject),
+    from: headerValue(env.MAIL_FROM)
+  });
+}
+
+// fire-and-forget variant for request handlers
+export function sendMailSafe(message: MailMessage) {
+  sendMail(message).catch((err) => console.error('❌ Mail error:', err?.message));
+}
+
+export const appUrl = (pathname: string, params: Record<string, string> = {}) => {
+  const url = new URL(pathname, env.APP_BASE_URL);
+  for (const [k, v] of Object.entries(params)) url.searchParams.set(k, v);
+  return url.toString();
+};
@@ -0,0 +1,182 @@
+import * as cheerio from 'cheerio';
+import { PageMeta, PageMetaDoc } from '../models/PageMeta';
+import { safeFetch } from '../utils/safeFetch';
+import { normalizeUrl, resolveUrl } from '../utils/url';
+
+// One metadata scraper for the whole app, cached in PageMeta by normalized URL.
+
+export type PageMetadata = Omit<PageMetaDoc, 'fetchedAt' | 'url'> & { url?: string; fetchedAt?: Date };
+
+const HTML_TYPES = ['text/html', 'application/xhtml+xml'];
+const OEMBED_TYPES = ['application/json', 'text/json', 'application/json+oembed'];
+const OEMBED_FIELDS = [
+  'type', 'version', 'title', 'author_name', 'author_url', 'provider_name', 'provider_url',
+  'thumbnail_url', 'thumbnail_width', 'thumbnail_height', 'html', 'width', 'height'
+];
+const MAX_JSONLD_BLOCKS = 5;
+const USER_AGENT = 'Mozilla/5.0 (compatible; LinkShortener/1.0; +metadata)';
+
+// ---------- charset ----------
+const charsetFromContentType = (ct?: string) => /charset\s*=\s*["']?([\w.:-]+)/i.exec(ct ?? '')?.[1];
+
+function sniffMetaCharset(buf: Buffer) {
+  const head = buf.subarray(0, 4096).toString('latin1');
+  return (
+    /<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i.exec(head)?.[1] ||
+    /<meta[^>]+http-equiv\s*=\s*["']?content-type["']?[^>]*content\s*=\s*["'][^"']*charset=([\w.:-]+)/i.exec(head)?.[1]
+  );
+}
+
+export function decodeHtml(buf: Buffer, contentTypeHeader?: string) {
+  // BOM > HTTP header > <meta> > utf-8
+  if (buf[0] === 0xef && buf[1] === 0xbb && buf[2] === 0xbf) return new TextDecoder('utf-8').decode(buf);
+  const candidates = [charsetFromContentType(contentTypeHeader), sniffMetaCharset(buf), 'utf-8'];
+  for (const c of candidates) {
+    if (!c) continue;
+    try {
+      return new TextDecoder(c.toLowerCase()).decode(buf);
+    } catch {
+      // unknown label: try the next one
+    }
+  }
+  return buf.toString('utf8');
+}
+
+// ---------- extraction ----------
+const clean = (s?: string) => {
+  const v = s?.replace(/\s+/g, ' ').trim();
+  return v ? v : undefined;
+};
+
+function extractJsonLd($: cheerio.CheerioAPI) {
+  const out: unknown[] = [];
+  $('script[type="application/ld+json"]').each((_i, el) => {
+    if (out.length >= MAX_JSONLD_BLOCKS) return;
+    try {
+      out.push(JSON.parse($(el).text()));
+    } catch {
+      // sites ship broken JSON-LD all the time
+    }
+  });
+  return out;
+}
+
+async function fetchOembed(endpoint: string) {
+  try {
+    const res = await safeFetch(endpoint, {
+      timeoutMs: 5000,
+      maxBytes: 256 * 1024,
+      contentTypes: OEMBED_TYPES,
+      headers: { 'User-Agent': USER_AGENT, Accept: 'application/json' }
+    });
+    if (res.status !== 200) return undefined;
+    const data = JSON.parse(res.data.toString('utf8'));
+    const picked: Record<string, unknown> = {};
+    for (const f of OEMBED_FIELDS) if (data?.[f] !== undefined) picked[f] = data[f];
+    return Object.keys(picked).length ? picked : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function parseHtmlMetadata(html: string, pageUrl: string): PageMetadata & { oembedEndpoint?: string } {
+  const $ = cheerio.load(html);
+  const meta = (sel: string) => clean($(sel).attr('content'));
+
+  const title =
+    clean($('title').first().text()) ||
+    meta('meta[property="og:title"]') ||
+    meta('meta[name="twitter:title"]');
+  const description =
+    meta('meta[name="description"]') ||
+    meta('meta[property="og:description"]') ||
+    meta('meta[name="twitter:description"]');
+  const image = resolveUrl(
+    meta('meta[property="og:image"]') || meta('meta[property="og:image:url"]') || meta('meta[name="twitter:image"]'),
+    pageUrl
+  );
+  const favicon =
+    resolveUrl($('link[rel="icon"]').attr('href'), pageUrl) ||
+    resolveUrl($('link[rel="shortcut icon"]').attr('href'), pageUrl) ||
+    resolveUrl($('link[rel="apple-touch-icon"]').attr('href'), pageUrl) ||
+    resolveUrl('/favicon.ico', pageUrl);
+  const canonicalUrl = resolveUrl($('link[rel="canonical"]').attr('href'), pageUrl) || meta('meta[property="og:url"]');
+  const language =
+    clean($('html').attr('lang')) ||
+    meta('meta[http-equiv="content-language"]') ||
+    meta('meta[property="og:locale"]');
+
+  return {
+    title,
+    description,
+    image,
+    keywords: meta('meta[name="keywords"]'),
+    siteName: meta('meta[property="og:site_name"]') || new URL(pageUrl).hostname,
+    favicon,
+    canonicalUrl,
+    language,
+    jsonLd: extractJsonLd($),
+    oembedEndpoint: resolveUrl($('link[type="application/json+oembed"]').attr('href'), pageUrl)
+  };
+}
+
+async function scrape(url: string): Promise<PageMetadata> {
+  const res = await safeFetch(url, {
+    timeoutMs: 8000,
+    contentTypes: HTML_TYPES,
+    headers: {
+      'User-Agent': USER_AGENT,
+      Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5',
+      'Accept-Language': 'en-US,en;q=0.5'
+    }
+  });
+  if (res.status >= 400) throw new Error(`Destination responded with HTTP ${res.status}`);
+
+  const html = decodeHtml(res.data, res.headers['content-type']);
+  const { oembedEndpoint, ...meta } = parseHtmlMetadata(html, res.url);
+  const oembed = oembedEndpoint ? await fetchOembed(oembedEndpoint) : undefined;
+  return { ...meta, oembed, finalUrl: res.url };
+}
+
+// drop empty values so cached docs stay small
+const compact = <T extends Record<string, any>>(o: T) =>
+  Object.fromEntries(
+    Object.entries(o).filter(([, v]) => v !== undefined && v !== '' && !(Array.isArray(v) && v.length === 0))
+  ) as T;
+
+const fromDoc = (doc: any): PageMetadata => {
+  const { _id, __v, createdAt, updatedAt, ...metadata } = doc;
+  return metadata;
+};
+
+// Cached lookup. Throws when the page can't be fetched (callers decide on fallbacks).
+export async function getMetadata(rawUrl: string, opts: { forceRefresh?: boolean } = {}): Promise<{ metadata: PageMetadata; cached: boolean }> {
+  const url = normalizeUrl(rawUrl);
+  if (!opts.forceRefresh) {
+    const hit = await PageMeta.findOne({ url }).lean();
+    if (hit) return { metadata: fromDoc(hit), cached: true };
+  }
+
+  const scraped = compact(await scrape(url));
+  const doc = await PageMeta.findOneAndReplace(
+    { url },
+    { url, ...scraped, fetchedAt: new Date() },
+    { upsert: true, new: true }
+  ).lean();
+  return { metadata: fromDoc(doc), cached: false };
+}
+
+// Cache-only read: never touches the network
+export async function peekMetadata(rawUrl: string): Promise<PageMetadata | null> {
+  const hit = await PageMeta.findOne({ url: normalizeUrl(rawUrl) }).lean();
+  return hit ? fromDoc(hit) : null;
+}
+
+// Never throws: {} when the page can't be fetched
+export async function getMetadataSafe(rawUrl: string, opts: { forceRefresh?: boolean } = {}): Promise<PageMetadata> {
+  try {
+    return (await getMetadata(rawUrl, opts)).metadata;
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,153 @@
+import { Link } from '../models/Link';
+import { LinkPolicy, PolicyLimits } from '../models/LinkPolicy';
+import type { Role } from '../models/User';
+import { httpError } from '../utils/httpError';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// Built-in defaults (the "user" row matches the original hardcoded behaviour)
+export const DEFAULT_POLICIES: Record<Role, PolicyLimits> = {
+  user: {
+    createLimit: 5,
+    createWindowMinutes: 60,
+    bulkLimit: 100,
+    bulkWindowMinutes: 24 * 60,
+    maxExpiryDays: 5,
+    defaultExpiryDays: 5,
+    allowNeverExpire: false,
+    maxActiveLinks: null
+  },
+  manager: {
+    createLimit: 50,
+    createWindowMinutes: 60,
+    bulkLimit: 1000,
+    bulkWindowMinutes: 24 * 60,
+    maxExpiryDays: 365,
+    defaultExpiryDays: 30,
+    allowNeverExpire: true,
+    maxActiveLinks: null
+  },
+  admin: {
+    createLimit: null,
+    createWindowMinutes: 60,
+    bulkLimit: null,
+    bulkWindowMinutes: 24 * 60,
+    maxExpiryDays: null,
+    defaultExpiryDays: 30,
+    allowNeverExpire: true,
+    maxActiveLinks: null
+  }
+};
+
+export const POLICY_FIELDS = Object.keys(DEFAULT_POLICIES.user) as Array<keyof PolicyLimits>;
+
+export const roleKey = (role: Role) => `role:${role}`;
+export const userKey = (userId: string) => `user:${userId}`;
+
+// copy only the fields that are set on the stored document (null is a real value: "unlimited")
+function applyOverrides(base: PolicyLimits, doc: Partial<PolicyLimits> | null): PolicyLimits {
+  if (!doc) return base;
+  const merged: any = { ...base };
+  for (const f of POLICY_FIELDS) {
+    if (doc[f] !== undefined) merged[f] = doc[f];
+  }
+  return merged;
+}
+
+export async function getRolePolicy(role: Role): Promise<PolicyLimits> {
+  const doc = await LinkPolicy.findOne({ key: roleKey(role) }).lean();
+  return applyOverrides(DEFAULT_POLICIES[role], doc);
+}
+
+// defaults <- role policy <- per-user override
+export async function getEffectivePolicy(userId: string, role: Role): Promise<PolicyLimits> {
+  const [roleDoc, userDoc] = await Promise.all([
+    LinkPolicy.findOne({ key: roleKey(role) }).lean(),
+    LinkPolicy.findOne({ key: userKey(userId) }).lean()
+  ]);
+  return applyOverrides(applyOverrides(DEFAULT_POLICIES[role], roleDoc), userDoc);
+}
+
+const formatWait = (ms: number) => {
+  const totalSec = Math.max(1, Math.ceil(ms / 1000));
+  const m = Math.floor(totalSec / 60);
+  const s = totalSec % 60;
+  return m > 0 ? `${m}m ${s}s` : `${s}s`;
+};
+
+// How long until the oldest link inside the window drops out of it
+async function msUntilNextSlot(filter: Record<string, unknown>, used: number, limit: number, windowMs: number) {
+  const oldestCounted = await Link.findOne(filter)
+    .sort({ createdAt: 1 })
+    .skip(Math.max(0, used - limit))
+    .select('createdAt')
+    .lean();
+  if (!oldestCounted) return 0;
+  return new Date(oldestCounted.createdAt).getTime() + windowMs - Date.now();
+}
+
+// Single-link creation quota (bulk imports have their own bucket)
+export async function enforceCreateQuota(userId: string, policy: PolicyLimits) {
+  if (policy.createLimit === null) return;
+  const windowMs = policy.createWindowMinutes * MINUTE_MS;
+  const filter = {
+    createdBy: userId,
+    batchId: { $exists: false },
+    createdAt: { $gt: new Date(Date.now() - windowMs) }
+  };
+  const used = await Link.countDocuments(filter);
+  if (used >= policy.createLimit) {
+    const waitMs = await msUntilNextSlot(filter, used, policy.createLimit, windowMs);
+    const error = httpError(
+      429,
+      `Quota exceeded: you can create only ${policy.createLimit} links per ${policy.createWindowMinutes} minutes. Try again in ${formatWait(waitMs)}.`
+    );
+    error.retryAfterSeconds = Math.max(1, Math.ceil(waitMs / 1000));
+    throw error;
+  }
+}
+
+// Rows left in the rolling bulk window (Infinity = unlimited)
+export async function remainingBulkQuota(userId: string, policy: PolicyLimits) {
+  if (policy.bulkLimit === null) return Infinity;
+  const since = new Date(Date.now() - policy.bulkWindowMinutes * MINUTE_MS);
+  const used = await Link.countDocuments({
+    createdBy: userId,
+    batchId: { $exists: true },
+    createdAt: { $gt: since }
+  });
+  return Math.max(0, policy.bulkLimit - used);
+}
+
+export async function enforceMaxActiveLinks(userId: string, policy: PolicyLimits, adding = 1) {
+  if (policy.maxActiveLinks === null) return;
+  const now = new Date();
+  const active = await Link.countDocuments({
+    createdBy: userId,
+    isActive: true,
+    $or: [{ expiresAt: null }, { expiresAt: { $gte: now } }]
+  });
+  if (active + adding > policy.maxActiveLinks) {
+    throw httpError(403, `Active link limit reached: max ${policy.maxActiveLinks} active links`);
+  }
+}
+
+// undefined = use the default horizon, null = never expires (if allowed)
+export function resolveExpiryDate(expiryDate: string | null | undefined, policy: PolicyLimits): Date | null {
+  if (expiryDate === null) {
+    if (!policy.allowNeverExpire) throw httpError(400, 'Never-expiring links are not allowed for your account');
+    return null;
+  }
+  const max = policy.maxExpiryDays === null ? null : new Date(Date.now() + policy.maxExpiryDays * DAY_MS);
+  const defaultDays = policy.maxExpiryDays === null
+    ? policy.defaultExpiryDays
+    : Math.min(policy.defaultExpiryDays, policy.maxExpiryDays);
+  const fallback = new Date(Date.now() + defaultDays * DAY_MS);
+
+  if (!expiryDate) return fallback;
+  const d = new Date(expiryDate);
+  if (Number.isNaN(+d)) return fallback;  // fallback to default if bad date
+  if (d < new Date()) return fallback;    // not in the past
+  return max && d > max ? max : d;        // cap at the policy horizon
+}
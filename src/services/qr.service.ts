@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import * as QRCode from 'qrcode';
+import { PNG } from 'pngjs';
+import { env } from '../config/env';
+
+export type QrFormat = 'png' | 'svg';
+export type QrEcc = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrOptions {
+  format: QrFormat;
+  size: number;     // px (width = height)
+  margin: number;   // quiet zone, in modules
+  ecc: QrEcc;
+  fg: string;       // #rrggbb or #rrggbbaa
+  bg: string;
+  logo: boolean;    // center the configured QR_LOGO_PATH (PNG)
+}
+
+const LOGO_SCALE = 0.22; // logo width relative to the QR image (H level tolerates ~30% damage)
+
+// ---------- logo (loaded once from disk) ----------
+let logoCache: { png: PNG; base64: string; etag: string } | null | undefined;
+
+function loadLogo() {
+  if (logoCache !== undefined) return logoCache;
+  logoCache = null;
+  if (!env.QR_LOGO_PATH) return logoCache;
+  try {
+    const buf = fs.readFileSync(env.QR_LOGO_PATH);
+    logoCache = {
+      png: PNG.sync.read(buf),
+      base64: buf.toString('base64'),
+      etag: crypto.createHash('sha1').update(buf).digest('hex').slice(0, 12)
+    };
+  } catch (e) {
+    console.error('❌ QR logo load error:', (e as any)?.message);
+  }
+  return logoCache;
+}
+
+export const hasLogo = () => Boolean(loadLogo());
+
+const hexToRgba = (hex: string) => {
+  const h = hex.replace('#', '');
+  return [0, 2, 4, 6].map((i) => (i < h.length ? parseInt(h.slice(i, i + 2), 16) : 255));
+};
+
+// nearest-neighbour scale + alpha blend, on a padded background square
+function drawLogoOnPng(qr: PNG, logo: PNG, bg: string) {
+  const target = Math.round(qr.width * LOGO_SCALE);
+  const pad = Math.round(target * 0.1);
+  const box = target + pad * 2;
+  const x0 = Math.round((qr.width - box) / 2);
+  const y0 = Math.round((qr.height - box) / 2);
+  const [br, bgG, bb] = hexToRgba(bg);
+
+  for (let y = 0; y < box; y++) {
+    for (let x = 0; x < box; x++) {
+      const idx = ((y0 + y) * qr.width + (x0 + x)) * 4;
+      let r = br, g = bgG, b = bb;
+      const lx = x - pad;
+      const ly = y - pad;
+      if (lx >= 0 && ly >= 0 && lx < target && ly < target) {
+        const sx = Math.floor((lx * logo.width) / target);
+        const sy = Math.floor((ly * logo.height) / target);
+        const sIdx = (sy * logo.width + sx) * 4;
+        const a = logo.data[sIdx + 3] / 255;
+        r = Math.round(logo.data[sIdx] * a + r * (1 - a));
+        g = Math.round(logo.data[sIdx + 1] * a + g * (1 - a));
+        b = Math.round(logo.data[sIdx + 2] * a + b * (1 - a));
+      }
+      qr.data[idx] = r;
+      qr.data[idx + 1] = g;
+      qr.data[idx + 2] = b;
+      qr.data[idx + 3] = 255;
+    }
+  }
+}
+
+function addLogoToSvg(svg: string, size: number, base64: string, bg: string) {
+  const target = Math.round(size * LOGO_SCALE);
+  const pad = Math.round(target * 0.1);
+  const box = target + pad * 2;
+  const xy = (size - box) / 2;
+  // qrcode renders in module units via viewBox; wrap the logo in a pixel-sized group
+  const overlay =
+    `<svg x="0" y="0" width="100%" height="100%" viewBox="0 0 ${size} ${size}">` +
+    `<rect x="${xy}" y="${xy}" width="${box}" height="${box}" fill="${bg}"/>` +
+    `<image x="${xy + pad}" y="${xy + pad}" width="${target}" height="${target}" href="data:image/png;base64,${base64}"/>` +
+    `</svg>`;
+  return svg.replace(/<\/svg>\s*$/, `${overlay}</svg>`);
+}
+
+export async function renderQr(text: string, opts: QrOptions): Promise<Buffer | string> {
+  const logo = opts.logo ? loadLogo() : null;
+  // a covered center needs the highest error correction
+  const errorCorrectionLevel = logo ? 'H' : opts.ecc;
+  const common = {
+    errorCorrectionLevel,
+    margin: opts.margin,
+    width: opts.size,
+    color: { dark: opts.fg, light: opts.bg }
+  };
+
+  if (opts.format === 'svg') {
+    const svg = await QRCode.toString(text, { ...common, type: 'svg' });
+    return logo ? addLogoToSvg(svg, opts.size, logo.base64, opts.bg) : svg;
+  }
+
+  const buf = await QRCode.toBuffer(text, { ...common, type: 'png' });
+  if (!logo) return buf;
+  const png = PNG.sync.read(buf);
+  drawLogoOnPng(png, logo.png, opts.bg);
+  return PNG.sync.write(png);
+}
+
+// Stable validator for caching: same text + options + logo file => same ETag
+export function qrEtag(text: string, opts: QrOptions) {
+  const logoTag = opts.logo ? loadLogo()?.etag ?? 'none' : 'none';
+  const h = crypto.createHash('sha1').update(JSON.stringify({ text, ...opts, logoTag })).digest('hex');
+  return `"qr-${h.slice(0, 27)}"`;
+}
@@ -0,0 +1,124 @@
+import { Request } from 'express';
+import type { LinkDoc, RoutingRule } from '../models/Link';
+import { getClientIp } from '../utils/client';
+import { lookupCountry } from '../utils/geoip';
+import { parseUserAgent, ParsedUserAgent } from '../utils/userAgent';
+
+// Per-link routing: the first rule whose conditions all match picks the destination.
+// Context values are computed lazily so rules that don't need GeoIP never hit it.
+
+interface RoutingContext {
+  country(): string | undefined;
+  agent(): ParsedUserAgent;
+  languages(): string[];
+  referrerHost(): string | undefined;
+  now: Date;
+}
+
+// "fr-CA,fr;q=0.9,en;q=0.5" -> ['fr-ca', 'fr', 'en'] (by q, q=0 dropped)
+export function parseAcceptLanguage(header: string | undefined): string[] {
+  if (!header) return [];
+  return header
+    .split(',')
+    .map((part, i) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map((p) => /^\s*q=([\d.]+)/.exec(p)?.[1]).find(Boolean);
+      return { tag: tag.trim().toLowerCase(), q: q === undefined ? 1 : Number(q), i };
+    })
+    .filter((l) => l.tag && l.tag !== '*' && l.q > 0)
+    .sort((a, b) => b.q - a.q || a.i - b.i)
+    .map((l) => l.tag);
+}
+
+const once = <T>(fn: () => T) => {
+  let done = false;
+  let value: T;
+  return () => {
+    if (!done) {
+      value = fn();
+      done = true;
+    }
+    return value;
+  };
+};
+
+function contextFor(req: Request): RoutingContext {
+  return {
+    country: once(() => lookupCountry(getClientIp(req))),
+    agent: once(() => parseUserAgent(req.get('user-agent'))),
+    languages: once(() => parseAcceptLanguage(req.get('accept-language'))),
+    referrerHost: once(() => {
+      try {
+        return new URL(req.get('referer') || req.get('referrer') || '').hostname.toLowerCase();
+      } catch {
+        return undefined;
+      }
+    }),
+    now: new Date()
+  };
+}
+
+// weekday (0 = Sunday) and minutes since midnight in the rule's timezone
+function localTime(now: Date, timeZone = 'UTC') {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday'));
+  return { day, minutes: Number(get('hour')) * 60 + Number(get('minute')) };
+}
+
+const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+function inTimeWindow(window: NonNullable<RoutingRule['match']['timeWindow']>, now: Date) {
+  const { day, minutes } = localTime(now, window.timezone);
+  if (window.days?.length && !window.days.includes(day)) return false;
+  if (!window.start || !window.end) return true;
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  // overnight windows (22:00-06:00) wrap around midnight
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+const hostMatches = (host: string, domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+export function ruleMatches(rule: RoutingRule, ctx: RoutingContext) {
+  const m = rule.match;
+  if (m.countries?.length) {
+    const country = ctx.country();
+    if (!country || !m.countries.includes(country)) return false;
+  }
+  if (m.devices?.length && !m.devices.includes(ctx.agent().device)) return false;
+  if (m.os?.length && !m.os.includes(ctx.agent().os)) return false;
+  if (m.browsers?.length && !m.browsers.includes(ctx.agent().browser)) return false;
+  if (m.languages?.length) {
+    // "fr" matches fr, fr-CA...; "fr-ca" only fr-CA
+    const wanted = m.languages;
+    const langs = ctx.languages();
+    if (!langs.some((l) => wanted.some((w) => l === w || l.startsWith(`${w}-`)))) return false;
+  }
+  if (m.referrerDomains?.length) {
+    const host = ctx.referrerHost();
+    if (!host || !m.referrerDomains.some((d) => hostMatches(host, d))) return false;
+  }
+  if (m.timeWindow && !inTimeWindow(m.timeWindow, ctx.now)) return false;
+  return true;
+}
+
+// Destination for this request; falls back to originalUrl
+export function resolveDestination(link: Pick<LinkDoc, 'originalUrl' | 'routingRules'>, req: Request) {
+  const rules = link.routingRules ?? [];
+  if (rules.length === 0) return { destination: link.originalUrl, rule: null as number | null };
+  const ctx = contextFor(req);
+  const index = rules.findIndex((r) => ruleMatches(r, ctx));
+  return index === -1
+    ? { destination: link.originalUrl, rule: null }
+    : { destination: rules[index].destination, rule: index };
+}
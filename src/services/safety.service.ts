@@ -0,0 +1,266 @@
+import * as fs from 'fs';
+import { env } from '../config/env';
+import { Link } from '../models/Link';
+import type { LinkDoc } from '../models/Link';
+import { SafetyRule, SafetyRuleDoc } from '../models/SafetyRule';
+import { httpError } from '../utils/httpError';
+import { safeFetch, SafeFetchError } from '../utils/safeFetch';
+import { emitEvent, serializeLink } from './webhook.service';
+
+// Destination safety: admin allow/block rules, known-shortener detection
+// (including redirect chains), and pluggable threat scanners.
+
+export interface SafetyVerdict {
+  ok: boolean;
+  reason?: string;
+  source?: string;             // "blocklist", "shortener", "scanner:<name>", ...
+}
+
+export interface UrlScanner {
+  name: string;
+  scan(url: string, hostname: string): Promise<SafetyVerdict | null>; // null = no opinion
+}
+
+const SAFE: SafetyVerdict = { ok: true };
+
+// Other public shorteners: pointing at them hides the real destination
+export const KNOWN_SHORTENERS = new Set([
+  'bit.ly', 'bitly.com', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'v.gd', 'buff.ly',
+  'rebrand.ly', 'cutt.ly', 'shorturl.at', 'tiny.cc', 'rb.gy', 'bl.ink', 's.id', 'shorte.st',
+  'adf.ly', 'lnkd.in', 'qr.ae', 'soo.gd', 't.ly', 'tr.im', 'x.co', 'clck.ru', 'u.to', 'short.io'
+]);
+
+const hostOf = (url: string) => {
+  try { return new URL(url).hostname.toLowerCase().replace(/\.$/, ''); } catch { return ''; }
+};
+
+// "example.com" matches example.com and *.example.com
+export const hostMatches = (host: string, domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+// ---------- rules (cached briefly) ----------
+type CompiledRule = SafetyRuleDoc & { re?: RegExp };
+let rulesCache: { rules: CompiledRule[]; at: number } | null = null;
+const RULES_TTL_MS = 30 * 1000;
+
+export function invalidateSafetyRules() {
+  rulesCache = null;
+}
+
+async function loadRules(): Promise<CompiledRule[]> {
+  if (rulesCache && Date.now() - rulesCache.at < RULES_TTL_MS) return rulesCache.rules;
+  const docs = await SafetyRule.find().lean();
+  const rules: CompiledRule[] = [];
+  for (const d of docs) {
+    if (d.kind === 'regex') {
+      try { rules.push({ ...d, re: new RegExp(d.pattern, 'i') }); } catch { /* validated on insert */ }
+    } else {
+      rules.push({ ...d, pattern: d.pattern.toLowerCase() });
+    }
+  }
+  rulesCache = { rules, at: Date.now() };
+  return rules;
+}
+
+const ruleMatches = (r: CompiledRule, url: string, host: string) =>
+  r.kind === 'domain' ? hostMatches(host, r.pattern) : Boolean(r.re?.test(url));
+
+// ---------- scanners ----------
+// Local threat list: THREAT_LIST_PATH, one domain or full URL per line, "#" comments. Reloaded when the file changes.
+export class FileThreatListScanner implements UrlScanner {
+  name = 'threat-list';
+  private domains = new Set<string>();
+  private urls = new Set<string>();
+  private mtimeMs = 0;
+
+  constructor(private readonly path: string) {}
+
+  private reload() {
+    try {
+      const stat = fs.statSync(this.path);
+      if (stat.mtimeMs === this.mtimeMs) return;
+      const domains = new Set<string>();
+      const urls = new Set<string>();
+      for (const raw of fs.readFileSync(this.path, 'utf8').split(/\r?\n/)) {
+        const line = raw.replace(/#.*/, '').trim().toLowerCase();
+        if (!line) continue;
+        if (/^https?:\/\//.test(line)) urls.add(line.replace(/\/+$/, ''));
+        else domains.add(line.replace(/\.$/, ''));
+      }
+      this.domains = domains;
+      this.urls = urls;
+      this.mtimeMs = stat.mtimeMs;
+    } catch (e) {
+      if (this.mtimeMs !== -1) console.error('❌ Threat list load error:', (e as any)?.message);
+      this.mtimeMs = -1;
+    }
+  }
+
+  async scan(url: string, host: string): Promise<SafetyVerdict | null> {
+    this.reload();
+    if (this.urls.has(url.toLowerCase().replace(/\/+$/, ''))) {
+      return { ok: false, reason: 'URL is on the threat list', source: `scanner:${this.name}` };
+    }
+    for (const d of this.domains) {
+      if (hostMatches(host, d)) return { ok: false, reason: `Domain ${d} is on the threat list`, source: `scanner:${this.name}` };
+    }
+    return null;
+  }
+}
+
+const scanners: UrlScanner[] = [];
+if (env.THREAT_LIST_PATH) scanners.push(new FileThreatListScanner(env.THREAT_LIST_PATH));
+
+export function registerScanner(scanner: UrlScanner) {
+  scanners.push(scanner);
+}
+
+// ---------- redirect chains ----------
+// refusals that mean "this hop points somewhere we never connect to"
+const DISALLOWED_TARGET = new Set(['SCHEME_NOT_ALLOWED', 'PORT_NOT_ALLOWED', 'CREDENTIALS_NOT_ALLOWED', 'ADDRESS_NOT_ALLOWED']);
+
+// Every hop after the first (HEAD requests through the SSRF-safe fetcher). A chain that
+// breaks off still returns the hops seen so far; `disallowed` = a redirect was refused.
+async function redirectHops(url: string): Promise<{ hops: string[]; disallowed: boolean }> {
+  try {
+    const res = await safeFetch(url, {
+      method: 'HEAD',
+      timeoutMs: 3000,
+      maxRedirects: 5,
+      headers: { 'User-Agent': 'Mozilla/5.0 (compatible; LinkShortener-Safety/1.0)' }
+    });
+    return { hops: res.redirects, disallowed: false };
+  } catch (err) {
+    if (!(err instanceof SafeFetchError)) throw err;
+    return { hops: err.redirects, disallowed: err.redirects.length > 0 && DISALLOWED_TARGET.has(err.code) };
+  }
+}
+
+// ---------- checks ----------
+async function checkSingle(url: string, rules: CompiledRule[]): Promise<SafetyVerdict> {
+  const host = hostOf(url);
+  if (!host) return { ok: false, reason: 'Invalid URL', source: 'parser' };
+
+  const block = rules.find((r) => r.list === 'block' && ruleMatches(r, url, host));
+  if (block) return { ok: false, reason: block.reason || `Blocked by rule "${block.pattern}"`, source: 'blocklist' };
+
+  if ([...KNOWN_SHORTENERS].some((d) => hostMatches(host, d))) {
+    return { ok: false, reason: `Links to other URL shorteners (${host}) are not allowed`, source: 'shortener' };
+  }
+
+  for (const s of scanners) {
+    const verdict = await s.scan(url, host);
+    if (verdict && !verdict.ok) return verdict;
+  }
+  return SAFE;
+}
+
+export async function checkUrl(url: string, opts: { followRedirects?: boolean } = {}): Promise<SafetyVerdict> {
+  const rules = await loadRules();
+  const host = hostOf(url);
+
+  // allowlist wins over everything else
+  if (host && rules.some((r) => r.list === 'allow' && ruleMatches(r, url, host))) return SAFE;
+
+  const verdict = await checkSingle(url, rules);
+  if (!verdict.ok) return verdict;
+
+  // an unreachable destination is not a verdict by itself, but the hops before it still count
+  if (opts.followRedirects ?? env.SAFETY_FOLLOW_REDIRECTS) {
+    const { hops, disallowed } = await redirectHops(url);
+    for (const hop of hops) {
+      const v = await checkSingle(hop, rules);
+      if (!v.ok) return { ...v, reason: `Redirects to a blocked destination: ${v.reason}` };
+    }
+    if (disallowed) {
+      return { ok: false, reason: 'Redirects to a private or disallowed address', source: 'redirect' };
+    }
+  }
+  return SAFE;
+}
+
+// create/edit guard
+export async function assertUrlSafe(url: string, opts: { followRedirects?: boolean } = {}) {
+  const verdict = await checkUrl(url, opts);
+  if (!verdict.ok) throw httpError(400, `Destination not allowed: ${verdict.reason}`);
+}
+
+// Every URL a link can send visitors to: the default, routing rule targets and A/B variants
+export const linkDestinations = (link: Pick<LinkDoc, 'originalUrl' | 'routingRules' | 'variants'>) => [
+  ...new Set([
+    link.originalUrl,
+    ...(link.routingRules ?? []).map((r) => r.destination),
+    ...(link.variants ?? []).map((v) => v.destination)
+  ])
+];
+
+// The first destination that fails decides; the reason names it unless it is the default
+export async function checkLinkDestinations(link: Pick<LinkDoc, 'originalUrl' | 'routingRules' | 'variants'>) {
+  for (const url of linkDestinations(link)) {
+    const verdict = await checkUrl(url);
+    if (!verdict.ok) return url === link.originalUrl ? verdict : { ...verdict, reason: `${url}: ${verdict.reason}` };
+  }
+  return SAFE;
+}
+
+// ---------- periodic rescans ----------
+export async function rescanLinks(opts: { limit?: number } = {}) {
+  const cutoff = new Date(Date.now() - env.SAFETY_RESCAN_INTERVAL_MIN * 60 * 1000);
+  const cursor = Link.find({
+    isActive: true,
+    $or: [{ 'safety.checkedAt': { $exists: false } }, { 'safety.checkedAt': { $lt: cutoff } }]
+  })
+    .sort({ 'safety.checkedAt': 1 })
+    .limit(opts.limit ?? 500)
+    .cursor();
+
+  let scanned = 0;
+  let flagged = 0;
+  for await (const link of cursor) {
+    scanned++;
+    const verdict = await checkLinkDestinations(link);
+    const now = new Date();
+    if (verdict.ok) {
+      await Link.updateOne({ _id: link._id }, { $set: { safety: { status: 'ok', checkedAt: now } } });
+      continue;
+    }
+    flagged++;
+    const updated = await Link.findOneAndUpdate(
+      { _id: link._id },
+      {
+        $set: {
+          isActive: false,
+          deactivatedReason: verdict.reason,
+          safety: { status: 'flagged', reason: verdict.reason, source: verdict.source, checkedAt: now, flaggedAt: now }
+        }
+      },
+      { new: true }
+    ).lean();
+    if (updated) {
+      await emitEvent(updated.createdBy, 'link.deactivated', {
+        link: serializeLink(updated),
+        deactivatedBy: 'safety-scan',
+        reason: verdict.reason
+      });
+    }
+  }
+  return { scanned, flagged };
+}
+
+let started = false;
+export function startSafetyRescanner() {
+  if (started || env.SAFETY_RESCAN_INTERVAL_MIN <= 0) return;
+  started = true;
+  let busy = false;
+  setInterval(async () => {
+    if (busy) return;
+    busy = true;
+    try {
+      const { scanned, flagged } = await rescanLinks();
+      if (flagged > 0) console.log(`🛡️ Safety rescan: ${scanned} checked, ${flagged} deactivated`);
+    } catch (err: any) {
+      console.error('❌ Safety rescan error:', err?.message);
+    } finally {
+      busy = false;
+    }
+  }, 10 * 60 * 1000).unref();
+}
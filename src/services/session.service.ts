@@ -0,0 +1,134 @@
+import { randomUUID } from 'crypto';
+import { Request } from 'express';
+import { Types } from 'mongoose';
+import { env } from '../config/env';
+import { Session, SessionRevokeReason } from '../models/Session';
+import { User, UserDocument } from '../models/User';
+import { getClientIp } from '../utils/client';
+import { httpError } from '../utils/httpError';
+import { signAccessToken, signRefreshToken, verifyRefreshToken } from '../utils/jwt';
+import { forgetUserAuthState } from './authState.service';
+
+// Refresh sessions: one document per login, rotated on every /api/auth/refresh.
+
+const ttlMs = () => env.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000;
+// two tabs refreshing at once, or a retry after the response got lost, present the
+// token that was just rotated away; that's not reuse for this long
+const ROTATION_GRACE_MS = 30 * 1000;
+
+const clientInfo = (req: Request) => ({
+  userAgent: (req.get('user-agent') || '').slice(0, 512) || undefined,
+  ip: getClientIp(req)
+});
+
+function issueTokens(user: Pick<UserDocument, '_id' | 'role' | 'tokenVersion'>, sid: string, jti: string) {
+  const payload = { sub: String(user._id), role: user.role, tv: user.tokenVersion, sid };
+  return {
+    accessToken: signAccessToken(payload),
+    refreshToken: signRefreshToken({ ...payload, jti })
+  };
+}
+
+export async function startSession(user: Pick<UserDocument, '_id' | 'role' | 'tokenVersion'>, req: Request) {
+  const jti = randomUUID();
+  const session = await Session.create({
+    user: user._id,
+    jti,
+    ...clientInfo(req),
+    lastUsedAt: new Date(),
+    expiresAt: new Date(Date.now() + ttlMs())
+  });
+  return issueTokens(user, String(session._id), jti);
+}
+
+const invalid = () => httpError(401, 'Invalid refresh token');
+
+// Swaps a refresh token for a new pair. A token that was already rotated away (and is
+// past the grace window) revokes its whole session: either the client or an attacker holds a copy.
+export async function rotateSession(token: string, req: Request) {
+  let payload;
+  try {
+    payload = verifyRefreshToken(token);
+  } catch {
+    throw invalid();
+  }
+  if (!payload.sid || !payload.jti || !Types.ObjectId.isValid(payload.sid)) throw invalid();
+
+  const user = await User.findById(payload.sub);
+  if (!user || user.tokenVersion !== payload.tv || user.suspendedAt) throw invalid();
+
+  const now = new Date();
+  const jti = randomUUID();
+  const rotated = await Session.findOneAndUpdate(
+    { _id: payload.sid, user: user._id, jti: payload.jti, revokedAt: null, expiresAt: { $gt: now } },
+    {
+      $set: {
+        jti,
+        prevJti: payload.jti,
+        rotatedAt: now,
+        ...clientInfo(req),
+        lastUsedAt: now,
+        expiresAt: new Date(now.getTime() + ttlMs())
+      }
+    },
+    { new: true }
+  );
+  if (!rotated) {
+    // within the grace window the previous token gets the current one (no second rotation)
+    const current = await Session.findOne({
+      _id: payload.sid,
+      user: user._id,
+      prevJti: payload.jti,
+      rotatedAt: { $gt: new Date(now.getTime() - ROTATION_GRACE_MS) },
+      revokedAt: null,
+      expiresAt: { $gt: now }
+    }).lean();
+    if (current) return issueTokens(user, String(current._id), current.jti);
+
+    const reused = await Session.findOneAndUpdate(
+      { _id: payload.sid, user: user._id, revokedAt: null, jti: { $ne: payload.jti } },
+      { $set: { revokedAt: now, revokedReason: 'reuse' } }
+    );
+    if (reused) console.warn(`⚠️ Refresh token reuse detected: session ${payload.sid} revoked`);
+    throw invalid();
+  }
+  return issueTokens(user, String(rotated._id), jti);
+}
+
+// Logout: best effort, an invalid token just means there is nothing to end
+export async function endSession(token: string | undefined) {
+  if (!token) return;
+  try {
+    const { sid, sub } = verifyRefreshToken(token);
+    if (sid && Types.ObjectId.isValid(sid)) await revokeSession(sub, sid, 'logout');
+  } catch {
+    // expired or forged
+  }
+}
+
+export async function revokeSession(userId: string, sessionId: string, reason: SessionRevokeReason = 'revoked') {
+  if (!Types.ObjectId.isValid(sessionId)) return false;
+  const res = await Session.updateOne(
+    { _id: sessionId, user: userId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return res.modifiedCount > 0;
+}
+
+// Ends every session and invalidates outstanding tokens (tokenVersion bump)
+export async function revokeAllSessions(userId: string, reason: SessionRevokeReason = 'logout-all') {
+  await User.updateOne({ _id: userId }, { $inc: { tokenVersion: 1 } });
+  forgetUserAuthState(userId);
+  const res = await Session.updateMany(
+    { user: userId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return res.modifiedCount;
+}
+
+export async function listActiveSessions(userId: string) {
+  return Session.find({ user: userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+    .select('userAgent ip createdAt lastUsedAt expiresAt')
+    .sort({ lastUsedAt: -1 })
+    .lean();
+}
@@ -0,0 +1,124 @@
+import * as crypto from 'crypto';
+import Sqids from 'sqids';
+import { env } from '../config/env';
+import { Link } from '../models/Link';
+import { nextSequence } from '../models/Counter';
+import { httpError } from '../utils/httpError';
+
+// Short code generation.
+// Uniqueness is guaranteed by the unique index on Link.shortCode: callers insert
+// with a candidate code and we retry on duplicate-key errors (no check-then-insert).
+
+export type ShortCodeStrategy = 'random' | 'sequence' | 'words';
+
+interface Generator {
+  keyspace(length: number): number;
+  generate(length: number): Promise<string>;
+}
+
+const BASE62 = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const MAX_LENGTH = 16;
+
+// ---------- strategies ----------
+const randomGenerator: Generator = {
+  keyspace: (length) => Math.pow(BASE62.length, length),
+  async generate(length) {
+    let code = '';
+    for (let i = 0; i < length; i++) code += BASE62[crypto.randomInt(BASE62.length)];
+    return code;
+  }
+};
+
+// deterministic shuffle so sequence codes aren't guessable without the salt
+const saltedAlphabet = (salt: string) =>
+  BASE62.split('')
+    .map((ch) => ({ ch, k: crypto.createHash('sha256').update(salt + ch).digest('hex') }))
+    .sort((a, b) => a.k.localeCompare(b.k))
+    .map((x) => x.ch)
+    .join('');
+
+const sqidsByLength = new Map<number, Sqids>();
+const sequenceGenerator: Generator = {
+  keyspace: (length) => Math.pow(BASE62.length, length),
+  async generate(length) {
+    let sqids = sqidsByLength.get(length);
+    if (!sqids) {
+      sqids = new Sqids({ alphabet: saltedAlphabet(env.SHORTCODE_SALT), minLength: length });
+      sqidsByLength.set(length, sqids);
+    }
+    return sqids.encode([await nextSequence('shortCode')]);
+  }
+};
+
+const ADJECTIVES = [
+  'brave', 'calm', 'clever', 'cosy', 'crisp', 'eager', 'fancy', 'fresh', 'gentle', 'glad',
+  'golden', 'happy', 'jolly', 'kind', 'lively', 'lucky', 'mellow', 'merry', 'neat', 'noble',
+  'proud', 'quick', 'quiet', 'rapid', 'shiny', 'silent', 'smart', 'snowy', 'sunny', 'swift',
+  'tidy', 'vivid', 'warm', 'wise', 'witty', 'young', 'bold', 'bright', 'cool', 'keen'
+];
+const NOUNS = [
+  'apple', 'badger', 'beacon', 'breeze', 'canyon', 'cedar', 'comet', 'coral', 'delta', 'ember',
+  'falcon', 'forest', 'garden', 'harbor', 'island', 'jungle', 'lagoon', 'lantern', 'maple', 'meadow',
+  'nebula', 'ocean', 'orchid', 'otter', 'panda', 'pebble', 'pepper', 'planet', 'prairie', 'quartz',
+  'river', 'rocket', 'summit', 'tiger', 'tulip', 'valley', 'violet', 'walrus', 'willow', 'zebra'
+];
+
+// "sunny-otter-42"; `length` controls the number of trailing digits (min 2)
+const wordDigits = (length: number) => Math.max(2, length - 4);
+const wordsGenerator: Generator = {
+  keyspace: (length) => ADJECTIVES.length * NOUNS.length * Math.pow(10, wordDigits(length)),
+  async generate(length) {
+    const digits = wordDigits(length);
+    const n = String(crypto.randomInt(Math.pow(10, digits))).padStart(digits, '0');
+    return `${ADJECTIVES[crypto.randomInt(ADJECTIVES.length)]}-${NOUNS[crypto.randomInt(NOUNS.length)]}-${n}`;
+  }
+};
+
+const GENERATORS: Record<ShortCodeStrategy, Generator> = {
+  random: randomGenerator,
+  sequence: sequenceGenerator,
+  words: wordsGenerator
+};
+
+export function getStrategy(): ShortCodeStrategy {
+  const s = env.SHORTCODE_STRATEGY as ShortCodeStrategy;
+  return s in GENERATORS ? s : 'random';
+}
+
+// ---------- length management ----------
+let cachedCount = { value: 0, at: 0 };
+async function approxLinkCount() {
+  if (Date.now() - cachedCount.at > 60 * 1000) {
+    cachedCount = { value: await Link.estimatedDocumentCount(), at: Date.now() };
+  }
+  return cachedCount.value;
+}
+
+// smallest length >= SHORTCODE_LENGTH whose keyspace stays under SHORTCODE_MAX_FILL
+async function currentLength(gen: Generator) {
+  const total = await approxLinkCount();
+  let length = Math.max(3, env.SHORTCODE_LENGTH);
+  while (length < MAX_LENGTH && total / gen.keyspace(length) > env.SHORTCODE_MAX_FILL) length++;
+  return length;
+}
+
+export const isDuplicateShortCode = (err: any) =>
+  err?.code === 11000 && Boolean(err?.keyPattern?.shortCode ?? /shortCode/.test(String(err?.message)));
+
+// Generates a code and hands it to `insert`; retries (growing the length) on collisions.
+export async function insertWithUniqueShortCode<T>(insert: (shortCode: string) => Promise<T>): Promise<T> {
+  const gen = GENERATORS[getStrategy()];
+  let length = await currentLength(gen);
+
+  for (let attempt = 1; attempt <= env.SHORTCODE_MAX_ATTEMPTS; attempt++) {
+    const code = await gen.generate(length);
+    try {
+      return await insert(code);
+    } catch (err) {
+      if (!isDuplicateShortCode(err)) throw err;
+      // repeated collisions mean this length is crowded: go one longer
+      if (attempt % 2 === 0 && length < MAX_LENGTH) length++;
+    }
+  }
+  throw httpError(503, 'Could not generate a unique short code, please try again');
+}
@@ -0,0 +1,63 @@
+import { randomInt } from 'crypto';
+import { Request, Response } from 'express';
+import { Link, LinkDoc, LinkVariant } from '../models/Link';
+
+// Weighted A/B rotation with sticky assignment per visitor (one cookie per link).
+
+const COOKIE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const variantCookieName = (link: Pick<LinkDoc, '_id'>) => `ab_${String(link._id)}`;
+
+// Weighted random pick among variants with weight > 0
+export function pickWeighted(variants: LinkVariant[]) {
+  const active = variants.filter((v) => v.weight > 0);
+  const total = active.reduce((sum, v) => sum + v.weight, 0);
+  if (total === 0) return undefined;
+  let n = randomInt(total);
+  for (const v of active) {
+    if (n < v.weight) return v;
+    n -= v.weight;
+  }
+  return active[active.length - 1];
+}
+
+// Returning visitors keep their variant while it is still running
+export function assignVariant(link: Pick<LinkDoc, '_id' | 'variants'>, req: Request, res: Response) {
+  const variants = link.variants ?? [];
+  if (variants.length === 0) return undefined;
+
+  const name = variantCookieName(link);
+  const current = variants.find((v) => v.key === req.cookies?.[name] && v.weight > 0);
+  if (current) return current;
+
+  const picked = pickWeighted(variants);
+  if (picked) {
+    res.cookie(name, picked.key, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: req.secure,
+      maxAge: COOKIE_MAX_AGE_MS,
+      path: '/'
+    });
+  }
+  return picked;
+}
+
+export async function countVariantClick(linkId: LinkDoc['_id'], key: string) {
+  await Link.updateOne({ _id: linkId, 'variants.key': key }, { $inc: { 'variants.$.clicks': 1 } });
+}
+
+// "a", "b", ... "z", "aa", "ab" ...: the first keys not taken yet
+export function nextVariantKeys(taken: Set<string>, count: number) {
+  const keys: string[] = [];
+  for (let i = 0; keys.length < count; i++) {
+    let key = '';
+    let n = i;
+    do {
+      key = String.fromCharCode(97 + (n % 26)) + key;
+      n = Math.floor(n / 26) - 1;
+    } while (n >= 0);
+    if (!taken.has(key)) keys.push(key);
+  }
+  return keys;
+}
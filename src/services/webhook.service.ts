@@ -0,0 +1,215 @@
+import * as crypto from 'crypto';
+import { Types } from 'mongoose';
+import { env } from '../config/env';
+import { safeFetch } from '../utils/safeFetch';
+import { Link } from '../models/Link';
+import type { LinkDoc } from '../models/Link';
+import { Webhook, WebhookDoc, WebhookEvent } from '../models/Webhook';
+import { WebhookDelivery, WebhookDeliveryDoc } from '../models/WebhookDelivery';
+
+// Outbound webhooks.
+// Events are written to WebhookDelivery (the persistent queue) and sent by a
+// polling worker with exponential backoff. Receivers verify:
+//   X-Webhook-Signature: sha256=HMAC_SHA256(secret, `${X-Webhook-Timestamp}.${rawBody}`)
+// Receiver URLs are user-supplied, so requests go through safeFetch (no private
+// addresses, no redirects) and only the response status is kept, never the body.
+
+const POLL_MS = 5 * 1000;
+const EXPIRY_SWEEP_MS = 60 * 1000;
+const BATCH = 20;
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 30 * 1000;     // 30s, 1m, 2m, 4m ... capped
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+const LOCK_MS = 60 * 1000;
+const TIMEOUT_MS = 10 * 1000;
+
+export const generateWebhookSecret = () => 'whsec_' + crypto.randomBytes(24).toString('base64url');
+
+export function signPayload(secret: string, timestamp: string, body: string) {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export const serializeLink = (link: Partial<LinkDoc>) => ({
+  id: link._id ? String(link._id) : undefined,
+  shortCode: link.shortCode,
+  domain: link.domain ?? null,
+  originalUrl: link.originalUrl,
+  title: link.title,
+  description: link.description,
+  isActive: link.isActive,
+  expiresAt: link.expiresAt ?? null,
+  clicks: link.clicks,
+  createdAt: link.createdAt,
+  workspace: link.workspace ? String(link.workspace) : null
+});
+
+const subscribes = (hook: Pick<WebhookDoc, 'events'>, event: WebhookEvent) =>
+  event === 'webhook.test' || hook.events.includes('*') || hook.events.includes(event);
+
+function buildPayload(event: WebhookEvent, data: Record<string, unknown>) {
+  return { id: new Types.ObjectId().toHexString(), event, createdAt: new Date().toISOString(), data };
+}
+
+// Queue an event for every matching subscription of the user
+export async function emitEvent(userId: string | Types.ObjectId | null | undefined, event: WebhookEvent, data: Record<string, unknown>) {
+  if (!userId) return;
+  const hooks = await Webhook.find({ user: userId, active: true }).select('events').lean();
+  const targets = hooks.filter((h) => subscribes(h, event));
+  if (targets.length === 0) return;
+
+  const payload = buildPayload(event, data);
+  await WebhookDelivery.insertMany(
+    targets.map((h) => ({ webhook: h._id, user: userId, event, payload, nextAttemptAt: new Date() }))
+  );
+}
+
+// fire-and-forget variant for request handlers
+export function emitEventSafe(userId: string | Types.ObjectId | null | undefined, event: WebhookEvent, data: Record<string, unknown>) {
+  emitEvent(userId, event, data).catch((err) => console.error(`❌ Webhook emit (${event}) error:`, err?.message));
+}
+
+export async function queueTestEvent(hook: Pick<WebhookDoc, '_id' | 'user'>) {
+  const payload = buildPayload('webhook.test', { message: 'This is a test event', webhookId: String(hook._id) });
+  return WebhookDelivery.create({ webhook: hook._id, user: hook.user, event: 'webhook.test', payload });
+}
+
+const backoffMs = (attempts: number) => {
+  const base = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * Math.pow(2, attempts - 1));
+  return base + Math.floor(Math.random() * base * 0.1); // +10% jitter
+};
+
+async function deliver(delivery: WebhookDeliveryDoc) {
+  const hook = await Webhook.findById(delivery.webhook).select('+secret').lean();
+  if (!hook || !hook.active) {
+    await WebhookDelivery.updateOne(
+      { _id: delivery._id },
+      { $set: { status: 'failed', lastError: 'Webhook removed or disabled' }, $unset: { lockedUntil: 1 } }
+    );
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const started = Date.now();
+  const attempts = delivery.attempts + 1;
+  try {
+    const response = await safeFetch(hook.url, {
+      method: 'POST',
+      body,
+      timeoutMs: TIMEOUT_MS,
+      maxRedirects: 0,
+      readBody: false,
+      allowLoopback: env.WEBHOOK_ALLOW_LOCALHOST && env.NODE_ENV !== 'production',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'LinkShortener-Webhooks/1.0',
+        'X-Webhook-Id': String(delivery._id),
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': signPayload(hook.secret, timestamp, body)
+      }
+    });
+    const ok = response.status >= 200 && response.status < 300;
+    await WebhookDelivery.updateOne(
+      { _id: delivery._id },
+      {
+        $set: {
+          attempts,
+          responseStatus: response.status,
+          durationMs: Date.now() - started,
+          ...(ok
+            ? { status: 'success', deliveredAt: new Date() }
+            : retryState(attempts, `Receiver responded with HTTP ${response.status}`))
+        },
+        $unset: { lockedUntil: 1 }
+      }
+    );
+  } catch (err: any) {
+    await WebhookDelivery.updateOne(
+      { _id: delivery._id },
+      {
+        $set: { attempts, durationMs: Date.now() - started, ...retryState(attempts, err?.message || 'Request failed') },
+        $unset: { lockedUntil: 1 }
+      }
+    );
+  }
+}
+
+function retryState(attempts: number, lastError: string) {
+  if (attempts >= MAX_ATTEMPTS) return { status: 'failed', lastError };
+  return { status: 'pending', lastError, nextAttemptAt: new Date(Date.now() + backoffMs(attempts)) };
+}
+
+// Claim due deliveries one by one (atomic, so several instances can run the worker)
+export async function processDueDeliveries() {
+  for (let i = 0; i < BATCH; i++) {
+    const now = new Date();
+    const claimed = await WebhookDelivery.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'pending', nextAttemptAt: { $lte: now } },
+          { status: 'delivering', lockedUntil: { $lt: now } } // worker died mid-delivery
+        ]
+      },
+      { $set: { status: 'delivering', lockedUntil: new Date(now.getTime() + LOCK_MS) } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    ).lean();
+    if (!claimed) return;
+    await deliver(claimed);
+  }
+}
+
+// Links created before link.expired existed have no expiredNotifiedAt at all; the ones
+// already expired are marked as notified so the first sweep doesn't fire them all at once
+export async function backfillExpiredNotified() {
+  const res = await Link.updateMany(
+    { expiresAt: { $lt: new Date() }, expiredNotifiedAt: { $exists: false } },
+    { $set: { expiredNotifiedAt: new Date() } }
+  );
+  return res.modifiedCount;
+}
+
+// link.expired is time-driven, so a sweeper emits it once per link
+export async function sweepExpiredLinks() {
+  const now = new Date();
+  for (let i = 0; i < 100; i++) {
+    const link = await Link.findOneAndUpdate(
+      { expiresAt: { $lt: now }, expiredNotifiedAt: null },
+      { $set: { expiredNotifiedAt: now } },
+      { new: true }
+    ).lean();
+    if (!link) return;
+    await emitEvent(link.createdBy, 'link.expired', { link: serializeLink(link) });
+  }
+}
+
+let started = false;
+export function startWebhookWorker() {
+  if (started) return;
+  started = true;
+  let busy = false;
+  setInterval(async () => {
+    if (busy) return;
+    busy = true;
+    try {
+      await processDueDeliveries();
+    } catch (err: any) {
+      console.error('❌ Webhook worker error:', err?.message);
+    } finally {
+      busy = false;
+    }
+  }, POLL_MS).unref();
+
+  // no sweep until the backfill has succeeded, otherwise old expired links would all fire
+  let backfilled = false;
+  const sweep = async () => {
+    if (!backfilled) {
+      await backfillExpiredNotified();
+      backfilled = true;
+    }
+    await sweepExpiredLinks();
+  };
+  setInterval(() => {
+    sweep().catch((err) => console.error('❌ Expiry sweep error:', err?.message));
+  }, EXPIRY_SWEEP_MS).unref();
+}
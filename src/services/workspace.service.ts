@@ -0,0 +1,33 @@
+import mongoose from 'mongoose';
+import { Workspace, WorkspaceDoc, WorkspaceRole } from '../models/Workspace';
+
+const RANK: Record<WorkspaceRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+export const hasWorkspaceRole = (role: WorkspaceRole | undefined, min: WorkspaceRole) =>
+  Boolean(role && RANK[role] >= RANK[min]);
+
+export function memberRole(ws: Pick<WorkspaceDoc, 'members'>, userId: string): WorkspaceRole | undefined {
+  return ws.members.find((m) => String(m.user) === String(userId))?.role;
+}
+
+// ids of workspaces where the user has at least `min`
+export async function workspaceIdsFor(userId: string, min: WorkspaceRole = 'viewer') {
+  const list = await Workspace.find({ 'members.user': userId }, { members: 1 }).lean();
+  return list.filter((ws) => hasWorkspaceRole(memberRole(ws, userId), min)).map((ws) => ws._id);
+}
+
+// Links the user may act on: their personal links, plus links of workspaces where they hold
+// `min` or better. Workspace links follow the workspace role only, so creators who were
+// removed or demoted lose access to the links they made there.
+export async function linkAccessFilter(userId: string, min: WorkspaceRole = 'viewer') {
+  const own = { createdBy: new mongoose.Types.ObjectId(userId), workspace: null };
+  const ids = await workspaceIdsFor(userId, min);
+  if (ids.length === 0) return own;
+  return { $or: [own, { workspace: { $in: ids } }] };
+}
+
+export async function getWorkspaceRole(workspaceId: string, userId: string): Promise<WorkspaceRole | undefined> {
+  if (!mongoose.isValidObjectId(workspaceId)) return undefined;
+  const ws = await Workspace.findById(workspaceId, { members: 1 }).lean();
+  return ws ? memberRole(ws, userId) : undefined;
+}
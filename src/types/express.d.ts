@@ -2,6 +2,13 @@ import 'express';
 
 declare module 'express-serve-static-core' {
   interface Request {
-    user?: { sub: string; role: 'admin'|'manager'|'user'; tv: number };
+    user?: {
+      sub: string;
+      role: 'admin'|'manager'|'user';
+      tv: number;
+      sid?: string;        // refresh session the access token was issued for
+      apiKeyId?: string;   // set when authenticated with an API key
+      scopes?: string[];
+    };
   }
 }
@@ -27,7 +27,20 @@ export interface CreateLinkRequest {
   title?: string;
   description?: string;
   password?: string;     // <-- NEW (optional)
-  expiryDate?: string;   // <-- NEW (ISO date string, optional; max 5 days ahead)
+  expiryDate?: string | null; // <-- NEW (ISO date string, optional; capped by the caller's policy, null = never expires)
+  tags?: string[];
+  folder?: string;
+}
+
+export interface UpdateLinkRequest {
+  originalUrl?: string;
+  title?: string | null;        // null clears it
+  description?: string | null;  // null clears it
+  password?: string | null;     // null removes the password
+  expiryDate?: string | null;   // null = never expires (if the policy allows)
+  isActive?: boolean;
+  tags?: string[];              // replaces the whole list
+  folder?: string | null;       // null moves the link out of its folder
 }
 
 export interface CreateLinkResponse {
@@ -35,13 +48,46 @@ export interface CreateLinkResponse {
   originalUrl: string;
   shortCode: string;
   clicks: number;
+  title?: string;
+  description?: string;
+  metadataStatus?: 'pending' | 'enriched' | 'failed'; // pending: title/description still being fetched
   message?: string;
 }
 
+export type AnalyticsInterval = 'hour' | 'day';
+
+export interface ClickBucket {
+  bucket: string; // ISO hour ("2025-10-25T14:00:00.000Z") or day ("2025-10-25")
+  clicks: number;
+}
+
+export interface TopEntry {
+  value: string;
+  count: number;
+}
+
+export interface VariantStats {
+  key: string;
+  label?: string;
+  destination: string;
+  weight: number;
+  clicks: number;          // all time
+  clicksInRange: number;   // within range (from click events)
+}
+
 export interface LinkAnalytics {
   originalUrl: string;
   shortCode: string;
   clicks: number;
   createdAt: Date;
   isActive: boolean;
+  // only filled by GET /api/links/:shortCode/analytics (from click events)
+  range?: { from: Date; to: Date; interval: AnalyticsInterval };
+  clicksInRange?: number;
+  uniqueVisitors?: number;
+  timeseries?: ClickBucket[];
+  topReferrers?: TopEntry[];
+  topUserAgents?: TopEntry[];
+  topCountries?: TopEntry[];
+  variants?: VariantStats[]; // A/B split links only
 }
@@ -0,0 +1,17 @@
+import { Request } from 'express';
+import * as crypto from 'crypto';
+import { env } from '../config/env';
+
+// Client IP as Express resolves it: X-Forwarded-For is only honoured for the proxy hops
+// `trust proxy` is set to (TRUST_PROXY_HOPS), so clients can't supply their own address
+export function getClientIp(req: Request): string | undefined {
+  const ip = req.ip || req.socket?.remoteAddress;
+  // Azure appends the port: "1.2.3.4:56789"
+  return ip ? ip.replace(/^(\d+\.\d+\.\d+\.\d+):\d+$/, '$1') : undefined;
+}
+
+// We never store raw IPs, only a salted hash (still lets us count unique visitors)
+export function hashIp(ip?: string): string | undefined {
+  if (!ip) return undefined;
+  return crypto.createHmac('sha256', env.IP_HASH_SALT).update(ip).digest('hex');
+}
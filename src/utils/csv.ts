@@ -0,0 +1,51 @@
+// Tiny RFC 4180-ish CSV helpers (quoted fields, escaped quotes, CRLF/LF).
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const src = text.replace(/^﻿/, ''); // strip BOM (Excel exports)
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+      continue;
+    }
+    if (ch === '"') inQuotes = true;
+    else if (ch === ',') { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(f => f.trim() !== '')) rows.push(row);
+      row = [];
+    } else field += ch;
+  }
+  row.push(field);
+  if (row.some(f => f.trim() !== '')) rows.push(row);
+  return rows;
+}
+
+// First row is the header; returns one object per data row keyed by lower-cased header
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.map(h => h.trim().toLowerCase());
+  return rows.map((r) => {
+    const rec: Record<string, string> = {};
+    keys.forEach((k, i) => { if (k) rec[k] = (r[i] ?? '').trim(); });
+    return rec;
+  });
+}
+
+// One CSV line (CRLF). Cells that a spreadsheet would run as a formula get a leading quote.
+export function toCsvRow(values: unknown[]): string {
+  return values.map((v) => {
+    let s = v === null || v === undefined ? '' : v instanceof Date ? v.toISOString() : String(v);
+    if (/^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  }).join(',') + '\r\n';
+}
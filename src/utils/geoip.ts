@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import { env } from '../config/env';
+
+// Minimal offline GeoIP lookup.
+// GEOIP_DB_PATH points to a CSV file with lines: start_ip,end_ip,country_code (IPv4 only),
+// e.g. the free "IP to Country Lite" exports. No file = no country.
+
+type Range = { start: number; end: number; country: string };
+
+let ranges: Range[] | null = null;
+
+const ipv4ToInt = (ip: string): number | null => {
+  const m = /^(?:::ffff:)?(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/i.exec(ip.trim());
+  if (!m) return null;
+  const parts = m.slice(1).map(Number);
+  if (parts.some(p => p > 255)) return null;
+  return ((parts[0] << 24) >>> 0) + (parts[1] << 16) + (parts[2] << 8) + parts[3];
+};
+
+function loadRanges(): Range[] {
+  if (ranges) return ranges;
+  ranges = [];
+  if (!env.GEOIP_DB_PATH) return ranges;
+  try {
+    const raw = fs.readFileSync(env.GEOIP_DB_PATH, 'utf8');
+    for (const line of raw.split(/\r?\n/)) {
+      const [a, b, c] = line.split(',').map(s => s.trim().replace(/^"|"$/g, ''));
+      if (!a || !b || !c) continue;
+      const start = ipv4ToInt(a);
+      const end = ipv4ToInt(b);
+      if (start === null || end === null) continue;
+      ranges.push({ start, end, country: c.toUpperCase() });
+    }
+    ranges.sort((x, y) => x.start - y.start);
+  } catch (e) {
+    console.error('❌ GeoIP database load error:', (e as any)?.message);
+  }
+  return ranges;
+}
+
+export function lookupCountry(ip?: string): string | undefined {
+  if (!ip) return undefined;
+  const n = ipv4ToInt(ip);
+  if (n === null) return undefined;
+
+  const list = loadRanges();
+  let lo = 0;
+  let hi = list.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const r = list[mid];
+    if (n < r.start) hi = mid - 1;
+    else if (n > r.end) lo = mid + 1;
+    else return r.country === '-' || r.country === 'ZZ' ? undefined : r.country;
+  }
+  return undefined;
+}
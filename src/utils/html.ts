@@ -0,0 +1,31 @@
+import { Response } from 'express';
+import * as crypto from 'crypto';
+
+export const escapeHtml = (s: unknown) =>
+  String(s ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Sends a standalone HTML page with its own CSP (helmet's default blocks inline scripts
+// and remote images, which the interstitial pages need). Returns the script nonce.
+export function sendHtml(res: Response, status: number, render: (nonce: string) => string) {
+  const nonce = crypto.randomBytes(16).toString('base64');
+  res.set(
+    'Content-Security-Policy',
+    [
+      "default-src 'none'",
+      "img-src https: data:",
+      "style-src 'unsafe-inline'",
+      `script-src 'nonce-${nonce}'`,
+      // no form-action: the password form's 303 goes to an external destination, and
+      // browsers apply form-action to redirects after submit
+      "base-uri 'none'",
+      "frame-ancestors 'none'"
+    ].join('; ')
+  );
+  res.set('Cache-Control', 'no-store');
+  res.status(status).type('html').send(render(nonce));
+}
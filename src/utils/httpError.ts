@@ -0,0 +1,6 @@
+// Errors with a `status` are turned into JSON responses by middleware/errorHandler
+export function httpError(status: number, message: string) {
+  const error: any = new Error(message);
+  error.status = status;
+  return error;
+}
@@ -1,13 +1,16 @@
 import * as jwt from 'jsonwebtoken'; // fix for no default export
 import { env } from '../config/env';
 
-export type JWTPayload = { sub: string; role: 'admin' | 'manager' | 'user'; tv: number };
+export type JWTPayload = { sub: string; role: 'admin' | 'manager' | 'user'; tv: number; sid?: string };
+
+// refresh tokens always belong to a persisted session; jti identifies the current rotation
+export type RefreshPayload = JWTPayload & { sid: string; jti: string };
 
 export function signAccessToken(payload: JWTPayload) {
   return jwt.sign(payload, env.JWT_ACCESS_SECRET, { expiresIn: `${env.ACCESS_TOKEN_TTL_MIN}m` });
 }
 
-export function signRefreshToken(payload: JWTPayload) {
+export function signRefreshToken(payload: RefreshPayload) {
   return jwt.sign(payload, env.JWT_REFRESH_SECRET, { expiresIn: `${env.REFRESH_TOKEN_TTL_DAYS}d` });
 }
 
@@ -15,6 +18,6 @@ export function verifyAccessToken(token: string): JWTPayload {
   return jwt.verify(token, env.JWT_ACCESS_SECRET) as JWTPayload;
 }
 
-export function verifyRefreshToken(token: string): JWTPayload {
-  return jwt.verify(token, env.JWT_REFRESH_SECRET) as JWTPayload;
+export function verifyRefreshToken(token: string): RefreshPayload {
+  return jwt.verify(token, env.JWT_REFRESH_SECRET) as RefreshPayload;
 }
@@ -0,0 +1,169 @@
+import { Model, Types } from 'mongoose';
+import { httpError } from './httpError';
+
+// Shared list pagination.
+// Keyset cursors encode the last item's sort values + _id, so inserts between pages
+// don't shift results. Sorts that can't be expressed as a range (text score) fall back
+// to an offset hidden inside the cursor. `?page=` keeps the old skip/limit behaviour.
+
+export type SortSpec = Record<string, 1 | -1 | { $meta: 'textScore' }>;
+
+export interface PageQuery {
+  limit: number;
+  cursor?: string;
+  page?: number;       // legacy offset paging, only when no cursor is given
+  withTotal: boolean;  // countDocuments is opt-in for cursor paging
+}
+
+export interface PageInfo {
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  total?: number;
+  page?: number;
+  pages?: number;
+}
+
+interface Cursor {
+  d: 'next' | 'prev';
+  v?: unknown[];  // sort values (keyset)
+  o?: number;     // offset (non-keyset sorts)
+}
+
+// Utility: parse positive ints safely
+export const toInt = (v: unknown, def: number, max?: number) => {
+  const n = Number.parseInt(String(v ?? ''));
+  if (Number.isNaN(n) || n <= 0) return def;
+  return max ? Math.min(n, max) : n;
+};
+
+export function parsePageQuery(query: Record<string, unknown>, opts: { defaultLimit?: number; maxLimit?: number } = {}): PageQuery {
+  const cursor = typeof query.cursor === 'string' && query.cursor ? query.cursor : undefined;
+  return {
+    limit: toInt(query.limit, opts.defaultLimit ?? 10, opts.maxLimit ?? 100),
+    cursor,
+    page: !cursor && query.page !== undefined ? toInt(query.page, 1) : undefined,
+    withTotal: query.total === 'true' || query.total === '1'
+  };
+}
+
+// ---------- cursor encoding ----------
+// Dates and ObjectIds are tagged so they survive the JSON round trip
+const encodeValue = (v: unknown) =>
+  v instanceof Date ? { $d: v.toISOString() } : v instanceof Types.ObjectId ? { $o: v.toHexString() } : v ?? null;
+
+const decodeValue = (v: any) => {
+  if (v && typeof v === 'object') {
+    if (typeof v.$d === 'string') return new Date(v.$d);
+    if (typeof v.$o === 'string' && Types.ObjectId.isValid(v.$o)) return new Types.ObjectId(v.$o);
+    throw httpError(400, 'Invalid cursor');
+  }
+  return v;
+};
+
+const encodeCursor = (c: Cursor) =>
+  Buffer.from(JSON.stringify(c.v ? { ...c, v: c.v.map(encodeValue) } : c)).toString('base64url');
+
+function decodeCursor(raw: string): Cursor {
+  let c: any;
+  try {
+    c = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+  } catch {
+    throw httpError(400, 'Invalid cursor');
+  }
+  if (!c || (c.d !== 'next' && c.d !== 'prev')) throw httpError(400, 'Invalid cursor');
+  if (Array.isArray(c.v)) return { d: c.d, v: c.v.map(decodeValue) };
+  if (Number.isInteger(c.o) && c.o >= 0) return { d: c.d, o: c.o };
+  throw httpError(400, 'Invalid cursor');
+}
+
+// ---------- keyset conditions ----------
+// null sorts lowest in MongoDB, and $gt/$lt never match null, so it needs its own branches
+function beyond(field: string, dir: 1 | -1, value: unknown): Record<string, unknown>[] {
+  if (value === null) return dir === 1 ? [{ [field]: { $ne: null } }] : [];
+  return dir === 1
+    ? [{ [field]: { $gt: value } }]
+    : [{ [field]: { $lt: value } }, { [field]: null }];
+}
+
+// Everything strictly after `values` in `keys` order
+function afterCondition(keys: Array<[string, 1 | -1]>, values: unknown[]) {
+  const or: Record<string, unknown>[] = [];
+  for (let i = 0; i < keys.length; i++) {
+    const equal = Object.fromEntries(keys.slice(0, i).map(([f], j) => [f, values[j]]));
+    for (const cond of beyond(keys[i][0], keys[i][1], values[i])) or.push({ ...equal, ...cond });
+  }
+  return { $or: or };
+}
+
+const withCondition = (filter: Record<string, any>, cond: Record<string, unknown>) => ({
+  ...filter,
+  $and: [...(filter.$and ?? []), cond] // keeps top-level operators such as $text in place
+});
+
+/**
+ * Runs one page of `model.find(filter)` sorted by `sort` (+ _id as tie-breaker).
+ * `build` adds select/populate/lean etc. to the query.
+ */
+export async function paginate<T>(
+  model: Model<T>,
+  filter: Record<string, any>,
+  sort: SortSpec,
+  params: PageQuery,
+  opts: { projection?: Record<string, unknown>; build?: (q: any) => any } = {}
+): Promise<{ items: any[]; pagination: PageInfo }> {
+  const build = opts.build ?? ((q: any) => q);
+  const fullSort: SortSpec = '_id' in sort ? sort : { ...sort, _id: -1 };
+  const keyset = Object.values(fullSort).every((d) => d === 1 || d === -1);
+  const total = params.withTotal || params.page ? model.countDocuments(filter) : undefined;
+  const { limit } = params;
+
+  // legacy ?page= and non-keyset sorts: plain offsets
+  const cursor = params.cursor ? decodeCursor(params.cursor) : undefined;
+  if (params.page || !keyset) {
+    if (cursor && cursor.o === undefined) throw httpError(400, 'Invalid cursor');
+    const offset = params.page ? (params.page - 1) * limit : cursor?.o ?? 0;
+    const rows = await build(model.find(filter, opts.projection).sort(fullSort).skip(offset).limit(limit + 1));
+    const items = rows.slice(0, limit);
+    const count = total ? await total : undefined;
+    return {
+      items,
+      pagination: {
+        limit,
+        nextCursor: rows.length > limit ? encodeCursor({ d: 'next', o: offset + limit }) : null,
+        prevCursor: offset > 0 ? encodeCursor({ d: 'next', o: Math.max(0, offset - limit) }) : null,
+        ...(count !== undefined ? { total: count } : {}),
+        ...(params.page ? { page: params.page, pages: Math.ceil((count ?? 0) / limit) } : {})
+      }
+    };
+  }
+
+  if (cursor && !cursor.v) throw httpError(400, 'Invalid cursor');
+  const keys = Object.entries(fullSort) as Array<[string, 1 | -1]>;
+  const backwards = cursor?.d === 'prev';
+  // walking backwards = same query with every direction flipped, then reversed
+  const queryKeys = backwards ? keys.map(([f, d]) => [f, d === 1 ? -1 : 1] as [string, 1 | -1]) : keys;
+  if (cursor?.v && cursor.v.length !== keys.length) throw httpError(400, 'Invalid cursor');
+
+  const query = cursor?.v ? withCondition(filter, afterCondition(queryKeys, cursor.v)) : filter;
+  const rows = await build(model.find(query, opts.projection).sort(Object.fromEntries(queryKeys)).limit(limit + 1));
+  const more = rows.length > limit;
+  const items = rows.slice(0, limit);
+  if (backwards) items.reverse();
+
+  const valuesOf = (doc: any) => keys.map(([f]) => doc?.[f] ?? null);
+  const first = items[0];
+  const last = items[items.length - 1];
+  const hasNext = backwards ? Boolean(cursor) : more;
+  const hasPrev = backwards ? more : Boolean(cursor);
+
+  return {
+    items,
+    pagination: {
+      limit,
+      nextCursor: hasNext && last ? encodeCursor({ d: 'next', v: valuesOf(last) }) : null,
+      prevCursor: hasPrev && first ? encodeCursor({ d: 'prev', v: valuesOf(first) }) : null,
+      ...(total ? { total: await total } : {})
+    }
+  };
+}
@@ -0,0 +1,260 @@
+import axios from 'axios';
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { Readable } from 'stream';
+import { env } from '../config/env';
+
+// Outbound fetch for user-supplied URLs (SSRF guard).
+// - only http/https on allowed ports
+// - every hostname is resolved by our own lookup, which rejects private, loopback,
+//   link-local, cloud metadata and other non-public addresses; the socket connects to
+//   the address we validated, so DNS rebinding between check and connect doesn't help
+// - redirects are followed by hand so each hop goes through the same checks
+// - response size and content type are capped, and one deadline (timeoutMs) covers every
+//   hop and the body read, so a server dripping bytes can't hold the request open
+// - allowLoopback (dev webhooks only) additionally lets localhost through, on any port
+
+export class SafeFetchError extends Error {
+  status = 400;
+  redirects: string[] = []; // hops seen before the failure (the last one may be the rejected target)
+  constructor(message: string, public code: string) {
+    super(message);
+  }
+}
+
+const blocked = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.88.99.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([ip, prefix]) => blocked.addSubnet(ip as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b:1::', 48], ['100::', 64], ['2001::', 32], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8]
+].forEach(([ip, prefix]) => blocked.addSubnet(ip as string, prefix as number, 'ipv6'));
+// IPv4-mapped IPv6 (::ffff:a.b.c.d) is matched against the IPv4 rules by BlockList;
+// 6to4 and NAT64 addresses are decoded below. Teredo (2001::/32) is blocked outright.
+
+// the eight 16-bit words of an IPv6 address ("::" expanded, trailing dotted quad split)
+function ipv6Words(ip: string): number[] {
+  const parse = (part: string) =>
+    part
+      ? part.split(':').flatMap((w) => {
+          if (!w.includes('.')) return [parseInt(w, 16)];
+          const [a, b, c, d] = w.split('.').map(Number);
+          return [(a << 8) | b, (c << 8) | d];
+        })
+      : [];
+  const [head, tail] = ip.replace(/%.*$/, '').split('::');
+  if (tail === undefined) return parse(head);
+  const h = parse(head);
+  const t = parse(tail);
+  return [...h, ...new Array(8 - h.length - t.length).fill(0), ...t];
+}
+
+// IPv4 address carried inside 6to4 (2002:AABB:CCDD::/48) or NAT64 (64:ff9b::a.b.c.d)
+function embeddedIpv4(ip: string): string | null {
+  const w = ipv6Words(ip);
+  const v4 = (hi: number, lo: number) => [hi >> 8, hi & 0xff, lo >> 8, lo & 0xff].join('.');
+  if (w[0] === 0x2002) return v4(w[1], w[2]);
+  if (w[0] === 0x64 && w[1] === 0xff9b && w.slice(2, 6).every((x) => x === 0)) return v4(w[6], w[7]);
+  return null;
+}
+
+export function isPublicIp(ip: string): boolean {
+  const family = net.isIP(ip);
+  if (family === 0) return false;
+  if (family === 4) return !blocked.check(ip, 'ipv4');
+  const v4 = embeddedIpv4(ip);
+  return v4 ? isPublicIp(v4) : !blocked.check(ip, 'ipv6');
+}
+
+const loopback = new net.BlockList();
+loopback.addSubnet('127.0.0.0', 8, 'ipv4');
+loopback.addAddress('::1', 'ipv6');
+
+export function isLoopbackIp(ip: string) {
+  const family = net.isIP(ip);
+  if (family === 0) return false;
+  return loopback.check(ip, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+const isLoopbackHost = (host: string) => /^localhost$/i.test(host) || isLoopbackIp(host);
+
+const allowedPorts = () =>
+  new Set(env.SAFE_FETCH_ALLOWED_PORTS.split(',').map((p) => Number(p.trim())).filter(Boolean));
+
+function assertUrlAllowed(raw: string, allowLoopback = false): URL {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new SafeFetchError('Invalid URL', 'INVALID_URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new SafeFetchError(`Scheme ${url.protocol} is not allowed`, 'SCHEME_NOT_ALLOWED');
+  }
+  if (url.username || url.password) {
+    throw new SafeFetchError('URLs with credentials are not allowed', 'CREDENTIALS_NOT_ALLOWED');
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (allowLoopback && isLoopbackHost(host)) return url;
+
+  const port = Number(url.port || (url.protocol === 'https:' ? 443 : 80));
+  if (!allowedPorts().has(port)) throw new SafeFetchError(`Port ${port} is not allowed`, 'PORT_NOT_ALLOWED');
+
+  // IP literals never reach the lookup below, so check them here
+  if (net.isIP(host) && !isPublicIp(host)) {
+    throw new SafeFetchError('Destination address is not allowed', 'ADDRESS_NOT_ALLOWED');
+  }
+  if (/^(localhost|.*\.localhost|.*\.local|.*\.internal)$/i.test(host)) {
+    throw new SafeFetchError('Destination host is not allowed', 'ADDRESS_NOT_ALLOWED');
+  }
+  return url;
+}
+
+// dns.lookup replacement used by the agents: resolve everything, refuse if any address is non-public
+const guardedLookup = (allowLoopback: boolean): net.LookupFunction => (hostname, options, callback) => {
+  dns.lookup(hostname, { all: true }, (err, addresses) => {
+    if (err) return (callback as any)(err);
+    const list = addresses as dns.LookupAddress[];
+    const bad = list.find((a) => !isPublicIp(a.address) && !(allowLoopback && isLoopbackIp(a.address)));
+    if (!list.length || bad) {
+      return (callback as any)(new SafeFetchError('Destination address is not allowed', 'ADDRESS_NOT_ALLOWED'));
+    }
+    if ((options as dns.LookupOptions)?.all) return (callback as any)(null, list);
+    (callback as any)(null, list[0].address, list[0].family);
+  });
+};
+
+const agents = {
+  guarded: { http: new http.Agent({ lookup: guardedLookup(false) }), https: new https.Agent({ lookup: guardedLookup(false) }) },
+  loopback: { http: new http.Agent({ lookup: guardedLookup(true) }), https: new https.Agent({ lookup: guardedLookup(true) }) }
+};
+
+export interface SafeFetchOptions {
+  method?: 'GET' | 'HEAD' | 'POST';
+  body?: string | Buffer;
+  timeoutMs?: number;           // whole request: every hop plus reading the body
+  maxBytes?: number;
+  maxRedirects?: number;
+  contentTypes?: string[];      // allowed media types, e.g. ['text/html']; empty = any
+  headers?: Record<string, string>;
+  readBody?: boolean;           // default: everything but HEAD; false discards the body unread
+  allowLoopback?: boolean;
+}
+
+export interface SafeFetchResponse {
+  url: string;                   // final URL after redirects
+  redirects: string[];           // every hop after the first
+  status: number;
+  headers: Record<string, string>;
+  contentType: string;           // media type without parameters
+  data: Buffer;
+}
+
+async function readCapped(stream: Readable, maxBytes: number, signal: AbortSignal) {
+  // the body is read after axios has resolved, so the deadline has to reach the stream too
+  const onAbort = () => stream.destroy(new Error('aborted'));
+  if (signal.aborted) onAbort();
+  signal.addEventListener('abort', onAbort, { once: true });
+  const chunks: Buffer[] = [];
+  let size = 0;
+  try {
+    for await (const chunk of stream) {
+      size += chunk.length;
+      if (size > maxBytes) {
+        stream.destroy();
+        throw new SafeFetchError(`Response is larger than ${maxBytes} bytes`, 'TOO_LARGE');
+      }
+      chunks.push(chunk);
+    }
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Every failure is a SafeFetchError carrying the redirect hops seen so far
+export async function safeFetch(rawUrl: string, opts: SafeFetchOptions = {}): Promise<SafeFetchResponse> {
+  const redirects: string[] = [];
+  const timeoutMs = opts.timeoutMs ?? 8000;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetchFollowingRedirects(rawUrl, opts, redirects, controller.signal);
+  } catch (err: any) {
+    // the lookup's SafeFetchError reaches us wrapped in an AxiosError
+    const cause = err instanceof SafeFetchError ? err : err?.cause instanceof SafeFetchError ? err.cause : null;
+    const error =
+      cause ??
+      (controller.signal.aborted
+        ? new SafeFetchError(`Request took longer than ${timeoutMs} ms`, 'TIMEOUT')
+        : new SafeFetchError(err?.message || 'Request failed', 'REQUEST_FAILED'));
+    error.redirects = redirects;
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function fetchFollowingRedirects(
+  rawUrl: string,
+  opts: SafeFetchOptions,
+  redirects: string[],
+  signal: AbortSignal
+): Promise<SafeFetchResponse> {
+  const method = opts.method ?? 'GET';
+  const maxBytes = opts.maxBytes ?? env.SAFE_FETCH_MAX_BYTES;
+  const maxRedirects = opts.maxRedirects ?? 5;
+  const readBody = opts.readBody ?? method !== 'HEAD';
+  const allowLoopback = opts.allowLoopback ?? false;
+  const agent = allowLoopback ? agents.loopback : agents.guarded;
+  let current = assertUrlAllowed(rawUrl, allowLoopback);
+
+  for (let hop = 0; ; hop++) {
+    const res = await axios.request<Readable>({
+      url: current.toString(),
+      method,
+      data: opts.body,
+      signal,
+      maxRedirects: 0,
+      responseType: 'stream',
+      validateStatus: () => true,
+      httpAgent: agent.http,
+      httpsAgent: agent.https,
+      proxy: false,
+      headers: opts.headers
+    });
+    const headers = Object.fromEntries(
+      Object.entries(res.headers ?? {}).map(([k, v]) => [k.toLowerCase(), Array.isArray(v) ? v.join(', ') : String(v ?? '')])
+    );
+
+    const location = headers.location;
+    if (res.status >= 300 && res.status < 400 && location) {
+      res.data?.destroy?.();
+      if (hop >= maxRedirects) throw new SafeFetchError('Too many redirects', 'TOO_MANY_REDIRECTS');
+      const target = new URL(location, current).toString();
+      redirects.push(target); // recorded before the check so callers see rejected targets too
+      current = assertUrlAllowed(target, allowLoopback);
+      continue;
+    }
+
+    const contentType = (headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+    if (method === 'GET' && opts.contentTypes?.length && !opts.contentTypes.includes(contentType)) {
+      res.data?.destroy?.();
+      throw new SafeFetchError(`Content type ${contentType || 'unknown'} is not allowed`, 'CONTENT_TYPE_NOT_ALLOWED');
+    }
+    const declared = Number(headers['content-length']);
+    if (declared > maxBytes) {
+      res.data?.destroy?.();
+      throw new SafeFetchError(`Response is larger than ${maxBytes} bytes`, 'TOO_LARGE');
+    }
+
+    if (!readBody) res.data?.destroy?.();
+    const data = !readBody || !res.data ? Buffer.alloc(0) : await readCapped(res.data, maxBytes, signal);
+    return { url: current.toString(), redirects, status: res.status, headers, contentType, data };
+  }
+}
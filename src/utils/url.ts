@@ -0,0 +1,23 @@
+// Canonical form used for storage and cache keys: protocol added if missing, fragment dropped
+export const normalizeUrl = (raw: string) => {
+  let u = (raw || '').trim();
+  if (!/^https?:\/\//i.test(u)) u = 'https://' + u;
+  try {
+    const url = new URL(u);
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return u;
+  }
+};
+
+// Resolves a possibly-relative reference against a base URL; undefined if unusable
+export const resolveUrl = (ref: string | undefined, base: string) => {
+  if (!ref || !ref.trim()) return undefined;
+  try {
+    const u = new URL(ref.trim(), base);
+    return u.protocol === 'http:' || u.protocol === 'https:' ? u.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+};
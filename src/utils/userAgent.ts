@@ -0,0 +1,47 @@
+// Coarse User-Agent classification for routing rules. Order matters: many UAs
+// mention several engines ("Chrome ... Safari", "Edg ... Chrome").
+
+export type DeviceType = 'mobile' | 'tablet' | 'desktop' | 'bot';
+export type OsName = 'ios' | 'android' | 'windows' | 'macos' | 'linux' | 'chromeos' | 'other';
+export type BrowserName = 'chrome' | 'safari' | 'firefox' | 'edge' | 'opera' | 'samsung' | 'other';
+
+export interface ParsedUserAgent {
+  device: DeviceType;
+  os: OsName;
+  browser: BrowserName;
+}
+
+const BOT = /bot|crawl|spider|slurp|facebookexternalhit|preview|curl|wget|python-requests|axios|headless/i;
+
+function detectOs(ua: string): OsName {
+  if (/iPhone|iPad|iPod/i.test(ua)) return 'ios';
+  if (/Android/i.test(ua)) return 'android';
+  if (/CrOS/i.test(ua)) return 'chromeos';
+  if (/Windows/i.test(ua)) return 'windows';
+  if (/Macintosh|Mac OS X/i.test(ua)) return 'macos';
+  if (/Linux|X11/i.test(ua)) return 'linux';
+  return 'other';
+}
+
+function detectBrowser(ua: string): BrowserName {
+  if (/Edg(e|A|iOS)?\//i.test(ua)) return 'edge';
+  if (/OPR\/|Opera/i.test(ua)) return 'opera';
+  if (/SamsungBrowser/i.test(ua)) return 'samsung';
+  if (/Firefox|FxiOS/i.test(ua)) return 'firefox';
+  if (/Chrome|CriOS|Chromium/i.test(ua)) return 'chrome';
+  if (/Safari/i.test(ua)) return 'safari';
+  return 'other';
+}
+
+function detectDevice(ua: string, os: OsName): DeviceType {
+  if (BOT.test(ua)) return 'bot';
+  if (/iPad|Tablet/i.test(ua) || (os === 'android' && !/Mobile/i.test(ua))) return 'tablet';
+  if (/Mobi|iPhone|iPod|Android/i.test(ua)) return 'mobile';
+  return 'desktop';
+}
+
+export function parseUserAgent(ua: string | undefined): ParsedUserAgent {
+  const s = ua ?? '';
+  const os = detectOs(s);
+  return { device: detectDevice(s, os), os, browser: detectBrowser(s) };
+}
@@ -0,0 +1,85 @@
+import { escapeHtml as e } from '../utils/html';
+
+// Server-rendered pages for short links opened directly in a browser.
+
+const layout = (title: string, body: string, head = '') => `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${e(title)}</title>
+${head}
+<style>
+  body { font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; background: #f5f6f8; color: #1f2328; margin: 0; }
+  main { max-width: 520px; margin: 10vh auto; background: #fff; border-radius: 12px; padding: 28px; box-shadow: 0 2px 12px rgba(0,0,0,.08); }
+  h1 { font-size: 1.25rem; margin: 0 0 12px; }
+  p { line-height: 1.5; }
+  .muted { color: #656d76; font-size: .9rem; word-break: break-all; }
+  .error { color: #cf222e; }
+  img.preview { width: 100%; max-height: 260px; object-fit: cover; border-radius: 8px; margin-bottom: 12px; }
+  input[type=password] { width: 100%; box-sizing: border-box; padding: 10px; border: 1px solid #d0d7de; border-radius: 6px; font-size: 1rem; }
+  .btn { display: inline-block; margin-top: 14px; padding: 10px 18px; border: 0; border-radius: 6px; background: #2563eb; color: #fff; font-size: 1rem; text-decoration: none; cursor: pointer; }
+</style>
+</head>
+<body><main>
+${body}
+</main></body>
+</html>`;
+
+export function passwordPage(opts: { action: string; error?: string }) {
+  return layout(
+    'Password required',
+    `<h1>This link is password protected</h1>
+<p>Enter the password to continue.</p>
+${opts.error ? `<p class="error">${e(opts.error)}</p>` : ''}
+<form method="post" action="${e(opts.action)}">
+  <input type="password" name="password" autocomplete="current-password" autofocus required aria-label="Password">
+  <button class="btn" type="submit">Continue</button>
+</form>`
+  );
+}
+
+export interface PreviewMeta {
+  title?: string;
+  description?: string;
+  image?: string;
+  siteName?: string;
+}
+
+export function previewPage(opts: { destination: string; meta: PreviewMeta }) {
+  const { destination, meta } = opts;
+  const host = (() => { try { return new URL(destination).hostname; } catch { return ''; } })();
+  return layout(
+    meta.title ? `Preview: ${meta.title}` : 'Link preview',
+    `${meta.image && /^https:\/\//i.test(meta.image) ? `<img class="preview" src="${e(meta.image)}" alt="">` : ''}
+<h1>${e(meta.title || host || 'You are leaving this site')}</h1>
+${meta.description ? `<p>${e(meta.description)}</p>` : ''}
+<p class="muted">${e(meta.siteName || host)} &middot; ${e(destination)}</p>
+<a class="btn" href="${e(destination)}" rel="noopener noreferrer">Continue to ${e(host || 'site')}</a>`
+  );
+}
+
+export function countdownPage(opts: { destination: string; seconds: number; nonce: string; title?: string }) {
+  const { destination, seconds, nonce } = opts;
+  return layout(
+    'Redirecting…',
+    `<h1>${e(opts.title || 'Redirecting…')}</h1>
+<p>You will be redirected in <strong id="count">${seconds}</strong> seconds.</p>
+<p class="muted">${e(destination)}</p>
+<a class="btn" href="${e(destination)}" rel="noopener noreferrer">Go now</a>
+<script nonce="${e(nonce)}">
+  (function () {
+    var left = ${Number(seconds)};
+    var el = document.getElementById('count');
+    var t = setInterval(function () {
+      left -= 1;
+      if (el) el.textContent = String(Math.max(0, left));
+      if (left <= 0) { clearInterval(t); window.location.replace(${JSON.stringify(destination).replace(/</g, '\\u003c')}); }
+    }, 1000);
+  })();
+</script>`,
+    // works without JS as well
+    `<meta http-equiv="refresh" content="${Number(seconds)};url=${e(destination)}">`
+  );
+}
@@ -0,0 +1,220 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Model, Types } from 'mongoose';
+import { User } from '../src/models/User';
+import { Link } from '../src/models/Link';
+import { ClickEvent } from '../src/models/ClickEvent';
+import { LinkPolicy } from '../src/models/LinkPolicy';
+import { Workspace } from '../src/models/Workspace';
+import { WorkspaceInvite } from '../src/models/WorkspaceInvite';
+import { ApiKey } from '../src/models/ApiKey';
+import { Session } from '../src/models/Session';
+import { AuthToken } from '../src/models/AuthToken';
+import { Webhook } from '../src/models/Webhook';
+import { WebhookDelivery } from '../src/models/WebhookDelivery';
+import { Domain } from '../src/models/Domain';
+import { createUser, deleteUserById, suspendUser, unsuspendUser, updateUserRole } from '../src/controllers/admin.users.controller';
+import { verifyPassword } from '../src/utils/password';
+import { Doc, matches } from './helpers/memoryFilter';
+
+// Users, links and click events live in memory; the other collections only record deletes
+
+let users: Doc[];
+let links: Doc[];
+let clicks: Doc[];
+let deleted: string[];
+
+const plain = (doc: Doc) => Object.fromEntries(Object.entries(doc).filter(([, v]) => typeof v !== 'function'));
+
+function applyUpdate(doc: Doc, update: Doc) {
+  Object.assign(doc, update.$set ?? {});
+  for (const key of Object.keys(update.$unset ?? {})) delete doc[key];
+  for (const [key, by] of Object.entries(update.$inc ?? {})) doc[key] = (doc[key] ?? 0) + (by as number);
+}
+
+// a stand-in for a hydrated user document; await-able with or without .select()
+function hydrate(row: Doc) {
+  const doc: Doc = {
+    ...row,
+    toObject: () => plain(doc),
+    save: async () => {
+      // yield like a real write, so concurrent requests interleave
+      await new Promise((resolve) => setImmediate(resolve));
+      Object.assign(row, plain(doc));
+    },
+    deleteOne: async () => {
+      users = users.filter((u) => u !== row);
+    }
+  };
+  return doc;
+}
+const query = <T>(value: T) => Object.assign(Promise.resolve(value), { select: () => Promise.resolve(value) });
+
+function call(handler: (req: any, res: any, next: any) => unknown, req: Doc) {
+  return new Promise<{ status: number; body: any }>((resolve, reject) => {
+    const res: any = {
+      statusCode: 200,
+      status(code: number) {
+        res.statusCode = code;
+        return res;
+      },
+      json: (body: any) => resolve({ status: res.statusCode, body })
+    };
+    handler({ query: {}, body: {}, params: {}, ...req }, res, reject);
+  });
+}
+
+const user = (role: string, extra: Doc = {}): Doc => {
+  const row = { _id: new Types.ObjectId(), fullName: `${role} user`, email: `${role}${users.length}@x.test`, role, tokenVersion: 0, suspendedAt: null, ...extra };
+  users.push(row);
+  return row;
+};
+const activeAdmins = () => users.filter((u) => u.role === 'admin' && !u.suspendedAt).length;
+const as = (admin: Doc, target: Doc, extra: Doc = {}) => ({ user: { sub: String(admin._id) }, params: { id: String(target._id) }, ...extra });
+
+beforeEach(() => {
+  users = [];
+  links = [];
+  clicks = [];
+  deleted = [];
+
+  mock.method(User, 'findById', (id: unknown) => {
+    const row = users.find((u) => String(u._id) === String(id));
+    return query(row ? hydrate(row) : null);
+  });
+  mock.method(User, 'countDocuments', async (filter: Doc) => users.filter((u) => matches(u, filter)).length);
+  mock.method(User, 'updateOne', async (filter: Doc, update: Doc) => {
+    const row = users.find((u) => matches(u, filter));
+    if (row) applyUpdate(row, update);
+  });
+  mock.method(User, 'exists', async (filter: Doc) => users.find((u) => matches(u, filter)) ?? null);
+  mock.method(User, 'create', async (row: Doc) => hydrate({ _id: new Types.ObjectId(), tokenVersion: 0, suspendedAt: null, ...row, email: row.email.toLowerCase() }));
+  mock.method(Session, 'updateMany', async () => ({ modifiedCount: 0 }));
+  mock.method(Link, 'updateMany', async (filter: Doc, update: Doc) => {
+    const hit = links.filter((l) => matches(l, filter));
+    hit.forEach((l) => applyUpdate(l, update));
+    return { modifiedCount: hit.length };
+  });
+  mock.method(Link, 'distinct', async (_field: string, filter: Doc) => links.filter((l) => matches(l, filter)).map((l) => l._id));
+  mock.method(Link, 'deleteMany', async (filter: Doc) => {
+    links = links.filter((l) => !matches(l, filter));
+  });
+  mock.method(ClickEvent, 'deleteMany', async (filter: Doc) => {
+    clicks = clicks.filter((c) => !matches(c, filter));
+  });
+  mock.method(Workspace, 'find', () => ({ lean: async () => [] }));
+  mock.method(Workspace, 'updateMany', async () => ({}));
+  mock.method(LinkPolicy, 'deleteOne', async () => ({}));
+  const models: Array<Model<any>> = [ApiKey, Session, AuthToken, Webhook, WebhookDelivery, WorkspaceInvite, Workspace, Domain];
+  for (const m of models) mock.method(m, 'deleteMany', async () => void deleted.push(m.modelName));
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('last-admin guard', () => {
+  test('the only active admin cannot be demoted, suspended or deleted', async () => {
+    const admin = user('admin');
+    user('admin', { suspendedAt: new Date() }); // suspended admins don't count
+    const other = user('manager');
+    assert.equal((await call(updateUserRole, as(admin, admin, { body: { role: 'user' } }))).status, 409);
+    assert.equal((await call(suspendUser, as(other, admin))).status, 409);
+    assert.equal((await call(deleteUserById, as(other, admin))).status, 409);
+    assert.equal(users[0].role, 'admin');
+    assert.equal(users[0].suspendedAt, null);
+    assert.equal(users.length, 3);
+  });
+
+  test('two admins demoting each other at once leave one admin standing', async () => {
+    const a = user('admin');
+    const b = user('admin');
+    const results = await Promise.all([
+      call(updateUserRole, as(a, b, { body: { role: 'user' } })),
+      call(updateUserRole, as(b, a, { body: { role: 'user' } }))
+    ]);
+    assert.ok(results.some((r) => r.status === 409));
+    assert.ok(activeAdmins() >= 1);
+  });
+
+  test('a role change revokes the user’s tokens', async () => {
+    const admin = user('admin');
+    const target = user('user');
+    const res = await call(updateUserRole, as(admin, target, { body: { role: 'manager' } }));
+    assert.equal(res.status, 200);
+    assert.equal(res.body.user.role, 'manager');
+    assert.equal(target.tokenVersion, 1);
+  });
+});
+
+describe('suspension', () => {
+  test('admins cannot suspend themselves', async () => {
+    const admin = user('admin');
+    user('admin');
+    assert.equal((await call(suspendUser, as(admin, admin))).status, 400);
+  });
+
+  test('suspendLinks switches the links off; unsuspending restores only those', async () => {
+    const admin = user('admin');
+    const target = user('user');
+    links.push(
+      { _id: new Types.ObjectId(), createdBy: target._id, isActive: true },
+      { _id: new Types.ObjectId(), createdBy: target._id, isActive: false, deactivatedReason: 'Deactivated by a moderator' }
+    );
+
+    const suspended = await call(suspendUser, as(admin, target, { body: { reason: 'spam', suspendLinks: true } }));
+    assert.equal(suspended.body.linksDeactivated, 1);
+    assert.ok(target.suspendedAt instanceof Date);
+    assert.equal(target.suspendedReason, 'spam');
+    assert.equal(target.tokenVersion, 1);
+    assert.deepEqual(links.map((l) => l.isActive), [false, false]);
+
+    assert.equal((await call(suspendUser, as(admin, target))).status, 409);
+
+    const restored = await call(unsuspendUser, as(admin, target));
+    assert.equal(restored.body.linksReactivated, 1);
+    assert.equal(target.suspendedAt, null);
+    assert.deepEqual(links.map((l) => l.isActive), [true, false]);
+    assert.equal(links[1].deactivatedReason, 'Deactivated by a moderator');
+  });
+});
+
+describe('deleteUserById', () => {
+  test('removes the user’s credentials and, with cascade, their links and click events', async () => {
+    const admin = user('admin');
+    const target = user('user');
+    const mine = { _id: new Types.ObjectId(), createdBy: target._id };
+    const theirs = { _id: new Types.ObjectId(), createdBy: admin._id };
+    links.push(mine, theirs);
+    clicks.push({ link: mine._id }, { link: mine._id }, { link: theirs._id });
+
+    const res = await call(deleteUserById, as(admin, target, { query: { cascade: 'true' } }));
+    assert.equal(res.status, 200);
+    assert.deepEqual(users.map((u) => u._id), [admin._id]);
+    assert.deepEqual(links, [theirs]);
+    assert.deepEqual(clicks, [{ link: theirs._id }]);
+    for (const name of ['ApiKey', 'Session', 'AuthToken', 'Webhook', 'WebhookDelivery']) assert.ok(deleted.includes(name), name);
+  });
+
+  test('without cascade the links stay', async () => {
+    const admin = user('admin');
+    const target = user('user');
+    links.push({ _id: new Types.ObjectId(), createdBy: target._id });
+    await call(deleteUserById, as(admin, target));
+    assert.equal(links.length, 1);
+  });
+});
+
+describe('createUser', () => {
+  test('generates a temporary password when none is given and never returns the hash', async () => {
+    const res = await call(createUser, { body: { fullName: 'New Person', email: 'New@x.test', role: 'manager' } });
+    assert.equal(res.status, 201);
+    assert.equal(res.body.user.role, 'manager');
+    assert.equal(res.body.user.passwordHash, undefined);
+    const hash = (User.create as any).mock.calls[0].arguments[0].passwordHash;
+    assert.equal(await verifyPassword(res.body.temporaryPassword, hash), true);
+  });
+
+  test('duplicate emails are a 409', async () => {
+    user('user', { email: 'taken@x.test' });
+    assert.equal((await call(createUser, { body: { fullName: 'Someone', email: 'Taken@x.test', password: 'secret1' } })).status, 409);
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Types } from 'mongoose';
+import { Link } from '../src/models/Link';
+import { ClickEvent } from '../src/models/ClickEvent';
+import { Workspace } from '../src/models/Workspace';
+import { getLinkAnalytics } from '../src/controllers/link.controller';
+import { Doc, matches } from './helpers/memoryFilter';
+
+// The aggregation itself needs MongoDB; here ClickEvent.aggregate returns a canned facet
+// and the tests check what the handler asks for and how it shapes the answer
+
+const ownerId = new Types.ObjectId();
+const link = {
+  _id: new Types.ObjectId(),
+  shortCode: 'abc',
+  domain: null,
+  workspace: null,
+  createdBy: ownerId,
+  originalUrl: 'https://example.com/',
+  clicks: 42,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  isActive: true,
+  variants: [
+    { key: 'a', destination: 'https://a.test/', weight: 1, clicks: 30 },
+    { key: 'b', destination: 'https://b.test/', weight: 1, clicks: 12 }
+  ]
+};
+let facet: Doc | undefined;
+
+function call(req: Doc) {
+  return new Promise<{ status: number; body: any }>((resolve, reject) => {
+    const res: any = {
+      statusCode: 200,
+      status(code: number) {
+        res.statusCode = code;
+        return res;
+      },
+      json: (body: any) => resolve({ status: res.statusCode, body })
+    };
+    getLinkAnalytics({ hostname: 'localhost', params: { shortCode: 'abc' }, query: {}, user: { sub: String(ownerId) }, ...req } as any, res, reject);
+  });
+}
+
+const pipeline = () => (ClickEvent.aggregate as any).mock.calls[0].arguments[0] as Doc[];
+
+beforeEach(() => {
+  facet = {
+    totals: [{ clicks: 5, uniqueVisitors: 3 }],
+    timeseries: [{ bucket: '2026-03-01', clicks: 2 }, { bucket: '2026-03-02', clicks: 3 }],
+    topReferrers: [{ value: 'https://news.test/', count: 4 }],
+    topUserAgents: [],
+    topCountries: [{ value: 'FR', count: 5 }],
+    byVariant: [{ _id: 'b', clicks: 5 }]
+  };
+  mock.method(Link, 'findOne', async (filter: Doc) => (matches(link, filter) ? link : null));
+  mock.method(Workspace, 'find', () => ({ lean: async () => [] }));
+  mock.method(ClickEvent, 'aggregate', async () => (facet ? [facet] : []));
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('GET /api/links/:shortCode/analytics', () => {
+  test('counts only this link’s clicks inside the requested range', async () => {
+    const res = await call({ query: { from: '2026-03-01T00:00:00Z', to: '2026-03-03T00:00:00Z' } });
+    assert.equal(res.status, 200);
+    const { $match } = pipeline()[0];
+    assert.equal($match.link, link._id);
+    assert.deepEqual($match.clickedAt, { $gte: new Date('2026-03-01T00:00:00Z'), $lte: new Date('2026-03-03T00:00:00Z') });
+  });
+
+  test('returns totals, the time series, top lists and per-variant clicks in range', async () => {
+    const { body } = await call({});
+    assert.equal(body.clicks, 42);
+    assert.equal(body.clicksInRange, 5);
+    assert.equal(body.uniqueVisitors, 3);
+    assert.equal(body.range.interval, 'day');
+    assert.deepEqual(body.timeseries, facet!.timeseries);
+    assert.deepEqual(body.topCountries, [{ value: 'FR', count: 5 }]);
+    assert.deepEqual(body.variants.map((v: Doc) => [v.key, v.clicks, v.clicksInRange]), [['a', 30, 0], ['b', 12, 5]]);
+  });
+
+  test('a range without clicks gives zeros, not missing fields', async () => {
+    facet = undefined;
+    const { body } = await call({});
+    assert.equal(body.clicksInRange, 0);
+    assert.equal(body.uniqueVisitors, 0);
+    assert.deepEqual(body.timeseries, []);
+  });
+
+  test('hourly buckets group by UTC hour and are capped at 31 days', async () => {
+    await call({ query: { interval: 'hour', from: '2026-03-01T00:00:00Z', to: '2026-03-02T00:00:00Z' } });
+    const group = pipeline()[1].$facet.timeseries[0].$group;
+    assert.equal(group._id.$dateToString.format, '%Y-%m-%dT%H:00:00.000Z');
+    assert.equal(group._id.$dateToString.timezone, 'UTC');
+
+    const tooLong = await call({ query: { interval: 'hour', from: '2026-01-01T00:00:00Z', to: '2026-03-01T00:00:00Z' } });
+    assert.equal(tooLong.status, 400);
+  });
+
+  test('invalid or reversed ranges are a 400', async () => {
+    assert.equal((await call({ query: { from: 'yesterday' } })).status, 400);
+    assert.equal((await call({ query: { from: '2026-03-02', to: '2026-03-01' } })).status, 400);
+  });
+
+  test('other users cannot read the analytics', async () => {
+    assert.equal((await call({ user: { sub: String(new Types.ObjectId()) } })).status, 404);
+    assert.equal((await call({ user: undefined })).status, 401);
+  });
+});
@@ -0,0 +1,140 @@
+import { after, afterEach, before, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import express = require('express');
+import { Types } from 'mongoose';
+import { ApiKey } from '../src/models/ApiKey';
+import { User } from '../src/models/User';
+import { auth } from '../src/middleware/auth';
+import { requireScope } from '../src/middleware/requireScope';
+import { authenticateApiKey, consumeRateLimit, generateApiKey } from '../src/services/apiKey.service';
+import { Doc } from './helpers/memoryFilter';
+
+// Keys and users live in memory; the middleware runs in a real express app
+
+const userId = new Types.ObjectId();
+let keys: Doc[];
+let user: Doc | null;
+
+// stores a fresh key and returns the raw secret
+function addKey(extra: Doc = {}) {
+  const { key, prefix, keyHash } = generateApiKey();
+  keys.push({ _id: new Types.ObjectId(), user: userId, prefix, keyHash, scopes: ['links:read'], rateLimitPerMinute: 60, ...extra });
+  return key;
+}
+
+beforeEach(() => {
+  keys = [];
+  user = { _id: userId, role: 'user', tokenVersion: 3, suspendedAt: null };
+  mock.method(ApiKey, 'findOne', (filter: Doc) => ({ lean: async () => keys.find((k) => k.keyHash === filter.keyHash) ?? null }));
+  mock.method(ApiKey, 'updateOne', async () => ({ acknowledged: true }));
+  mock.method(User, 'findById', () => ({ select: () => ({ lean: async () => user }) }));
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('authenticateApiKey', () => {
+  test('resolves a live key to its owner with the key scopes', async () => {
+    const result = await authenticateApiKey(addKey({ scopes: ['links:read', 'analytics:read'] }));
+    assert.equal(result?.principal.sub, String(userId));
+    assert.equal(result?.principal.tv, 3);
+    assert.deepEqual(result?.principal.scopes, ['links:read', 'analytics:read']);
+    assert.equal(result?.principal.apiKeyId, String(keys[0]._id));
+  });
+
+  test('unknown, malformed, revoked and expired keys are refused', async () => {
+    addKey();
+    assert.equal(await authenticateApiKey('sk_unknown'), null);
+    assert.equal(await authenticateApiKey('not-a-key'), null);
+    assert.equal(await authenticateApiKey(addKey({ revokedAt: new Date() })), null);
+    assert.equal(await authenticateApiKey(addKey({ expiresAt: new Date(Date.now() - 1000) })), null);
+  });
+
+  test('keys of suspended or deleted users are refused', async () => {
+    const key = addKey();
+    user!.suspendedAt = new Date();
+    assert.equal(await authenticateApiKey(key), null);
+    user = null;
+    assert.equal(await authenticateApiKey(key), null);
+  });
+
+  test('only the hash is looked up', async () => {
+    const key = addKey();
+    await authenticateApiKey(key);
+    const filter = (ApiKey.findOne as any).mock.calls[0].arguments[0];
+    assert.notEqual(filter.keyHash, key);
+    assert.equal(filter.keyHash, keys[0].keyHash);
+  });
+});
+
+describe('consumeRateLimit', () => {
+  test('counts requests per key inside a one-minute window', () => {
+    const id = String(new Types.ObjectId());
+    assert.deepEqual(
+      [1, 2, 3].map(() => consumeRateLimit(id, 2)).map((r) => [r.allowed, r.remaining]),
+      [[true, 1], [true, 0], [false, 0]]
+    );
+    assert.equal(consumeRateLimit(String(new Types.ObjectId()), 2).allowed, true);
+  });
+});
+
+describe('requireScope', () => {
+  test('signed-in users (no API key) are not limited by scopes', () => {
+    let passed = false;
+    requireScope('links:write')({ user: { sub: 'u1', role: 'user' } } as any, {} as any, () => (passed = true));
+    assert.equal(passed, true);
+  });
+});
+
+describe('API key requests through auth and requireScope', () => {
+  let server: http.Server;
+  let base: string;
+
+  before(async () => {
+    const app = express();
+    const userOrKey = auth(true, { apiKey: true });
+    app.get('/read', userOrKey, requireScope('links:read'), (req, res) => res.json({ user: (req as any).user.sub }));
+    app.post('/write', userOrKey, requireScope('links:write'), (_req, res) => res.json({ ok: true }));
+    app.get('/jwt-only', auth(), (_req, res) => res.json({ ok: true }));
+    server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => server.close());
+
+  const send = (path: string, key: string, method = 'GET') => fetch(`${base}${path}`, { method, headers: { 'X-API-Key': key } });
+
+  test('a key with the scope gets through as its owner', async () => {
+    const res = await fetch(`${base}/read`, { headers: { Authorization: `ApiKey ${addKey()}` } });
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), { user: String(userId) });
+  });
+
+  test('a key without the scope is a 403 naming the scope', async () => {
+    const res = await send('/write', addKey(), 'POST');
+    assert.equal(res.status, 403);
+    assert.match((await res.json()).error, /"links:write" scope/);
+  });
+
+  test('endpoints that do not opt in refuse API keys', async () => {
+    assert.equal((await send('/jwt-only', addKey())).status, 401);
+  });
+
+  test('a revoked key is a 401', async () => {
+    assert.equal((await send('/read', addKey({ revokedAt: new Date() }))).status, 401);
+  });
+
+  test('over the per-key limit is a 429 with rate-limit headers', async () => {
+    const key = addKey({ rateLimitPerMinute: 2 });
+    const first = await send('/read', key);
+    assert.equal(first.headers.get('x-ratelimit-limit'), '2');
+    assert.equal(first.headers.get('x-ratelimit-remaining'), '1');
+    await send('/read', key);
+    const limited = await send('/read', key);
+    assert.equal(limited.status, 429);
+    assert.equal(limited.headers.get('x-ratelimit-remaining'), '0');
+    assert.ok(Number(limited.headers.get('retry-after')) > 0);
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Types } from 'mongoose';
+import { User } from '../src/models/User';
+import { auth } from '../src/middleware/auth';
+import { forgetUserAuthState } from '../src/services/authState.service';
+import { signAccessToken } from '../src/utils/jwt';
+import { Doc } from './helpers/memoryFilter';
+
+// Bearer tokens against an in-memory user; the auth-state cache is cleared between tests
+
+const userId = String(new Types.ObjectId());
+let user: Doc | null;
+
+// runs the middleware and reports the user it set, or the status it answered with
+async function run(token: string | undefined, required = true) {
+  return new Promise<{ status: number; user?: Doc; error?: string }>((resolve, reject) => {
+    const req: any = { headers: token ? { authorization: `Bearer ${token}` } : {} };
+    const res: any = {
+      status(code: number) {
+        return { json: (body: Doc) => resolve({ status: code, error: body.error }) };
+      }
+    };
+    auth(required)(req, res, (err?: unknown) => (err ? reject(err) : resolve({ status: 200, user: req.user })));
+  });
+}
+
+const token = (tv = 2, role: 'user' | 'admin' = 'user') => signAccessToken({ sub: userId, role, tv });
+
+beforeEach(() => {
+  user = { _id: userId, role: 'user', tokenVersion: 2, suspendedAt: null };
+  forgetUserAuthState(userId);
+  mock.method(User, 'findById', () => ({ select: () => ({ lean: async () => user }) }));
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('auth middleware with access tokens', () => {
+  test('a current token passes with the role from the database', async () => {
+    user!.role = 'manager';
+    const result = await run(token());
+    assert.equal(result.status, 200);
+    assert.equal(result.user?.sub, userId);
+    assert.equal(result.user?.role, 'manager');
+  });
+
+  test('a demoted user does not keep the role baked into the token', async () => {
+    assert.equal((await run(token(2, 'admin'))).user?.role, 'user');
+  });
+
+  test('a token from before a tokenVersion bump is revoked', async () => {
+    assert.deepEqual(await run(token(1)), { status: 401, error: 'Token has been revoked' });
+  });
+
+  test('suspended users get a 403, deleted users a 401', async () => {
+    user!.suspendedAt = new Date();
+    assert.equal((await run(token())).status, 403);
+    forgetUserAuthState(userId);
+    user = null;
+    assert.deepEqual(await run(token()), { status: 401, error: 'User no longer exists' });
+  });
+
+  test('changes apply as soon as the cached state is forgotten', async () => {
+    assert.equal((await run(token())).status, 200);
+    user!.tokenVersion = 3;
+    assert.equal((await run(token())).status, 200); // still cached
+    forgetUserAuthState(userId);
+    assert.equal((await run(token())).status, 401);
+  });
+
+  test('malformed tokens are a 401; optional auth lets anonymous requests through', async () => {
+    assert.deepEqual(await run('not.a.jwt'), { status: 401, error: 'Invalid or expired token' });
+    assert.equal((await run(undefined)).status, 401);
+    assert.deepEqual(await run(undefined, false), { status: 200, user: undefined });
+  });
+});
@@ -0,0 +1,57 @@
+import { after, before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import express = require('express');
+import { Types } from 'mongoose';
+import { User } from '../src/models/User';
+import linkRoutes from '../src/routes/link.routes';
+import { errorHandler } from '../src/middleware/errorHandler';
+import { signAccessToken } from '../src/utils/jwt';
+
+// The link router behind a real HTTP server; the signed-in user is looked up in memory.
+
+const userId = String(new Types.ObjectId());
+const token = signAccessToken({ sub: userId, role: 'user', tv: 0 });
+let server: http.Server;
+let baseUrl: string;
+
+before(async () => {
+  mock.method(User, 'findById', () => ({
+    select: () => ({ lean: async () => ({ _id: userId, role: 'user', tokenVersion: 0, suspendedAt: null }) })
+  }));
+  mock.method(console, 'error', () => undefined); // errorHandler logs every error
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/links', linkRoutes);
+  app.use(errorHandler);
+  server = http.createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+  mock.restoreAll();
+});
+
+const upload = (field: string, bytes: number) => {
+  const form = new FormData();
+  form.append(field, new Blob(['url\n' + 'x'.repeat(bytes)], { type: 'text/csv' }), 'links.csv');
+  return fetch(`${baseUrl}/api/links/bulk`, { method: 'POST', headers: { Authorization: `Bearer ${token}` }, body: form });
+};
+
+describe('POST /api/links/bulk upload errors', () => {
+  test('a CSV file over the size limit is a 413, not a 500', async () => {
+    const res = await upload('file', 1024 * 1024 + 1);
+    assert.equal(res.status, 413);
+    assert.match((await res.json()).error, /larger than 1 MB/);
+  });
+
+  test('a file under an unexpected field name is a 400', async () => {
+    const res = await upload('attachment', 10);
+    assert.equal(res.status, 400);
+    assert.match((await res.json()).error, /Unexpected file field/);
+  });
+});
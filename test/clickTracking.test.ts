@@ -0,0 +1,66 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { env } from '../src/config/env';
+import { lookupCountry } from '../src/utils/geoip';
+import { hashIp } from '../src/utils/client';
+
+// Click events store a salted IP hash and a country from the offline GeoIP file
+
+describe('hashIp', () => {
+  test('is stable per IP and never the raw address', () => {
+    const h = hashIp('198.51.100.7');
+    assert.equal(h, hashIp('198.51.100.7'));
+    assert.notEqual(h, hashIp('198.51.100.8'));
+    assert.match(h!, /^[a-f0-9]{64}$/);
+    assert.ok(!h!.includes('198.51.100.7'));
+  });
+
+  test('no IP, no hash', () => {
+    assert.equal(hashIp(undefined), undefined);
+    assert.equal(hashIp(''), undefined);
+  });
+});
+
+describe('lookupCountry', () => {
+  let dir: string;
+  const previous = env.GEOIP_DB_PATH;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'geoip-'));
+    const file = path.join(dir, 'ip2country.csv');
+    // unsorted on purpose, with a quoted row, an unknown-country row and junk
+    fs.writeFileSync(file, [
+      '"81.0.0.0","81.255.255.255","fr"',
+      '8.8.8.0,8.8.8.255,US',
+      '10.0.0.0,10.255.255.255,-',
+      'not,a,range',
+      ''
+    ].join('\n'));
+    env.GEOIP_DB_PATH = file;
+  });
+
+  after(() => {
+    env.GEOIP_DB_PATH = previous;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('finds the range an IPv4 address falls in', () => {
+    assert.equal(lookupCountry('8.8.8.8'), 'US');
+    assert.equal(lookupCountry('81.2.3.4'), 'FR');
+  });
+
+  test('accepts IPv4-mapped IPv6 addresses', () => {
+    assert.equal(lookupCountry('::ffff:8.8.8.8'), 'US');
+  });
+
+  test('unknown ranges, placeholders and non-IPv4 input give no country', () => {
+    assert.equal(lookupCountry('1.1.1.1'), undefined);
+    assert.equal(lookupCountry('10.1.2.3'), undefined);
+    assert.equal(lookupCountry('2606:4700::1111'), undefined);
+    assert.equal(lookupCountry('999.1.1.1'), undefined);
+    assert.equal(lookupCountry(undefined), undefined);
+  });
+});
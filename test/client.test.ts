@@ -0,0 +1,49 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import express = require('express');
+import { getClientIp } from '../src/utils/client';
+
+// Small apps with `trust proxy` set like app.ts does, echoing getClientIp
+
+async function listen(hops: number) {
+  const app = express();
+  app.set('trust proxy', hops);
+  app.get('/', (req, res) => res.send(getClientIp(req) ?? ''));
+  const server = http.createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return server;
+}
+
+const ipFor = async (server: http.Server, forwardedFor?: string) => {
+  const { port } = server.address() as AddressInfo;
+  const res = await fetch(`http://127.0.0.1:${port}/`, { headers: forwardedFor ? { 'X-Forwarded-For': forwardedFor } : {} });
+  return res.text();
+};
+
+describe('getClientIp', () => {
+  let direct: http.Server;
+  let behindProxy: http.Server;
+
+  before(async () => {
+    direct = await listen(0);
+    behindProxy = await listen(1);
+  });
+  after(() => {
+    direct.close();
+    behindProxy.close();
+  });
+
+  test('ignores X-Forwarded-For when no proxy is trusted', async () => {
+    assert.match(await ipFor(direct, '203.0.113.9'), /127\.0\.0\.1$/);
+  });
+
+  test('takes the entry the trusted proxy appended, not one the client sent', async () => {
+    assert.equal(await ipFor(behindProxy, '203.0.113.9, 198.51.100.7'), '198.51.100.7');
+  });
+
+  test('drops the port Azure appends', async () => {
+    assert.equal(await ipFor(behindProxy, '203.0.113.9, 198.51.100.7:56789'), '198.51.100.7');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, parseCsvRecords, toCsvRow } from '../src/utils/csv';
+
+// Bulk import reads CSV with these helpers; exports write it with toCsvRow
+
+describe('parseCsv', () => {
+  test('splits rows on LF and CRLF and skips blank lines', () => {
+    assert.deepEqual(parseCsv('a,b\r\nc,d\n\n,\ne,f'), [['a', 'b'], ['c', 'd'], ['e', 'f']]);
+  });
+
+  test('quoted fields keep commas, newlines and escaped quotes', () => {
+    assert.deepEqual(parseCsv('"a,1","line\nbreak","say ""hi"""\n'), [['a,1', 'line\nbreak', 'say "hi"']]);
+  });
+
+  test('strips a leading BOM', () => {
+    assert.deepEqual(parseCsv('﻿url\nhttps://a.test'), [['url'], ['https://a.test']]);
+  });
+});
+
+describe('parseCsvRecords', () => {
+  test('keys rows by the trimmed, lower-cased header', () => {
+    assert.deepEqual(parseCsvRecords(' URL ,Alias\nhttps://a.test , a1\nhttps://b.test'), [
+      { url: 'https://a.test', alias: 'a1' },
+      { url: 'https://b.test', alias: '' }
+    ]);
+  });
+
+  test('ignores unnamed columns and empty input', () => {
+    assert.deepEqual(parseCsvRecords('url,\nhttps://a.test,extra'), [{ url: 'https://a.test' }]);
+    assert.deepEqual(parseCsvRecords(''), []);
+  });
+});
+
+describe('toCsvRow', () => {
+  test('quotes cells that need it and ends with CRLF', () => {
+    assert.equal(toCsvRow(['a', 'b,c', 'say "hi"', null, undefined, 3]), 'a,"b,c","say ""hi""",,,3\r\n');
+  });
+
+  test('writes dates as ISO strings', () => {
+    assert.equal(toCsvRow([new Date('2026-01-02T03:04:05Z')]), '2026-01-02T03:04:05.000Z\r\n');
+  });
+
+  test('neutralises cells a spreadsheet would run as a formula', () => {
+    assert.equal(toCsvRow(['=HYPERLINK("x")', '+1', '-1', '@sum']), `"'=HYPERLINK(""x"")",'+1,'-1,'@sum\r\n`);
+  });
+
+  test('round-trips through parseCsv', () => {
+    const cells = ['https://a.test/?q=1,2', 'multi\nline', 'plain'];
+    assert.deepEqual(parseCsv(toCsvRow(cells)), [cells]);
+  });
+});
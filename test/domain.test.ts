@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Types } from 'mongoose';
+import { Domain } from '../src/models/Domain';
+import { Workspace } from '../src/models/Workspace';
+import { Link } from '../src/models/Link';
+import { createDomain, deleteDomain, getMyDomain, listMyDomains, verifyDomain } from '../src/controllers/domain.controller';
+import { setTxtResolver, verifyRecordValue } from '../src/services/domain.service';
+import { Doc, matches } from './helpers/memoryFilter';
+
+// Domain, Workspace and Link statics run against in-memory lists; the domain list enforces the
+// unique index on verified hostnames. DNS answers come from `txt`.
+
+let domains: Doc[];
+let txt: Record<string, string[]>;
+
+const alice = String(new Types.ObjectId());
+const bob = String(new Types.ObjectId());
+const carol = String(new Types.ObjectId());
+const team = {
+  _id: new Types.ObjectId(),
+  members: [
+    { user: new Types.ObjectId(alice), role: 'owner' },
+    { user: new Types.ObjectId(bob), role: 'viewer' }
+  ]
+};
+
+const plain = (doc: Doc) => Object.fromEntries(Object.entries(doc).filter(([, v]) => typeof v !== 'function'));
+
+// a stand-in for a hydrated document: save() writes back, deleteOne() removes
+function hydrate(row: Doc) {
+  const doc: Doc = {
+    ...row,
+    toObject: () => plain(doc),
+    save: async () => {
+      const clash = domains.some((d) => d.hostname === doc.hostname && d.verified && d !== row);
+      if (doc.verified && clash) throw Object.assign(new Error('E11000 duplicate key'), { code: 11000 });
+      Object.assign(row, plain(doc));
+    },
+    deleteOne: async () => {
+      domains = domains.filter((d) => d !== row);
+    }
+  };
+  return doc;
+}
+
+function call(handler: (req: any, res: any, next: any) => unknown, req: Doc) {
+  return new Promise<{ status: number; body: any }>((resolve, reject) => {
+    const res: any = {
+      statusCode: 200,
+      status(code: number) {
+        res.statusCode = code;
+        return res;
+      },
+      json: (body: any) => resolve({ status: res.statusCode, body })
+    };
+    handler({ query: {}, body: {}, params: {}, hostname: 'api.short.test', ...req }, res, reject);
+  });
+}
+
+beforeEach(() => {
+  domains = [];
+  txt = {};
+  setTxtResolver({ resolveTxt: async (name) => txt[name] ?? [] });
+
+  mock.method(Domain, 'exists', async (filter: Doc) => {
+    const row = domains.find((d) => matches(d, filter));
+    return row ? { _id: row._id } : null;
+  });
+  mock.method(Domain, 'create', async (row: Doc) => {
+    const saved = { _id: new Types.ObjectId(), verified: false, ...row };
+    domains.push(saved);
+    return hydrate(saved);
+  });
+  mock.method(Domain, 'findById', async (id: string) => {
+    const row = domains.find((d) => String(d._id) === String(id));
+    return row ? hydrate(row) : null;
+  });
+  mock.method(Domain, 'find', (filter: Doc) => ({
+    sort: () => ({ lean: async () => domains.filter((d) => matches(d, filter)).map((d) => ({ ...d })) })
+  }));
+  mock.method(Workspace, 'findById', (id: string) => ({ lean: async () => (String(id) === String(team._id) ? team : null) }));
+  mock.method(Workspace, 'find', (filter: Doc) => ({
+    lean: async () => (team.members.some((m) => String(m.user) === String(filter['members.user'])) ? [team] : [])
+  }));
+  mock.method(Link, 'countDocuments', async () => 0);
+  mock.method(Domain, 'updateOne', async (filter: Doc, update: Doc) => {
+    const row = domains.find((d) => String(d._id) === String(filter._id));
+    if (row) Object.assign(row, update.$set);
+  });
+  mock.method(Domain, 'deleteOne', async (filter: Doc) => {
+    domains = domains.filter((d) => String(d._id) !== String(filter._id));
+  });
+  mock.method(Domain, 'deleteMany', async (filter: Doc) => {
+    domains = domains.filter((d) => !matches(d, filter));
+  });
+});
+
+afterEach(() => mock.restoreAll());
+
+const claim = (userId: string, extra: Doc = {}) =>
+  call(createDomain, { user: { sub: userId }, body: { hostname: 'go.brand.test', ...extra } });
+const verify = (userId: string, id: string) => call(verifyDomain, { user: { sub: userId }, params: { id } });
+
+describe('custom domain claims', () => {
+  test('an unverified claim does not block other accounts', async () => {
+    assert.equal((await claim(alice)).status, 201);
+    const second = await claim(bob);
+    assert.equal(second.status, 201);
+    assert.equal(domains.length, 2);
+    assert.notEqual(domains[0].verificationToken, domains[1].verificationToken);
+    assert.match(second.body.domain.verification.value, new RegExp(domains[1].verificationToken));
+  });
+
+  test('the same account cannot claim a hostname twice', async () => {
+    await claim(alice);
+    assert.equal((await claim(alice)).status, 409);
+  });
+
+  test('the first claim to verify wins and the other pending claims are dropped', async () => {
+    const squatter = (await claim(alice)).body.domain;
+    const real = (await claim(bob)).body.domain;
+    txt['_shorturl-verify.go.brand.test'] = [verifyRecordValue(real.verificationToken)];
+
+    assert.equal((await verify(alice, String(squatter._id))).status, 422);
+    const won = await verify(bob, String(real._id));
+    assert.equal(won.status, 200);
+    assert.equal(won.body.domain.verified, true);
+    assert.deepEqual(domains.map((d) => String(d.owner)), [bob]);
+
+    assert.equal((await claim(alice)).status, 409);
+  });
+
+  test('a claim verified at the same moment as another loses cleanly', async () => {
+    const first = (await claim(alice)).body.domain;
+    const second = (await claim(bob)).body.domain;
+    txt['_shorturl-verify.go.brand.test'] = [first.verificationToken, second.verificationToken].map(verifyRecordValue);
+
+    // bob's verify passed the "already verified?" check before alice's save landed
+    const exists = Domain.exists;
+    mock.method(Domain, 'exists', async (filter: Doc) => {
+      const hit = await exists.call(Domain, filter as any);
+      if (filter.verified) domains.find((d) => String(d.owner) === alice)!.verified = true;
+      return hit;
+    });
+
+    const lost = await verify(bob, String(second._id));
+    assert.equal(lost.status, 409);
+    assert.deepEqual(domains.map((d) => String(d.owner)), [alice]);
+  });
+});
+
+describe('workspace domains', () => {
+  const ws = String(team._id);
+  const as = (userId: string, id: string) => ({ user: { sub: userId }, params: { id } });
+
+  test('workspace editors and owners can add domains; viewers and outsiders cannot', async () => {
+    assert.equal((await claim(bob, { workspace: ws })).status, 403);
+    assert.equal((await claim(carol, { workspace: ws })).status, 403);
+    const created = await claim(alice, { workspace: ws });
+    assert.equal(created.status, 201);
+    assert.equal(String(domains[0].workspace), ws);
+  });
+
+  test('viewers can read a workspace domain but not verify or delete it', async () => {
+    const id = String((await claim(alice, { workspace: ws })).body.domain._id);
+    assert.equal((await call(getMyDomain, as(bob, id))).status, 200);
+    assert.equal((await call(verifyDomain, as(bob, id))).status, 403);
+    assert.equal((await call(deleteDomain, as(bob, id))).status, 403);
+    assert.equal((await call(getMyDomain, as(carol, id))).status, 404);
+  });
+
+  test('members see workspace domains in their list, others do not', async () => {
+    await claim(alice, { workspace: ws });
+    await call(createDomain, { user: { sub: carol }, body: { hostname: 'carol.test' } });
+    const names = async (userId: string) =>
+      (await call(listMyDomains, { user: { sub: userId } })).body.domains.map((d: Doc) => d.hostname);
+    assert.deepEqual(await names(bob), ['go.brand.test']);
+    assert.deepEqual(await names(carol), ['carol.test']);
+  });
+});
@@ -0,0 +1,104 @@
+import { after, before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import express = require('express');
+import { Types } from 'mongoose';
+import { ClickEvent } from '../src/models/ClickEvent';
+import { exportQuerySchema, streamLinkExport } from '../src/services/export.service';
+import { parseCsvRecords } from '../src/utils/csv';
+import { Doc, matches } from './helpers/memoryFilter';
+
+// Exports stream from fake cursors through a real HTTP response
+
+const created = new Date('2026-03-01T10:00:00Z');
+const links = [
+  { _id: new Types.ObjectId(), shortCode: 'abc', originalUrl: 'https://a.test/?x=1,2', title: '=cmd()', tags: ['x', 'y'], isActive: true, clicks: 2, createdAt: created },
+  { _id: new Types.ObjectId(), shortCode: 'def', originalUrl: 'https://b.test/', tags: [], isActive: false, clicks: 0, createdAt: created }
+];
+const clicks = [
+  { link: links[0]._id, clickedAt: new Date('2026-03-02T00:00:00Z'), referrer: 'https://news.test/', country: 'FR' },
+  { link: links[0]._id, clickedAt: new Date('2026-03-05T00:00:00Z'), userAgent: 'Mozilla/5.0' }
+];
+let closed = 0;
+
+// a cursor over `rows` that records close()
+const cursor = <T>(rows: T[]) => ({
+  async *[Symbol.asyncIterator]() {
+    yield* rows;
+  },
+  close: async () => {
+    closed++;
+  }
+});
+
+let server: http.Server;
+let base: string;
+
+before(async () => {
+  mock.method(ClickEvent, 'find', (filter: Doc) => {
+    const { clickedAt, ...rest } = filter;
+    const rows = clicks.filter(
+      (c) => matches(c, rest) && (!clickedAt?.$gte || c.clickedAt >= clickedAt.$gte) && (!clickedAt?.$lte || c.clickedAt <= clickedAt.$lte)
+    );
+    const chain: any = { select: () => chain, sort: () => chain, lean: () => chain, cursor: () => cursor(rows) };
+    return chain;
+  });
+  const app = express();
+  app.get('/export', (req, res) => streamLinkExport(res, cursor(links as any[]), exportQuerySchema.parse(req.query), 'links'));
+  server = http.createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+  mock.restoreAll();
+});
+
+const get = (query: string) => fetch(`${base}/export?${query}`);
+
+describe('streamLinkExport', () => {
+  test('CSV: one row per link with a BOM, formula-safe cells and pipe-joined tags', async () => {
+    const res = await get('format=csv');
+    assert.equal(res.headers.get('content-type'), 'text/csv; charset=utf-8');
+    assert.equal(res.headers.get('content-disposition'), 'attachment; filename="links.csv"');
+    const bytes = Buffer.from(await res.arrayBuffer());
+    assert.deepEqual([...bytes.subarray(0, 3)], [0xef, 0xbb, 0xbf]); // Excel needs the BOM to read UTF-8
+    const text = bytes.toString('utf8');
+    const rows = parseCsvRecords(text);
+    assert.deepEqual(rows.map((r) => r.shortcode), ['abc', 'def']);
+    assert.equal(rows[0].originalurl, 'https://a.test/?x=1,2');
+    assert.equal(rows[0].title, "'=cmd()");
+    assert.equal(rows[0].tags, 'x|y');
+    assert.equal(rows[0].createdat, created.toISOString());
+  });
+
+  test('CSV with clicks: one row per click, links without clicks still get a row', async () => {
+    const rows = parseCsvRecords(await (await get('format=csv&clicks=true')).text());
+    assert.deepEqual(rows.map((r) => [r.shortcode, r.country]), [['abc', 'FR'], ['abc', ''], ['def', '']]);
+  });
+
+  test('JSON is one valid array with clicks nested per link, filtered by date', async () => {
+    const res = await get('format=json&clicks=true&clicksFrom=2026-03-03');
+    const body = await res.json();
+    assert.equal(body.length, 2);
+    assert.deepEqual(body[0].clickEvents, [{ clickedAt: '2026-03-05T00:00:00.000Z', referrer: null, userAgent: 'Mozilla/5.0', country: null }]);
+    assert.deepEqual(body[1].clickEvents, []);
+    assert.deepEqual(body[0].tags, ['x', 'y']);
+  });
+
+  test('NDJSON is one JSON object per line', async () => {
+    const res = await get('format=ndjson');
+    assert.equal(res.headers.get('content-type'), 'application/x-ndjson; charset=utf-8');
+    const lines = (await res.text()).trim().split('\n').map((l) => JSON.parse(l));
+    assert.deepEqual(lines.map((l) => l.shortCode), ['abc', 'def']);
+    assert.equal(lines[0].id, String(links[0]._id));
+  });
+
+  test('the link cursor is closed after every export', async () => {
+    const before = closed;
+    await (await get('format=ndjson')).text();
+    assert.ok(closed > before);
+  });
+});
@@ -0,0 +1,44 @@
+import { Types } from 'mongoose';
+
+// Evaluates the subset of MongoDB filters the code under test emits ($or, $and, $gt,
+// $lt, $ne, $in, equality) with MongoDB's null ordering: null sorts lowest, $gt/$lt never
+// match null. Lets tests run services against in-memory documents.
+
+export type Doc = Record<string, any>;
+
+const isNil = (v: unknown) => v === null || v === undefined;
+const scalar = (v: any) => (v instanceof Date ? v.getTime() : v instanceof Types.ObjectId ? v.toHexString() : v);
+
+export function compare(a: unknown, b: unknown) {
+  if (isNil(a) || isNil(b)) return isNil(a) === isNil(b) ? 0 : isNil(a) ? -1 : 1;
+  const [x, y] = [scalar(a), scalar(b)];
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+export function matches(doc: Doc, filter: Doc): boolean {
+  return Object.entries(filter).every(([key, cond]) => {
+    if (key === '$or') return cond.some((f: Doc) => matches(doc, f));
+    if (key === '$and') return cond.every((f: Doc) => matches(doc, f));
+    const value = doc[key];
+    if (cond && typeof cond === 'object' && !(cond instanceof Date) && !(cond instanceof Types.ObjectId)) {
+      return Object.entries(cond).every(([op, arg]) => {
+        if (op === '$gt') return !isNil(value) && compare(value, arg) > 0;
+        if (op === '$lt') return !isNil(value) && compare(value, arg) < 0;
+        if (op === '$ne') return compare(value, arg) !== 0;
+        if (op === '$in') return (arg as unknown[]).some((a) => compare(value, a) === 0);
+        throw new Error(`unsupported operator ${op}`);
+      });
+    }
+    return compare(value, cond) === 0;
+  });
+}
+
+export function sortDocs(rows: Doc[], spec: Record<string, number>) {
+  return [...rows].sort((a, b) => {
+    for (const [field, dir] of Object.entries(spec)) {
+      const c = compare(a[field], b[field]);
+      if (c) return c * dir;
+    }
+    return 0;
+  });
+}
@@ -0,0 +1,78 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeHtml, parseHtmlMetadata } from '../src/services/metadata.service';
+
+// Extraction only; fetching goes through safeFetch, which has its own tests
+
+describe('decodeHtml', () => {
+  const latin1 = Buffer.from('<p>caf\xe9</p>', 'latin1');
+
+  test('uses the charset from the Content-Type header', () => {
+    assert.equal(decodeHtml(latin1, 'text/html; charset=ISO-8859-1'), '<p>café</p>');
+  });
+
+  test('falls back to a <meta charset> in the document', () => {
+    const buf = Buffer.concat([Buffer.from('<meta charset="windows-1252">'), latin1]);
+    assert.match(decodeHtml(buf, 'text/html'), /café/);
+  });
+
+  test('a UTF-8 BOM beats a wrong header, and unknown labels fall through to UTF-8', () => {
+    const bom = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('café')]);
+    assert.equal(decodeHtml(bom, 'text/html; charset=iso-8859-1'), 'café');
+    assert.equal(decodeHtml(Buffer.from('café'), 'text/html; charset=made-up'), 'café');
+  });
+});
+
+describe('parseHtmlMetadata', () => {
+  const page = 'https://example.com/blog/post';
+
+  test('prefers <title> and the description meta, then Open Graph', () => {
+    const meta = parseHtmlMetadata(
+      `<html lang="en-GB"><head>
+        <title>  Page   title </title>
+        <meta property="og:title" content="OG title">
+        <meta property="og:description" content="OG description">
+        <meta property="og:site_name" content="Example Blog">
+        <meta name="keywords" content="a, b">
+      </head></html>`,
+      page
+    );
+    assert.equal(meta.title, 'Page title');
+    assert.equal(meta.description, 'OG description');
+    assert.equal(meta.siteName, 'Example Blog');
+    assert.equal(meta.keywords, 'a, b');
+    assert.equal(meta.language, 'en-GB');
+  });
+
+  test('resolves relative image, icon, canonical and oEmbed URLs against the page', () => {
+    const meta = parseHtmlMetadata(
+      `<head>
+        <meta property="og:image" content="/img/cover.png">
+        <link rel="icon" href="icons/fav.png">
+        <link rel="canonical" href="/blog/post?ref=canonical">
+        <link type="application/json+oembed" href="/oembed?url=x">
+      </head>`,
+      page
+    );
+    assert.equal(meta.image, 'https://example.com/img/cover.png');
+    assert.equal(meta.favicon, 'https://example.com/blog/icons/fav.png');
+    assert.equal(meta.canonicalUrl, 'https://example.com/blog/post?ref=canonical');
+    assert.equal(meta.oembedEndpoint, 'https://example.com/oembed?url=x');
+  });
+
+  test('falls back to the host name and /favicon.ico', () => {
+    const meta = parseHtmlMetadata('<p>no head</p>', page);
+    assert.equal(meta.title, undefined);
+    assert.equal(meta.siteName, 'example.com');
+    assert.equal(meta.favicon, 'https://example.com/favicon.ico');
+  });
+
+  test('keeps valid JSON-LD blocks and skips broken ones', () => {
+    const meta = parseHtmlMetadata(
+      `<script type="application/ld+json">{"@type":"Article","headline":"Hi"}</script>
+       <script type="application/ld+json">{broken</script>`,
+      page
+    );
+    assert.deepEqual(meta.jsonLd, [{ '@type': 'Article', headline: 'Hi' }]);
+  });
+});
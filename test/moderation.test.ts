@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Types } from 'mongoose';
+import { Link } from '../src/models/Link';
+import { Workspace } from '../src/models/Workspace';
+import { Webhook } from '../src/models/Webhook';
+import { setLinkActiveAdmin } from '../src/controllers/admin.links.controller';
+import { updateLink } from '../src/controllers/link.controller';
+import { Doc, matches } from './helpers/memoryFilter';
+
+// Link statics run against an in-memory list; the owner has no workspaces or webhooks.
+
+const ownerId = new Types.ObjectId();
+const moderatorId = new Types.ObjectId();
+let links: Doc[];
+
+function applyUpdate(doc: Doc, update: Doc) {
+  Object.assign(doc, update.$set ?? {});
+  for (const key of Object.keys(update.$unset ?? {})) delete doc[key];
+}
+
+// resolves with what the handler answered (or passed to next)
+function call(handler: (req: any, res: any, next: any) => unknown, req: Doc) {
+  return new Promise<{ status: number; body: any }>((resolve) => {
+    const res: any = {
+      statusCode: 200,
+      status(code: number) {
+        res.statusCode = code;
+        return res;
+      },
+      json: (body: any) => resolve({ status: res.statusCode, body })
+    };
+    handler({ query: {}, body: {}, params: {}, ...req }, res, (err: any) =>
+      resolve({ status: err?.status ?? 500, body: { error: err?.message } })
+    );
+  });
+}
+
+beforeEach(() => {
+  links = [{ _id: new Types.ObjectId(), shortCode: 'abc', domain: null, createdBy: ownerId, workspace: null, isActive: true }];
+
+  mock.method(Link, 'findOneAndUpdate', (filter: Doc, update: Doc) => {
+    const doc = links.find((l) => matches(l, filter));
+    const before = doc ? { ...doc } : null;
+    if (doc) applyUpdate(doc, update);
+    return { select: () => ({ lean: async () => before }) };
+  });
+  mock.method(Link, 'findById', (id: unknown) => ({
+    select: () => ({ lean: async () => links.find((l) => String(l._id) === String(id)) ?? null })
+  }));
+  mock.method(Link, 'findOne', (filter: Doc) => ({
+    select: async () => {
+      const doc = links.find((l) => matches(l, filter));
+      return doc ? { ...doc, save: async () => undefined } : null;
+    }
+  }));
+  mock.method(Workspace, 'find', () => ({ lean: async () => [] }));
+  mock.method(Webhook, 'find', () => ({ select: () => ({ lean: async () => [] }) }));
+});
+
+afterEach(() => mock.restoreAll());
+
+const moderator = { sub: String(moderatorId), role: 'manager' };
+const owner = { sub: String(ownerId), role: 'user' };
+
+describe('link moderation', () => {
+  test('deactivating through the admin endpoint records who took the link down and why', async () => {
+    const { status } = await call(setLinkActiveAdmin, {
+      user: moderator,
+      params: { idOrCode: 'abc' },
+      body: { isActive: false, reason: 'phishing' }
+    });
+    assert.equal(status, 200);
+    assert.equal(links[0].isActive, false);
+    assert.ok(links[0].moderatedAt instanceof Date);
+    assert.equal(String(links[0].moderatedBy), String(moderatorId));
+    assert.equal(links[0].deactivatedReason, 'phishing');
+  });
+
+  test('owners cannot reactivate a moderated link', async () => {
+    await call(setLinkActiveAdmin, { user: moderator, params: { idOrCode: 'abc' }, body: { isActive: false } });
+    const { status } = await call(updateLink, { user: owner, params: { shortCode: 'abc' }, body: { isActive: true } });
+    assert.equal(status, 403);
+    assert.equal(links[0].isActive, false);
+  });
+
+  test('reactivating through the admin endpoint clears the mark', async () => {
+    await call(setLinkActiveAdmin, { user: moderator, params: { idOrCode: 'abc' }, body: { isActive: false } });
+    const { status } = await call(setLinkActiveAdmin, { user: moderator, params: { idOrCode: 'abc' }, body: { isActive: true } });
+    assert.equal(status, 200);
+    assert.equal(links[0].isActive, true);
+    assert.equal(links[0].moderatedAt, null);
+    assert.equal(links[0].moderatedBy, null);
+    assert.equal(links[0].deactivatedReason, undefined);
+  });
+});
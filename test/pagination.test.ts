@@ -0,0 +1,145 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Types } from 'mongoose';
+import { paginate, parsePageQuery, toInt, PageQuery, SortSpec } from '../src/utils/pagination';
+import { Doc, matches, sortDocs } from './helpers/memoryFilter';
+
+// In-memory stand-in for a Mongoose model: just enough of find/sort/skip/limit
+function fakeModel(docs: Doc[]) {
+  return {
+    find(filter: Doc) {
+      let rows = docs.filter((d) => matches(d, filter));
+      const query: any = {
+        sort: (spec: Record<string, any>) => {
+          // a text score can't be evaluated here; keep insertion order for it
+          const keyed = Object.fromEntries(Object.entries(spec).filter(([, d]) => typeof d === 'number'));
+          rows = sortDocs(rows, keyed);
+          return query;
+        },
+        skip: (n: number) => ((rows = rows.slice(n)), query),
+        limit: (n: number) => ((rows = rows.slice(0, n)), query),
+        then: (resolve: any, reject: any) => Promise.resolve(rows).then(resolve, reject)
+      };
+      return query;
+    },
+    countDocuments: async (filter: Doc) => docs.filter((d) => matches(d, filter)).length
+  } as any;
+}
+
+const page = (overrides: Partial<PageQuery> = {}): PageQuery => ({ limit: 3, withTotal: false, ...overrides });
+
+// 10 docs with duplicate and null click counts, so the _id tie-breaker and null branches matter
+const docs: Doc[] = Array.from({ length: 10 }, (_, i) => ({
+  _id: new Types.ObjectId(),
+  clicks: [5, 3, null, 5, 1, null, 3, 8, 5, 0][i],
+  createdAt: new Date(Date.UTC(2024, 0, 1 + (i % 4)))
+}));
+
+function expectedOrder(sort: Record<string, 1 | -1>) {
+  return sortDocs(docs, { ...sort, _id: -1 }).map((d) => String(d._id));
+}
+
+async function walkForward(sort: SortSpec) {
+  const model = fakeModel(docs);
+  const seen: string[] = [];
+  const pages: Array<{ items: Doc[]; prev: string | null }> = [];
+  let cursor: string | undefined;
+  for (let i = 0; i < 10; i++) {
+    const { items, pagination } = await paginate(model, {}, sort, page({ cursor }));
+    seen.push(...items.map((d) => String(d._id)));
+    pages.push({ items, prev: pagination.prevCursor });
+    if (!pagination.nextCursor) break;
+    cursor = pagination.nextCursor;
+  }
+  return { seen, pages, model };
+}
+
+describe('toInt / parsePageQuery', () => {
+  test('toInt falls back on junk and clamps to max', () => {
+    assert.equal(toInt('7', 10), 7);
+    assert.equal(toInt('abc', 10), 10);
+    assert.equal(toInt('-3', 10), 10);
+    assert.equal(toInt('500', 10, 100), 100);
+  });
+
+  test('a cursor disables ?page=', () => {
+    assert.deepEqual(parsePageQuery({ cursor: 'abc', page: '2', limit: '5' }), { limit: 5, cursor: 'abc', page: undefined, withTotal: false });
+    assert.equal(parsePageQuery({ page: '2' }).page, 2);
+    assert.equal(parsePageQuery({ total: 'true' }).withTotal, true);
+    assert.equal(parsePageQuery({}, { defaultLimit: 20 }).limit, 20);
+  });
+});
+
+describe('paginate (keyset)', () => {
+  const sorts: Array<Record<string, 1 | -1>> = [{ clicks: -1 }, { clicks: 1 }, { createdAt: -1 }, { createdAt: 1, clicks: -1 }];
+  for (const sort of sorts) {
+    test(`walks every document exactly once, sorted by ${JSON.stringify(sort)}`, async () => {
+      const { seen } = await walkForward(sort);
+      assert.deepEqual(seen, expectedOrder(sort));
+    });
+  }
+
+  test('prevCursor returns the previous page', async () => {
+    const { pages, model } = await walkForward({ clicks: -1 });
+    for (let i = pages.length - 1; i > 0; i--) {
+      const { items } = await paginate(model, {}, { clicks: -1 }, page({ cursor: pages[i].prev! }));
+      assert.deepEqual(items.map((d) => String(d._id)), pages[i - 1].items.map((d) => String(d._id)));
+    }
+    assert.equal(pages[0].prev, null);
+  });
+
+  test('first page has no prevCursor, last page no nextCursor', async () => {
+    const model = fakeModel(docs);
+    const first = await paginate(model, {}, { clicks: -1 }, page({ limit: 100 }));
+    assert.equal(first.items.length, 10);
+    assert.equal(first.pagination.nextCursor, null);
+    assert.equal(first.pagination.prevCursor, null);
+  });
+
+  test('keeps filters and adds total on request', async () => {
+    const model = fakeModel(docs);
+    const { items, pagination } = await paginate(model, { clicks: 5 }, { createdAt: -1 }, page({ limit: 2, withTotal: true }));
+    assert.equal(items.length, 2);
+    assert.equal(pagination.total, 3);
+    const next = await paginate(model, { clicks: 5 }, { createdAt: -1 }, page({ limit: 2, cursor: pagination.nextCursor! }));
+    assert.equal(next.items.length, 1);
+    assert.ok(next.items.every((d) => d.clicks === 5));
+  });
+});
+
+describe('paginate (offsets)', () => {
+  test('legacy ?page= returns page, pages and total', async () => {
+    const { items, pagination } = await paginate(fakeModel(docs), {}, { createdAt: -1 }, page({ page: 2 }));
+    assert.equal(items.length, 3);
+    assert.equal(pagination.page, 2);
+    assert.equal(pagination.pages, 4);
+    assert.equal(pagination.total, 10);
+    assert.ok(pagination.prevCursor && pagination.nextCursor);
+  });
+
+  test('text score sorts page with offset cursors', async () => {
+    const model = fakeModel(docs);
+    const sort: SortSpec = { score: { $meta: 'textScore' } };
+    const first = await paginate(model, {}, sort, page());
+    const second = await paginate(model, {}, sort, page({ cursor: first.pagination.nextCursor! }));
+    const ids = [...first.items, ...second.items].map((d) => String(d._id));
+    assert.equal(new Set(ids).size, 6);
+    const back = await paginate(model, {}, sort, page({ cursor: second.pagination.prevCursor! }));
+    assert.deepEqual(back.items, first.items);
+  });
+});
+
+describe('paginate cursor validation', () => {
+  const invalid = (cursor: string, sort: SortSpec = { clicks: -1 }) =>
+    assert.rejects(paginate(fakeModel(docs), {}, sort, page({ cursor })), (err: any) => {
+      assert.equal(err.status, 400);
+      return true;
+    });
+  const encode = (v: unknown) => Buffer.from(JSON.stringify(v)).toString('base64url');
+
+  test('rejects garbage', () => invalid('not-base64-json'));
+  test('rejects an unknown direction', () => invalid(encode({ d: 'sideways', v: [1, null] })));
+  test('rejects a cursor for a different sort', () => invalid(encode({ d: 'next', v: [1] })));
+  test('rejects untagged objects in values', () => invalid(encode({ d: 'next', v: [{ $where: '1' }, null] })));
+  test('rejects keyset cursors on offset sorts', () => invalid(encode({ d: 'next', v: [1, null] }), { s: { $meta: 'textScore' } }));
+});
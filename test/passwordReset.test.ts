@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Types } from 'mongoose';
+import { env } from '../src/config/env';
+import { AuthToken } from '../src/models/AuthToken';
+import { Session } from '../src/models/Session';
+import { User } from '../src/models/User';
+import { forgotPassword, resetPassword, verifyEmail } from '../src/controllers/auth.controller';
+import { consumeAuthToken, issueAuthToken } from '../src/services/authToken.service';
+import { MailMessage, sendMail, setMailTransport } from '../src/services/mail.service';
+import { hashPassword, verifyPassword } from '../src/utils/password';
+import { Doc, matches } from './helpers/memoryFilter';
+
+// Tokens and users live in memory; mail goes to `outbox` once the transport is swapped in
+
+let tokens: Doc[];
+let users: Doc[];
+let outbox: Array<MailMessage & { from: string }>;
+let delivered = () => undefined as void;
+
+const plain = (doc: Doc) => Object.fromEntries(Object.entries(doc).filter(([, v]) => typeof v !== 'function'));
+const hydrate = (row: Doc) => {
+  const doc: Doc = { ...row, save: async () => void Object.assign(row, plain(doc)) };
+  return doc;
+};
+
+// resolves with what the handler answered; thrown errors reject
+function call(handler: (req: any, res: any) => unknown, body: Doc) {
+  return new Promise<{ status: number; body: any }>((resolve, reject) => {
+    const res: any = {
+      statusCode: 200,
+      status(code: number) {
+        res.statusCode = code;
+        return res;
+      },
+      clearCookie: () => res,
+      json: (json: any) => resolve({ status: res.statusCode, body: json })
+    };
+    Promise.resolve(handler({ body }, res)).catch(reject);
+  });
+}
+
+// the link in the last mail carries the token
+const mailedToken = () => new URL(/https?:\/\/\S+/.exec(outbox[outbox.length - 1].text)![0]).searchParams.get('token')!;
+
+let alice: Doc;
+
+beforeEach(async () => {
+  tokens = [];
+  outbox = [];
+  alice = { _id: new Types.ObjectId(), fullName: 'Alice', email: 'alice@x.test', passwordHash: await hashPassword('old-password'), tokenVersion: 0, suspendedAt: null, emailVerifiedAt: null };
+  users = [alice];
+
+  mock.method(AuthToken, 'exists', async (filter: Doc) => tokens.find((t) => matches(t, filter)) ?? null);
+  mock.method(AuthToken, 'deleteMany', async (filter: Doc) => {
+    tokens = tokens.filter((t) => !matches(t, filter));
+  });
+  mock.method(AuthToken, 'create', async (row: Doc) => tokens.push({ usedAt: null, createdAt: new Date(), ...row }));
+  mock.method(AuthToken, 'findOneAndUpdate', (filter: Doc, update: Doc) => ({
+    lean: async () => {
+      const row = tokens.find((t) => matches(t, filter));
+      return row ? Object.assign(row, update.$set) : null;
+    }
+  }));
+  mock.method(User, 'findOne', async (filter: Doc) => {
+    const row = users.find((u) => matches(u, filter));
+    return row ? hydrate(row) : null;
+  });
+  mock.method(User, 'findById', async (id: unknown) => {
+    const row = users.find((u) => String(u._id) === String(id));
+    return row ? hydrate(row) : null;
+  });
+  mock.method(User, 'updateOne', async (filter: Doc, update: Doc) => {
+    const row = users.find((u) => matches(u, filter));
+    if (row) {
+      Object.assign(row, update.$set);
+      for (const [k, by] of Object.entries(update.$inc ?? {})) row[k] += by as number;
+    }
+    return { matchedCount: row ? 1 : 0 };
+  });
+  mock.method(Session, 'updateMany', async () => ({ modifiedCount: 0 }));
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('mail transport', () => {
+  test('production refuses to fall back to console output', async () => {
+    const previous = { env: env.NODE_ENV, transport: env.MAIL_TRANSPORT };
+    env.NODE_ENV = 'production';
+    env.MAIL_TRANSPORT = '';
+    try {
+      await assert.rejects(sendMail({ to: 'a@x.test', subject: 's', text: 't' }), /No mail transport configured/);
+    } finally {
+      env.NODE_ENV = previous.env;
+      env.MAIL_TRANSPORT = previous.transport;
+    }
+  });
+
+  test('CR/LF in header values cannot inject headers', async () => {
+    setMailTransport({ send: async (m) => void outbox.push(m) });
+    await sendMail({ to: 'a@x.test\r\nBcc: evil@x.test', subject: 'Hi\nBcc: evil@x.test', text: 'body\nstays' });
+    assert.equal(outbox[0].to, 'a@x.test Bcc: evil@x.test');
+    assert.equal(outbox[0].subject, 'Hi Bcc: evil@x.test');
+    assert.equal(outbox[0].text, 'body\nstays');
+  });
+});
+
+describe('auth tokens', () => {
+  test('only the hash is stored, and a token works once', async () => {
+    const token = (await issueAuthToken(alice._id, 'password_reset', 'Alice@X.test'))!;
+    assert.equal(tokens.length, 1);
+    assert.notEqual(tokens[0].tokenHash, token);
+    assert.equal(tokens[0].email, 'alice@x.test');
+    assert.equal(await consumeAuthToken(token, 'email_verification'), null);
+    assert.equal(String((await consumeAuthToken(token, 'password_reset'))?.user), String(alice._id));
+    assert.equal(await consumeAuthToken(token, 'password_reset'), null);
+  });
+
+  test('expired tokens are refused', async () => {
+    const token = (await issueAuthToken(alice._id, 'password_reset', alice.email))!;
+    tokens[0].expiresAt = new Date(Date.now() - 1000);
+    assert.equal(await consumeAuthToken(token, 'password_reset'), null);
+  });
+
+  test('no new token within the resend cooldown; a later one replaces the old', async () => {
+    const first = (await issueAuthToken(alice._id, 'password_reset', alice.email))!;
+    assert.equal(await issueAuthToken(alice._id, 'password_reset', alice.email), null);
+    tokens[0].createdAt = new Date(Date.now() - 2 * 60 * 1000);
+    const second = await issueAuthToken(alice._id, 'password_reset', alice.email);
+    assert.ok(second);
+    assert.equal(tokens.length, 1);
+    assert.equal(await consumeAuthToken(first, 'password_reset'), null);
+  });
+});
+
+describe('password reset flow', () => {
+  beforeEach(() => {
+    setMailTransport({
+      send: async (m) => {
+        outbox.push(m);
+        delivered();
+      }
+    });
+  });
+
+  const requestReset = async (email: string) => {
+    const mailed = new Promise<void>((resolve) => (delivered = resolve));
+    const res = await call(forgotPassword, { email });
+    return { res, mailed };
+  };
+
+  test('the same answer whether or not the account exists', async () => {
+    const unknown = await requestReset('nobody@x.test');
+    const known = await requestReset('Alice@x.test');
+    assert.deepEqual(unknown.res, known.res);
+    await known.mailed;
+    assert.equal(outbox.length, 1);
+    assert.equal(outbox[0].to, 'alice@x.test');
+  });
+
+  test('the mailed token sets a new password, verifies the address and logs out everywhere', async () => {
+    await (await requestReset(alice.email)).mailed;
+    const res = await call(resetPassword, { token: mailedToken(), password: 'new-password' });
+    assert.equal(res.status, 200);
+    assert.equal(await verifyPassword('new-password', alice.passwordHash), true);
+    assert.ok(alice.emailVerifiedAt instanceof Date);
+    assert.equal(alice.tokenVersion, 1);
+  });
+
+  test('a used or made-up token is a 400', async () => {
+    await (await requestReset(alice.email)).mailed;
+    const token = mailedToken();
+    await call(resetPassword, { token, password: 'new-password' });
+    await assert.rejects(call(resetPassword, { token, password: 'another-one' }), { status: 400 });
+    await assert.rejects(call(resetPassword, { token: 'made-up', password: 'another-one' }), { status: 400 });
+  });
+
+  test('suspended accounts get no reset mail', async () => {
+    alice.suspendedAt = new Date();
+    await call(forgotPassword, { email: alice.email });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.equal(outbox.length, 0);
+  });
+});
+
+describe('email verification', () => {
+  test('the token verifies the address it was sent to, once', async () => {
+    const token = (await issueAuthToken(alice._id, 'email_verification', alice.email))!;
+    assert.equal((await call(verifyEmail, { token })).status, 200);
+    assert.ok(alice.emailVerifiedAt instanceof Date);
+    await assert.rejects(call(verifyEmail, { token }), { status: 400 });
+  });
+
+  test('a token for an address the user has since changed is refused', async () => {
+    const token = (await issueAuthToken(alice._id, 'email_verification', alice.email))!;
+    alice.email = 'new@x.test';
+    await assert.rejects(call(verifyEmail, { token }), { status: 400 });
+    assert.equal(alice.emailVerifiedAt, null);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { hasPermission, Permission, PERMISSIONS, permissionsFor } from '../src/config/permissions';
+import { requirePermission } from '../src/middleware/requirePermission';
+
+describe('role permissions', () => {
+  test('admins have every permission', () => {
+    assert.deepEqual([...permissionsFor('admin')].sort(), [...PERMISSIONS].sort());
+  });
+
+  test('managers can read and moderate but not manage', () => {
+    assert.deepEqual([...permissionsFor('manager')].sort(), ['links.moderate', 'links.read.any', 'stats.view', 'users.read']);
+    for (const p of ['links.delete.any', 'links.export', 'users.manage', 'users.roles', 'users.delete', 'policies.manage', 'safety.manage'] as Permission[]) {
+      assert.equal(hasPermission('manager', p), false, p);
+    }
+  });
+
+  test('users and unknown roles have none', () => {
+    assert.deepEqual(permissionsFor('user'), []);
+    assert.deepEqual(permissionsFor(undefined), []);
+    assert.deepEqual(permissionsFor('root' as any), []);
+    assert.equal(hasPermission(undefined, 'users.read'), false);
+  });
+});
+
+describe('requirePermission', () => {
+  // runs the middleware and reports whether it passed or the status it answered with
+  function run(user: unknown, ...perms: Permission[]) {
+    let status: number | undefined;
+    let passed = false;
+    const res: any = {
+      status(code: number) {
+        status = code;
+        return res;
+      },
+      json: () => res
+    };
+    requirePermission(...perms)({ user } as any, res, () => (passed = true));
+    return passed ? 'next' : status;
+  }
+
+  test('passes when the role has every listed permission', () => {
+    assert.equal(run({ sub: 'u1', role: 'manager' }, 'links.read.any'), 'next');
+    assert.equal(run({ sub: 'u1', role: 'admin' }, 'links.read.any', 'links.export'), 'next');
+  });
+
+  test('needs all of them, not any', () => {
+    assert.equal(run({ sub: 'u1', role: 'manager' }, 'links.read.any', 'links.export'), 403);
+  });
+
+  test('rejects plain users and anonymous requests', () => {
+    assert.equal(run({ sub: 'u1', role: 'user' }, 'users.read'), 403);
+    assert.equal(run(undefined, 'users.read'), 403);
+  });
+
+  test('API keys never get admin permissions, even for admins', () => {
+    assert.equal(run({ sub: 'u1', role: 'admin', apiKeyId: 'k1' }, 'users.read'), 403);
+  });
+});
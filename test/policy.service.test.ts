@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Types } from 'mongoose';
+import { Link } from '../src/models/Link';
+import { LinkPolicy } from '../src/models/LinkPolicy';
+import {
+  DEFAULT_POLICIES,
+  enforceCreateQuota,
+  enforceMaxActiveLinks,
+  getEffectivePolicy,
+  remainingBulkQuota,
+  resolveExpiryDate,
+  roleKey,
+  userKey
+} from '../src/services/policy.service';
+import { Doc, matches, sortDocs } from './helpers/memoryFilter';
+
+// Policy documents and links live in memory; the quota queries run through `matches`
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const userId = String(new Types.ObjectId());
+let policies: Doc[];
+let links: Doc[];
+
+// the quota filters use $exists and $gte, which memoryFilter leaves to the caller
+function linkMatches(doc: Doc, filter: Doc) {
+  const { batchId, $or, ...rest } = filter;
+  if (batchId && (doc.batchId !== undefined) !== batchId.$exists) return false;
+  if ($or && !$or.some((f: Doc) => (f.expiresAt === null ? doc.expiresAt === null : doc.expiresAt >= f.expiresAt.$gte))) {
+    return false;
+  }
+  return matches(doc, rest);
+}
+
+beforeEach(() => {
+  policies = [];
+  links = [];
+  mock.method(LinkPolicy, 'findOne', (filter: Doc) => ({
+    lean: async () => policies.find((p) => p.key === filter.key) ?? null
+  }));
+  mock.method(Link, 'countDocuments', async (filter: Doc) => links.filter((l) => linkMatches(l, filter)).length);
+  mock.method(Link, 'findOne', (filter: Doc) => {
+    let skip = 0;
+    const query: any = {
+      sort: () => query,
+      skip: (n: number) => ((skip = n), query),
+      select: () => query,
+      lean: async () => sortDocs(links.filter((l) => linkMatches(l, filter)), { createdAt: 1 })[skip] ?? null
+    };
+    return query;
+  });
+});
+
+afterEach(() => mock.restoreAll());
+
+const link = (minutesAgo: number, extra: Doc = {}) =>
+  links.push({ createdBy: userId, isActive: true, expiresAt: null, createdAt: new Date(Date.now() - minutesAgo * 60_000), ...extra });
+
+describe('getEffectivePolicy', () => {
+  test('falls back to the built-in role defaults', async () => {
+    assert.deepEqual(await getEffectivePolicy(userId, 'manager'), DEFAULT_POLICIES.manager);
+  });
+
+  test('a user override beats the role policy, which beats the defaults', async () => {
+    policies.push({ key: roleKey('user'), createLimit: 20, maxExpiryDays: 30 });
+    policies.push({ key: userKey(userId), createLimit: null });
+    const policy = await getEffectivePolicy(userId, 'user');
+    assert.equal(policy.createLimit, null); // null is "unlimited", not "unset"
+    assert.equal(policy.maxExpiryDays, 30);
+    assert.equal(policy.bulkLimit, DEFAULT_POLICIES.user.bulkLimit);
+  });
+});
+
+describe('enforceCreateQuota', () => {
+  const policy = { ...DEFAULT_POLICIES.user, createLimit: 2, createWindowMinutes: 60 };
+
+  test('allows creations under the limit; old and bulk links do not count', async () => {
+    link(10);
+    link(90);
+    link(5, { batchId: 'b1' });
+    await enforceCreateQuota(userId, policy);
+  });
+
+  test('over the limit, reports the wait until the oldest link leaves the window', async () => {
+    link(50);
+    link(10);
+    await assert.rejects(enforceCreateQuota(userId, policy), (err: any) => {
+      assert.equal(err.status, 429);
+      assert.match(err.message, /only 2 links per 60 minutes\. Try again in 10m \d+s\./);
+      assert.ok(err.retryAfterSeconds > 9 * 60 && err.retryAfterSeconds <= 10 * 60);
+      return true;
+    });
+  });
+
+  test('a null limit is unlimited', async () => {
+    for (let i = 0; i < 10; i++) link(1);
+    await enforceCreateQuota(userId, { ...policy, createLimit: null });
+  });
+});
+
+describe('remainingBulkQuota', () => {
+  test('counts only bulk rows inside the window', async () => {
+    link(5, { batchId: 'b1' });
+    link(5, { batchId: 'b1' });
+    link(5);
+    link(3 * 24 * 60, { batchId: 'b0' });
+    assert.equal(await remainingBulkQuota(userId, { ...DEFAULT_POLICIES.user, bulkLimit: 3 }), 1);
+    assert.equal(await remainingBulkQuota(userId, { ...DEFAULT_POLICIES.user, bulkLimit: null }), Infinity);
+  });
+});
+
+describe('enforceMaxActiveLinks', () => {
+  const policy = { ...DEFAULT_POLICIES.user, maxActiveLinks: 2 };
+
+  test('counts active, unexpired links against the cap', async () => {
+    link(1);
+    link(1, { isActive: false });
+    link(1, { expiresAt: new Date(Date.now() - 1000) });
+    await enforceMaxActiveLinks(userId, policy);
+    link(1, { expiresAt: new Date(Date.now() + DAY_MS) });
+    await assert.rejects(enforceMaxActiveLinks(userId, policy), { status: 403 });
+  });
+
+  test('bulk imports check the whole batch at once', async () => {
+    await assert.rejects(enforceMaxActiveLinks(userId, policy, 3), { status: 403 });
+  });
+});
+
+describe('resolveExpiryDate', () => {
+  const user = DEFAULT_POLICIES.user;
+  const days = (d: Date | null) => Math.round(((d?.getTime() ?? 0) - Date.now()) / DAY_MS);
+
+  test('no date means the default horizon', () => {
+    assert.equal(days(resolveExpiryDate(undefined, user)), 5);
+  });
+
+  test('dates past the policy horizon are capped', () => {
+    assert.equal(days(resolveExpiryDate(new Date(Date.now() + 30 * DAY_MS).toISOString(), user)), 5);
+  });
+
+  test('past and unparseable dates fall back to the default', () => {
+    assert.equal(days(resolveExpiryDate('2000-01-01', user)), 5);
+    assert.equal(days(resolveExpiryDate('not a date', user)), 5);
+  });
+
+  test('never-expiring links only where the policy allows them', () => {
+    assert.throws(() => resolveExpiryDate(null, user), { status: 400 });
+    assert.equal(resolveExpiryDate(null, DEFAULT_POLICIES.manager), null);
+  });
+
+  test('the default never exceeds the maximum', () => {
+    assert.equal(days(resolveExpiryDate(undefined, { ...user, maxExpiryDays: 2, defaultExpiryDays: 7 })), 2);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PNG } from 'pngjs';
+import { qrEtag, QrOptions, renderQr } from '../src/services/qr.service';
+
+// No QR_LOGO_PATH is configured here, so logo requests render a plain code
+
+const opts: QrOptions = { format: 'png', size: 200, margin: 4, ecc: 'M', fg: '#000000', bg: '#ffffff', logo: false };
+const url = 'https://sho.rt/abc123';
+
+describe('renderQr', () => {
+  test('PNG output has the requested size', async () => {
+    const png = PNG.sync.read((await renderQr(url, opts)) as Buffer);
+    assert.equal(png.width, 200);
+    assert.equal(png.height, 200);
+  });
+
+  test('SVG output uses the requested colours', async () => {
+    const svg = (await renderQr(url, { ...opts, format: 'svg', fg: '#112233', bg: '#ffeedd' })) as string;
+    assert.match(svg, /^<svg[\s\S]*<\/svg>\s*$/);
+    assert.match(svg, /#112233/);
+    assert.match(svg, /#ffeedd/);
+  });
+
+  test('a logo without a configured file still renders', async () => {
+    const svg = (await renderQr(url, { ...opts, format: 'svg', logo: true })) as string;
+    assert.doesNotMatch(svg, /<image/);
+  });
+});
+
+describe('qrEtag', () => {
+  test('is stable for the same text and options', () => {
+    assert.equal(qrEtag(url, opts), qrEtag(url, { ...opts }));
+    assert.match(qrEtag(url, opts), /^"qr-[0-9a-f]{27}"$/);
+  });
+
+  test('changes with the text or any option', () => {
+    const base = qrEtag(url, opts);
+    assert.notEqual(qrEtag(`${url}x`, opts), base);
+    assert.notEqual(qrEtag(url, { ...opts, size: 300 }), base);
+    assert.notEqual(qrEtag(url, { ...opts, format: 'svg' }), base);
+    assert.notEqual(qrEtag(url, { ...opts, fg: '#112233' }), base);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { countdownPage, passwordPage, previewPage } from '../src/views/redirectPages';
+import { escapeHtml, sendHtml } from '../src/utils/html';
+
+// Everything interpolated into these pages comes from link owners or fetched metadata
+
+const hostile = '"><script>alert(1)</script>';
+
+describe('escapeHtml', () => {
+  test('escapes markup and both quote styles', () => {
+    assert.equal(escapeHtml(`<a href="x" title='y'>&</a>`), '&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;&amp;&lt;/a&gt;');
+    assert.equal(escapeHtml(undefined), '');
+  });
+});
+
+describe('previewPage', () => {
+  test('escapes the destination and the fetched metadata', () => {
+    const html = previewPage({
+      destination: `https://example.com/?q=${hostile}`,
+      meta: { title: hostile, description: hostile, siteName: hostile }
+    });
+    assert.doesNotMatch(html, /<script>/);
+    assert.match(html, /Continue to example\.com/);
+  });
+
+  test('only shows https preview images', () => {
+    const page = (image: string) => previewPage({ destination: 'https://example.com/', meta: { image } });
+    assert.match(page('https://cdn.example.com/a.png'), /<img class="preview" src="https:\/\/cdn\.example\.com\/a\.png"/);
+    assert.doesNotMatch(page('http://cdn.example.com/a.png'), /<img/);
+    assert.doesNotMatch(page('javascript:alert(1)'), /<img/);
+  });
+});
+
+describe('countdownPage', () => {
+  const html = countdownPage({ destination: `https://example.com/</script><script>alert(1)//`, seconds: 5, nonce: 'abc123', title: hostile });
+
+  test('the script carries the nonce and cannot be closed by the destination', () => {
+    assert.equal(html.match(/<script nonce="abc123">/g)?.length, 1);
+    assert.equal(html.match(/<\/script>/g)?.length, 1);
+    assert.match(html, /window\.location\.replace\("https:\/\/example\.com\/\\u003c\/script>\\u003cscript>alert\(1\)\/\/"\)/);
+  });
+
+  test('falls back to a meta refresh for browsers without JS', () => {
+    assert.match(html, /<meta http-equiv="refresh" content="5;url=https:\/\/example\.com\/&lt;\/script&gt;/);
+  });
+
+  test('escapes the title', () => {
+    assert.doesNotMatch(html, /"><script>alert/);
+  });
+});
+
+describe('passwordPage', () => {
+  test('escapes the form action and the error', () => {
+    const html = passwordPage({ action: `/abc?x=${hostile}`, error: hostile });
+    assert.doesNotMatch(html, /<script>/);
+    assert.match(html, /<form method="post" action="\/abc\?x=&quot;&gt;/);
+  });
+});
+
+describe('sendHtml', () => {
+  test('sends a per-response nonce in the CSP and in the page, uncached', () => {
+    const headers: Record<string, string> = {};
+    let status = 0;
+    let body = '';
+    const res: any = {
+      set: (k: string, v: string) => ((headers[k] = v), res),
+      status: (code: number) => ((status = code), res),
+      type: () => res,
+      send: (html: string) => ((body = html), res)
+    };
+    sendHtml(res, 200, (nonce) => countdownPage({ destination: 'https://example.com/', seconds: 3, nonce }));
+
+    const nonce = headers['Content-Security-Policy'].match(/script-src 'nonce-([^']+)'/)?.[1];
+    assert.ok(nonce);
+    assert.ok(body.includes(`<script nonce="${escapeHtml(nonce)}">`));
+    assert.match(headers['Content-Security-Policy'], /default-src 'none'/);
+    assert.doesNotMatch(headers['Content-Security-Policy'], /form-action/);
+    assert.equal(headers['Cache-Control'], 'no-store');
+    assert.equal(status, 200);
+  });
+});
@@ -0,0 +1,106 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { env } from '../src/config/env';
+import type { RoutingRule } from '../src/models/Link';
+import { parseAcceptLanguage, resolveDestination } from '../src/services/routing.service';
+import { parseUserAgent } from '../src/utils/userAgent';
+
+// Rules are resolved against fake requests; countries come from a temporary GeoIP file
+
+const IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Version/17.0 Mobile/15E148 Safari/604.1';
+const WINDOWS_CHROME = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36';
+const ANDROID_TABLET = 'Mozilla/5.0 (Linux; Android 14; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36';
+
+const request = (headers: Record<string, string> = {}, ip = '203.0.113.9') =>
+  ({ ip, socket: {}, get: (name: string) => headers[name.toLowerCase()] }) as any;
+
+const route = (rules: RoutingRule[], req = request()) =>
+  resolveDestination({ originalUrl: 'https://default.test/', routingRules: rules }, req);
+
+const rule = (match: RoutingRule['match'], destination: string): RoutingRule => ({ match, destination });
+
+let dir: string;
+const previousGeoIp = env.GEOIP_DB_PATH;
+
+before(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'routing-'));
+  const file = path.join(dir, 'ip2country.csv');
+  fs.writeFileSync(file, '81.0.0.0,81.255.255.255,FR\n8.8.8.0,8.8.8.255,US\n');
+  env.GEOIP_DB_PATH = file;
+});
+
+after(() => {
+  env.GEOIP_DB_PATH = previousGeoIp;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('parseAcceptLanguage', () => {
+  test('orders by q, keeps header order on ties, drops q=0 and *', () => {
+    assert.deepEqual(parseAcceptLanguage('en;q=0.5, fr-CA, de;q=0, fr;q=0.9, *;q=0.1'), ['fr-ca', 'fr', 'en']);
+    assert.deepEqual(parseAcceptLanguage(undefined), []);
+  });
+});
+
+describe('parseUserAgent', () => {
+  test('classifies common devices, systems and browsers', () => {
+    assert.deepEqual(parseUserAgent(IPHONE), { device: 'mobile', os: 'ios', browser: 'safari' });
+    assert.deepEqual(parseUserAgent(WINDOWS_CHROME), { device: 'desktop', os: 'windows', browser: 'chrome' });
+    assert.deepEqual(parseUserAgent(ANDROID_TABLET), { device: 'tablet', os: 'android', browser: 'chrome' });
+    assert.equal(parseUserAgent('curl/8.0').device, 'bot');
+  });
+});
+
+describe('resolveDestination', () => {
+  test('no rules, or none matching, means the default destination', () => {
+    assert.deepEqual(route([]), { destination: 'https://default.test/', rule: null });
+    assert.deepEqual(route([rule({ devices: ['mobile'] }, 'https://m.test/')], request({ 'user-agent': WINDOWS_CHROME })), {
+      destination: 'https://default.test/',
+      rule: null
+    });
+  });
+
+  test('the first matching rule wins', () => {
+    const rules = [rule({ os: ['android'] }, 'https://android.test/'), rule({ devices: ['mobile'] }, 'https://m.test/'), rule({ os: ['ios'] }, 'https://ios.test/')];
+    assert.deepEqual(route(rules, request({ 'user-agent': IPHONE })), { destination: 'https://m.test/', rule: 1 });
+  });
+
+  test('all conditions of a rule must match', () => {
+    const rules = [rule({ countries: ['FR'], devices: ['mobile'] }, 'https://fr-mobile.test/')];
+    assert.equal(route(rules, request({ 'user-agent': IPHONE }, '81.1.2.3')).destination, 'https://fr-mobile.test/');
+    assert.equal(route(rules, request({ 'user-agent': WINDOWS_CHROME }, '81.1.2.3')).destination, 'https://default.test/');
+    assert.equal(route(rules, request({ 'user-agent': IPHONE }, '8.8.8.8')).destination, 'https://default.test/');
+  });
+
+  test('country rules never match visitors without a known country', () => {
+    assert.equal(route([rule({ countries: ['US'] }, 'https://us.test/')], request({}, '192.0.2.1')).rule, null);
+  });
+
+  test('a language matches its regional variants, a regional one only itself', () => {
+    const fr = [rule({ languages: ['fr'] }, 'https://fr.test/')];
+    const frCa = [rule({ languages: ['fr-ca'] }, 'https://fr-ca.test/')];
+    assert.equal(route(fr, request({ 'accept-language': 'fr-CA,en;q=0.5' })).rule, 0);
+    assert.equal(route(frCa, request({ 'accept-language': 'fr-FR' })).rule, null);
+    assert.equal(route(frCa, request({ 'accept-language': 'fr-CA' })).rule, 0);
+    assert.equal(route(fr, request({ 'accept-language': 'french' })).rule, null);
+  });
+
+  test('referrer domains match subdomains but not look-alikes', () => {
+    const rules = [rule({ referrerDomains: ['news.test'] }, 'https://from-news.test/')];
+    assert.equal(route(rules, request({ referer: 'https://www.news.test/article' })).rule, 0);
+    assert.equal(route(rules, request({ referer: 'https://fakenews.test/' })).rule, null);
+    assert.equal(route(rules, request({ referer: 'not a url' })).rule, null);
+    assert.equal(route(rules).rule, null);
+  });
+
+  test('time windows use the rule timezone and can wrap past midnight', (t) => {
+    t.mock.timers.enable({ apis: ['Date'], now: new Date('2026-06-01T23:30:00Z') }); // a Monday
+    const overnight = [rule({ timeWindow: { start: '22:00', end: '06:00', timezone: 'UTC' } }, 'https://night.test/')];
+    const weekdays = (timezone: string) => [rule({ timeWindow: { days: [1], timezone } }, 'https://monday.test/')];
+    assert.equal(route(overnight).rule, 0);
+    assert.equal(route(weekdays('UTC')).rule, 0);
+    assert.equal(route(weekdays('Asia/Tokyo')).rule, null); // already Tuesday 08:30 there
+  });
+});
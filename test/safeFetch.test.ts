@@ -0,0 +1,178 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { isLoopbackIp, isPublicIp, safeFetch, SafeFetchError } from '../src/utils/safeFetch';
+
+// Rejections are checked by error code; the local receiver below is only reachable with allowLoopback
+async function rejects(promise: Promise<unknown>, code: string) {
+  await assert.rejects(promise, (err: any) => {
+    assert.ok(err instanceof SafeFetchError, `expected SafeFetchError, got ${err}`);
+    assert.equal(err.code, code);
+    return true;
+  });
+}
+
+describe('isPublicIp', () => {
+  test('rejects private, loopback, link-local and reserved ranges', () => {
+    for (const ip of ['10.1.2.3', '127.0.0.1', '169.254.169.254', '172.16.0.1', '192.168.1.1', '100.64.0.1', '0.0.0.0', '::1', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1']) {
+      assert.equal(isPublicIp(ip), false, ip);
+    }
+  });
+
+  test('accepts public addresses', () => {
+    for (const ip of ['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111']) assert.equal(isPublicIp(ip), true, ip);
+  });
+
+  test('checks the IPv4 address inside 6to4 and NAT64 addresses', () => {
+    // 2002:a9fe:a9fe:: = 169.254.169.254, 2002:7f00:1:: = 127.0.0.1, 2002:0a00:1:: = 10.0.0.1
+    for (const ip of ['2002:a9fe:a9fe::', '2002:7f00:1::1', '2002:a00:1::', '64:ff9b::a9fe:a9fe', '64:ff9b::127.0.0.1', '64:ff9b::192.168.1.1']) {
+      assert.equal(isPublicIp(ip), false, ip);
+    }
+    for (const ip of ['2002:808:808::1', '64:ff9b::8.8.8.8', '64:ff9b::101:101']) assert.equal(isPublicIp(ip), true, ip);
+  });
+
+  test('blocks Teredo and local-use NAT64 outright', () => {
+    for (const ip of ['2001:0:4136:e378:8000:63bf:3fff:fdd2', '64:ff9b:1::808:808']) assert.equal(isPublicIp(ip), false, ip);
+  });
+
+  test('hostnames are not IPs', () => {
+    assert.equal(isPublicIp('example.com'), false);
+  });
+
+  test('isLoopbackIp only matches loopback', () => {
+    assert.equal(isLoopbackIp('127.0.0.1'), true);
+    assert.equal(isLoopbackIp('::1'), true);
+    assert.equal(isLoopbackIp('10.0.0.1'), false);
+  });
+});
+
+describe('safeFetch URL checks', () => {
+  test('only http and https', () => rejects(safeFetch('ftp://example.com/'), 'SCHEME_NOT_ALLOWED'));
+  test('no credentials', () => rejects(safeFetch('http://user:pw@example.com/'), 'CREDENTIALS_NOT_ALLOWED'));
+  test('only allowed ports', () => rejects(safeFetch('http://example.com:27017/'), 'PORT_NOT_ALLOWED'));
+  test('no private IP literals', () => rejects(safeFetch('http://169.254.169.254/latest/meta-data'), 'ADDRESS_NOT_ALLOWED'));
+  test('no IPv6 loopback literals', () => rejects(safeFetch('http://[::1]/'), 'ADDRESS_NOT_ALLOWED'));
+  test('no 6to4 literals wrapping private IPv4', () => rejects(safeFetch('http://[2002:a9fe:a9fe::]/'), 'ADDRESS_NOT_ALLOWED'));
+  test('no localhost names', () => rejects(safeFetch('http://localhost/'), 'ADDRESS_NOT_ALLOWED'));
+  test('invalid URLs', () => rejects(safeFetch('not a url'), 'INVALID_URL'));
+});
+
+describe('safeFetch against a local server', () => {
+  let server: http.Server;
+  let base: string;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      switch (req.url) {
+        case '/html':
+          res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+          return res.end('<title>ok</title>');
+        case '/json':
+          res.writeHead(200, { 'content-type': 'application/json' });
+          return res.end('{}');
+        case '/big':
+          res.writeHead(200, { 'content-type': 'text/html' });
+          return res.end('x'.repeat(4096));
+        case '/hop':
+          res.writeHead(302, { location: '/html' });
+          return res.end();
+        case '/to-metadata':
+          res.writeHead(302, { location: '/hop-private' });
+          return res.end();
+        case '/hop-private':
+          res.writeHead(302, { location: 'http://169.254.169.254/latest' });
+          return res.end();
+        case '/loop':
+          res.writeHead(302, { location: '/loop' });
+          return res.end();
+        case '/drip': {
+          // headers right away, then a byte every 50 ms for far longer than the deadline
+          res.writeHead(200, { 'content-type': 'text/html' });
+          const timer = setInterval(() => res.write('x'), 50);
+          return res.on('close', () => clearInterval(timer));
+        }
+        case '/slow-hop':
+          return setTimeout(() => {
+            res.writeHead(302, { location: '/drip' });
+            res.end();
+          }, 200);
+        case '/echo': {
+          let body = '';
+          req.on('data', (c) => (body += c));
+          return req.on('end', () => res.end(`${req.method} ${body}`));
+        }
+        default:
+          res.writeHead(404);
+          res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  test('loopback is refused without the opt-in', () => rejects(safeFetch(`${base}/html`), 'PORT_NOT_ALLOWED'));
+
+  test('fetches with the opt-in and reports the content type', async () => {
+    const res = await safeFetch(`${base}/html`, { allowLoopback: true });
+    assert.equal(res.status, 200);
+    assert.equal(res.contentType, 'text/html');
+    assert.equal(res.data.toString(), '<title>ok</title>');
+    assert.deepEqual(res.redirects, []);
+  });
+
+  test('follows redirects and records every hop', async () => {
+    const res = await safeFetch(`${base}/hop`, { allowLoopback: true });
+    assert.equal(res.url, `${base}/html`);
+    assert.deepEqual(res.redirects, [`${base}/html`]);
+  });
+
+  test('a redirect to a private address fails and keeps the partial chain', async () => {
+    await assert.rejects(safeFetch(`${base}/to-metadata`, { allowLoopback: true }), (err: any) => {
+      assert.ok(err instanceof SafeFetchError);
+      assert.equal(err.code, 'ADDRESS_NOT_ALLOWED');
+      assert.deepEqual(err.redirects, [`${base}/hop-private`, 'http://169.254.169.254/latest']);
+      return true;
+    });
+  });
+
+  test('stops after maxRedirects', () =>
+    rejects(safeFetch(`${base}/loop`, { allowLoopback: true, maxRedirects: 2 }), 'TOO_MANY_REDIRECTS'));
+
+  test('maxRedirects 0 refuses any redirect', () =>
+    rejects(safeFetch(`${base}/hop`, { allowLoopback: true, maxRedirects: 0 }), 'TOO_MANY_REDIRECTS'));
+
+  test('caps the response size', () =>
+    rejects(safeFetch(`${base}/big`, { allowLoopback: true, maxBytes: 1024 }), 'TOO_LARGE'));
+
+  test('enforces allowed content types', () =>
+    rejects(safeFetch(`${base}/json`, { allowLoopback: true, contentTypes: ['text/html'] }), 'CONTENT_TYPE_NOT_ALLOWED'));
+
+  test('POST sends the body and can skip reading the response', async () => {
+    const res = await safeFetch(`${base}/echo`, { method: 'POST', body: '{"a":1}', allowLoopback: true, readBody: false });
+    assert.equal(res.status, 200);
+    assert.equal(res.data.length, 0);
+    const read = await safeFetch(`${base}/echo`, { method: 'POST', body: 'hi', allowLoopback: true });
+    assert.equal(read.data.toString(), 'POST hi');
+  });
+
+  test('one deadline covers a body that keeps dripping in', async () => {
+    const started = Date.now();
+    await rejects(safeFetch(`${base}/drip`, { allowLoopback: true, timeoutMs: 300 }), 'TIMEOUT');
+    assert.ok(Date.now() - started < 1500);
+  });
+
+  test('the deadline spans redirects rather than restarting per hop', async () => {
+    const started = Date.now();
+    await rejects(safeFetch(`${base}/slow-hop`, { allowLoopback: true, timeoutMs: 400 }), 'TIMEOUT');
+    assert.ok(Date.now() - started < 1500);
+  });
+
+  test('connection failures become SafeFetchError', () =>
+    rejects(safeFetch('http://127.0.0.1:1/', { allowLoopback: true, timeoutMs: 1000 }), 'REQUEST_FAILED'));
+});
@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Types } from 'mongoose';
+import { env } from '../src/config/env';
+import { Link } from '../src/models/Link';
+import { SafetyRule } from '../src/models/SafetyRule';
+import { Webhook } from '../src/models/Webhook';
+import {
+  checkLinkDestinations,
+  checkUrl,
+  FileThreatListScanner,
+  invalidateSafetyRules,
+  linkDestinations,
+  registerScanner,
+  rescanLinks
+} from '../src/services/safety.service';
+import { Doc } from './helpers/memoryFilter';
+
+// Rules and links are in memory; redirect chains are not followed (no network).
+
+let links: Doc[];
+let rules: Doc[];
+const followRedirects = env.SAFETY_FOLLOW_REDIRECTS;
+
+const link = (extra: Doc = {}) => ({
+  _id: new Types.ObjectId(),
+  createdBy: new Types.ObjectId(),
+  isActive: true,
+  originalUrl: 'https://clean.test/',
+  routingRules: [],
+  variants: [],
+  ...extra
+});
+
+beforeEach(() => {
+  env.SAFETY_FOLLOW_REDIRECTS = false;
+  invalidateSafetyRules();
+  links = [];
+  rules = [{ list: 'block', kind: 'domain', pattern: 'bad.test', reason: 'Known phishing host' }];
+
+  mock.method(SafetyRule, 'find', () => ({ lean: async () => rules }));
+  mock.method(Link, 'find', () => {
+    const chain: any = { sort: () => chain, limit: () => chain, cursor: () => links.map((l) => ({ ...l })) };
+    return chain;
+  });
+  mock.method(Link, 'updateOne', async (filter: Doc, update: Doc) => {
+    Object.assign(links.find((l) => String(l._id) === String(filter._id))!, update.$set);
+  });
+  mock.method(Link, 'findOneAndUpdate', (filter: Doc, update: Doc) => ({
+    lean: async () => Object.assign(links.find((l) => String(l._id) === String(filter._id))!, update.$set)
+  }));
+  mock.method(Webhook, 'find', () => ({ select: () => ({ lean: async () => [] }) }));
+});
+
+afterEach(() => {
+  env.SAFETY_FOLLOW_REDIRECTS = followRedirects;
+  mock.restoreAll();
+});
+
+describe('checkUrl', () => {
+  test('block rules match the domain and its subdomains, not look-alikes', async () => {
+    assert.deepEqual(await checkUrl('https://bad.test/x'), { ok: false, reason: 'Known phishing host', source: 'blocklist' });
+    assert.equal((await checkUrl('https://login.bad.test/')).ok, false);
+    assert.equal((await checkUrl('https://notbad.test/')).ok, true);
+  });
+
+  test('regex rules match the whole URL, case-insensitively', async () => {
+    rules.push({ list: 'block', kind: 'regex', pattern: '/wp-login\\.php' });
+    const verdict = await checkUrl('https://clean.test/WP-LOGIN.php');
+    assert.equal(verdict.ok, false);
+    assert.match(verdict.reason!, /Blocked by rule/);
+  });
+
+  test('links to other shorteners are refused', async () => {
+    const verdict = await checkUrl('https://bit.ly/abc');
+    assert.equal(verdict.source, 'shortener');
+  });
+
+  test('the allowlist wins over block rules and shortener detection', async () => {
+    rules.push({ list: 'allow', kind: 'domain', pattern: 'bit.ly' }, { list: 'allow', kind: 'domain', pattern: 'safe.bad.test' });
+    assert.equal((await checkUrl('https://bit.ly/abc')).ok, true);
+    assert.equal((await checkUrl('https://safe.bad.test/')).ok, true);
+    assert.equal((await checkUrl('https://bad.test/')).ok, false);
+  });
+
+  test('rules are cached until invalidated', async () => {
+    rules = [];
+    assert.equal((await checkUrl('https://bad.test/')).ok, true);
+    rules = [{ list: 'block', kind: 'domain', pattern: 'bad.test' }];
+    assert.equal((await checkUrl('https://bad.test/')).ok, true);
+    invalidateSafetyRules();
+    assert.equal((await checkUrl('https://bad.test/')).ok, false);
+  });
+
+  test('unparseable URLs fail', async () => {
+    assert.equal((await checkUrl('not a url')).source, 'parser');
+  });
+
+  test('registered scanners get a say after the rules', async () => {
+    registerScanner({
+      name: 'test',
+      scan: async (_url, host) => (host === 'scanned.test' ? { ok: false, reason: 'Malware', source: 'scanner:test' } : null)
+    });
+    assert.deepEqual(await checkUrl('https://scanned.test/'), { ok: false, reason: 'Malware', source: 'scanner:test' });
+    assert.equal((await checkUrl('https://clean.test/')).ok, true);
+  });
+});
+
+describe('FileThreatListScanner', () => {
+  test('matches listed domains, their subdomains and exact URLs', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'threats-'));
+    const file = path.join(dir, 'threats.txt');
+    fs.writeFileSync(file, '# feed\nmalware.test\nhttps://clean.test/payload/  # one page only\n');
+    try {
+      const scanner = new FileThreatListScanner(file);
+      assert.equal((await scanner.scan('https://cdn.malware.test/x', 'cdn.malware.test'))?.ok, false);
+      assert.equal((await scanner.scan('https://clean.test/payload', 'clean.test'))?.ok, false);
+      assert.equal(await scanner.scan('https://clean.test/other', 'clean.test'), null);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('linkDestinations', () => {
+  test('lists the default, rule and variant destinations once each', () => {
+    const l = link({
+      routingRules: [{ match: { countries: ['FR'] }, destination: 'https://fr.test/' }],
+      variants: [
+        { key: 'a', destination: 'https://clean.test/', weight: 1, clicks: 0 },
+        { key: 'b', destination: 'https://b.test/', weight: 1, clicks: 0 }
+      ]
+    });
+    assert.deepEqual(linkDestinations(l as any), ['https://clean.test/', 'https://fr.test/', 'https://b.test/']);
+  });
+});
+
+describe('checkLinkDestinations', () => {
+  test('fails on a routing rule destination and names it', async () => {
+    const verdict = await checkLinkDestinations(link({
+      routingRules: [{ match: { devices: ['mobile'] }, destination: 'https://www.bad.test/login' }]
+    }) as any);
+    assert.equal(verdict.ok, false);
+    assert.equal(verdict.source, 'blocklist');
+    assert.match(verdict.reason!, /^https:\/\/www\.bad\.test\/login: Known phishing host/);
+  });
+
+  test('passes a link whose destinations are all clean', async () => {
+    assert.equal((await checkLinkDestinations(link() as any)).ok, true);
+  });
+});
+
+describe('rescanLinks', () => {
+  test('deactivates a link whose default is clean but an A/B variant was blocked', async () => {
+    links.push(
+      link({
+        variants: [
+          { key: 'a', destination: 'https://clean.test/a', weight: 1, clicks: 0 },
+          { key: 'b', destination: 'https://bad.test/b', weight: 1, clicks: 0 }
+        ]
+      }),
+      link()
+    );
+
+    const result = await rescanLinks();
+    assert.deepEqual(result, { scanned: 2, flagged: 1 });
+    assert.equal(links[0].isActive, false);
+    assert.equal(links[0].safety.status, 'flagged');
+    assert.match(links[0].deactivatedReason, /bad\.test\/b/);
+    assert.equal(links[1].isActive, true);
+    assert.equal(links[1].safety.status, 'ok');
+  });
+});
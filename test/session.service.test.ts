@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Types } from 'mongoose';
+import { Session } from '../src/models/Session';
+import { User } from '../src/models/User';
+import { verifyRefreshToken } from '../src/utils/jwt';
+import { endSession, revokeAllSessions, rotateSession, startSession } from '../src/services/session.service';
+import { Doc, matches } from './helpers/memoryFilter';
+
+// Session and User statics are replaced by an in-memory store, so the rotation and
+// reuse-detection logic runs without a database.
+
+const req = { get: () => 'test-agent', headers: {}, ip: '203.0.113.5', socket: {} } as any;
+
+let sessions: Doc[];
+let users: Doc[];
+
+const applySet = (doc: Doc, update: Doc) => Object.assign(doc, update.$set ?? {});
+
+beforeEach(() => {
+  sessions = [];
+  users = [{ _id: new Types.ObjectId(), role: 'user', tokenVersion: 0, suspendedAt: null }];
+
+  mock.method(Session, 'create', async (doc: Doc) => {
+    const saved = { _id: new Types.ObjectId(), revokedAt: null, ...doc };
+    sessions.push(saved);
+    return saved;
+  });
+  mock.method(Session, 'findOneAndUpdate', async (filter: Doc, update: Doc) => {
+    const doc = sessions.find((s) => matches(s, filter));
+    return doc ? { ...applySet(doc, update) } : null;
+  });
+  mock.method(Session, 'findOne', (filter: Doc) => ({
+    lean: async () => {
+      const doc = sessions.find((s) => matches(s, filter));
+      return doc ? { ...doc } : null;
+    }
+  }));
+  mock.method(Session, 'updateMany', async (filter: Doc, update: Doc) => {
+    const hits = sessions.filter((s) => matches(s, filter));
+    hits.forEach((s) => applySet(s, update));
+    return { modifiedCount: hits.length };
+  });
+  mock.method(User, 'findById', async (id: string) => users.find((u) => String(u._id) === String(id)) ?? null);
+  mock.method(User, 'updateOne', async (filter: Doc, update: Doc) => {
+    const user = users.find((u) => matches(u, filter));
+    if (user && update.$inc?.tokenVersion) user.tokenVersion += update.$inc.tokenVersion;
+    return { modifiedCount: user ? 1 : 0 };
+  });
+});
+
+afterEach(() => mock.restoreAll());
+
+const rejects401 = (promise: Promise<unknown>) =>
+  assert.rejects(promise, (err: any) => {
+    assert.equal(err.status, 401);
+    return true;
+  });
+
+describe('startSession', () => {
+  test('persists a session and binds the refresh token to it', async () => {
+    const { accessToken, refreshToken } = await startSession(users[0] as any, req);
+    assert.ok(accessToken);
+    assert.equal(sessions.length, 1);
+    const payload = verifyRefreshToken(refreshToken);
+    assert.equal(payload.sid, String(sessions[0]._id));
+    assert.equal(payload.jti, sessions[0].jti);
+    assert.equal(payload.tv, 0);
+    assert.equal(sessions[0].userAgent, 'test-agent');
+  });
+});
+
+describe('rotateSession', () => {
+  test('issues a new refresh token and retires the old jti', async () => {
+    const first = await startSession(users[0] as any, req);
+    const oldJti = sessions[0].jti;
+    const second = await rotateSession(first.refreshToken, req);
+    const payload = verifyRefreshToken(second.refreshToken);
+    assert.notEqual(payload.jti, oldJti);
+    assert.equal(payload.jti, sessions[0].jti);
+    assert.equal(sessions[0].prevJti, oldJti);
+    assert.equal(sessions[0].revokedAt, null);
+  });
+
+  test('concurrent refreshes with the same token both succeed', async () => {
+    const { refreshToken } = await startSession(users[0] as any, req);
+    const [a, b] = await Promise.all([rotateSession(refreshToken, req), rotateSession(refreshToken, req)]);
+    assert.equal(verifyRefreshToken(a.refreshToken).jti, sessions[0].jti);
+    assert.equal(verifyRefreshToken(b.refreshToken).jti, sessions[0].jti);
+    assert.equal(sessions[0].revokedAt, null);
+  });
+
+  test('the previous token right after rotation gets the current one without rotating again', async () => {
+    const { refreshToken } = await startSession(users[0] as any, req);
+    await rotateSession(refreshToken, req);
+    const current = sessions[0].jti;
+    const retry = await rotateSession(refreshToken, req);
+    assert.equal(verifyRefreshToken(retry.refreshToken).jti, current);
+    assert.equal(sessions[0].jti, current);
+  });
+
+  test('an old token after the grace window revokes the session', async () => {
+    const { refreshToken } = await startSession(users[0] as any, req);
+    const rotated = await rotateSession(refreshToken, req);
+    sessions[0].rotatedAt = new Date(Date.now() - 5 * 60 * 1000);
+
+    await rejects401(rotateSession(refreshToken, req));
+    assert.ok(sessions[0].revokedAt);
+    assert.equal(sessions[0].revokedReason, 'reuse');
+    // the legitimate holder is logged out too
+    await rejects401(rotateSession(rotated.refreshToken, req));
+  });
+
+  test('a token older than the previous one is reuse even inside the window', async () => {
+    const { refreshToken } = await startSession(users[0] as any, req);
+    const second = await rotateSession(refreshToken, req);
+    await rotateSession(second.refreshToken, req);
+    await rejects401(rotateSession(refreshToken, req));
+    assert.equal(sessions[0].revokedReason, 'reuse');
+  });
+
+  test('rejects tokens issued before a tokenVersion bump', async () => {
+    const { refreshToken } = await startSession(users[0] as any, req);
+    users[0].tokenVersion = 1;
+    await rejects401(rotateSession(refreshToken, req));
+    assert.equal(sessions[0].revokedAt, null);
+  });
+
+  test('rejects suspended users', async () => {
+    const { refreshToken } = await startSession(users[0] as any, req);
+    users[0].suspendedAt = new Date();
+    await rejects401(rotateSession(refreshToken, req));
+  });
+
+  test('rejects revoked sessions and garbage', async () => {
+    const { refreshToken } = await startSession(users[0] as any, req);
+    sessions[0].revokedAt = new Date();
+    await rejects401(rotateSession(refreshToken, req));
+    await rejects401(rotateSession('not-a-jwt', req));
+  });
+});
+
+describe('revokeAllSessions / endSession', () => {
+  test('revokes every session and bumps tokenVersion', async () => {
+    await startSession(users[0] as any, req);
+    await startSession(users[0] as any, req);
+    const revoked = await revokeAllSessions(String(users[0]._id));
+    assert.equal(revoked, 2);
+    assert.equal(users[0].tokenVersion, 1);
+    assert.ok(sessions.every((s) => s.revokedReason === 'logout-all'));
+  });
+
+  test('endSession ignores invalid tokens', async () => {
+    await endSession('garbage');
+    await endSession(undefined);
+  });
+});
@@ -0,0 +1,85 @@
+import { after, before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { env } from '../src/config/env';
+import { Link } from '../src/models/Link';
+import { getStrategy, insertWithUniqueShortCode, isDuplicateShortCode } from '../src/services/shortCode.service';
+
+// The unique index is simulated by `insert` callbacks that throw E11000 for taken codes
+
+const duplicate = () => Object.assign(new Error('E11000 duplicate key'), { code: 11000, keyPattern: { shortCode: 1 } });
+const previous = { strategy: env.SHORTCODE_STRATEGY, attempts: env.SHORTCODE_MAX_ATTEMPTS };
+
+before(() => {
+  mock.method(Link, 'estimatedDocumentCount', async () => 0);
+});
+
+after(() => {
+  env.SHORTCODE_STRATEGY = previous.strategy;
+  env.SHORTCODE_MAX_ATTEMPTS = previous.attempts;
+  mock.restoreAll();
+});
+
+describe('isDuplicateShortCode', () => {
+  test('only duplicate-key errors on shortCode count', () => {
+    assert.equal(isDuplicateShortCode(duplicate()), true);
+    assert.equal(isDuplicateShortCode({ code: 11000, message: 'E11000 index: shortCode_1_domain_1' }), true);
+    assert.equal(isDuplicateShortCode({ code: 11000, keyPattern: { customAlias: 1 } }), false);
+    assert.equal(isDuplicateShortCode(new Error('boom')), false);
+  });
+});
+
+describe('insertWithUniqueShortCode', () => {
+  test('unknown strategies fall back to random', () => {
+    env.SHORTCODE_STRATEGY = 'nope';
+    assert.equal(getStrategy(), 'random');
+  });
+
+  test('random codes are base62 at the configured length', async () => {
+    env.SHORTCODE_STRATEGY = 'random';
+    const code = await insertWithUniqueShortCode(async (c) => c);
+    assert.match(code, new RegExp(`^[0-9A-Za-z]{${env.SHORTCODE_LENGTH}}$`));
+  });
+
+  test('words codes read as adjective-noun-digits', async () => {
+    env.SHORTCODE_STRATEGY = 'words';
+    assert.match(await insertWithUniqueShortCode(async (c) => c), /^[a-z]+-[a-z]+-\d{2,}$/);
+  });
+
+  test('retries on collisions and grows the code after repeated ones', async () => {
+    env.SHORTCODE_STRATEGY = 'random';
+    env.SHORTCODE_MAX_ATTEMPTS = 5;
+    const tried: string[] = [];
+    const code = await insertWithUniqueShortCode(async (c) => {
+      tried.push(c);
+      if (tried.length < 3) throw duplicate();
+      return c;
+    });
+    assert.equal(tried.length, 3);
+    assert.equal(code.length, tried[0].length + 1);
+  });
+
+  test('gives up with a 503 once the attempts run out', async () => {
+    env.SHORTCODE_MAX_ATTEMPTS = 3;
+    let calls = 0;
+    await assert.rejects(
+      insertWithUniqueShortCode(async () => {
+        calls++;
+        throw duplicate();
+      }),
+      { status: 503 }
+    );
+    assert.equal(calls, 3);
+  });
+
+  test('other insert errors are not retried', async () => {
+    let calls = 0;
+    await assert.rejects(
+      insertWithUniqueShortCode(async () => {
+        calls++;
+        throw new Error('validation failed');
+      }),
+      /validation failed/
+    );
+    assert.equal(calls, 1);
+  });
+});
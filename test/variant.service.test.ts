@@ -0,0 +1,88 @@
+import { afterEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto = require('crypto');
+import { Types } from 'mongoose';
+import type { LinkVariant } from '../src/models/Link';
+import { assignVariant, nextVariantKeys, pickWeighted, variantCookieName } from '../src/services/variant.service';
+
+// The random draw is pinned with a mocked crypto.randomInt where the outcome matters
+
+const variant = (key: string, weight: number): LinkVariant => ({ key, destination: `https://${key}.test/`, weight, clicks: 0 });
+const variants = [variant('a', 3), variant('b', 0), variant('c', 1)];
+const link = { _id: new Types.ObjectId(), variants };
+
+// fake response that records cookies
+function response() {
+  const cookies: Array<{ name: string; value: string; opts: Record<string, unknown> }> = [];
+  const res: any = { cookie: (name: string, value: string, opts: Record<string, unknown>) => cookies.push({ name, value, opts }) };
+  return { res, cookies };
+}
+
+afterEach(() => mock.restoreAll());
+
+describe('pickWeighted', () => {
+  test('maps the draw onto the active variants by weight', () => {
+    const draws = mock.method(crypto, 'randomInt', () => 0);
+    assert.equal(pickWeighted(variants)?.key, 'a');
+    assert.equal(draws.mock.calls[0].arguments[0], 4); // paused variants don't count towards the total
+    draws.mock.mockImplementation(() => 2);
+    assert.equal(pickWeighted(variants)?.key, 'a');
+    draws.mock.mockImplementation(() => 3);
+    assert.equal(pickWeighted(variants)?.key, 'c');
+  });
+
+  test('never picks a paused variant', () => {
+    for (let i = 0; i < 200; i++) assert.notEqual(pickWeighted(variants)?.key, 'b');
+  });
+
+  test('nothing to pick when every variant is paused', () => {
+    assert.equal(pickWeighted([variant('a', 0)]), undefined);
+    assert.equal(pickWeighted([]), undefined);
+  });
+});
+
+describe('assignVariant', () => {
+  const cookie = variantCookieName(link);
+
+  test('a new visitor gets a variant and a long-lived, http-only cookie for this link', () => {
+    mock.method(crypto, 'randomInt', () => 3);
+    const { res, cookies } = response();
+    const picked = assignVariant(link, { cookies: {}, secure: true } as any, res);
+    assert.equal(picked?.key, 'c');
+    assert.equal(cookies.length, 1);
+    assert.equal(cookies[0].name, `ab_${link._id}`);
+    assert.equal(cookies[0].value, 'c');
+    assert.equal(cookies[0].opts.httpOnly, true);
+    assert.equal(cookies[0].opts.secure, true);
+    assert.ok((cookies[0].opts.maxAge as number) >= 7 * 24 * 60 * 60 * 1000);
+  });
+
+  test('a returning visitor keeps their variant without a new cookie', () => {
+    const { res, cookies } = response();
+    for (let i = 0; i < 20; i++) assert.equal(assignVariant(link, { cookies: { [cookie]: 'c' } } as any, res)?.key, 'c');
+    assert.equal(cookies.length, 0);
+  });
+
+  test('a cookie for a paused or removed variant is reassigned', () => {
+    mock.method(crypto, 'randomInt', () => 0);
+    for (const stale of ['b', 'zz']) {
+      const { res, cookies } = response();
+      assert.equal(assignVariant(link, { cookies: { [cookie]: stale } } as any, res)?.key, 'a');
+      assert.equal(cookies[0].value, 'a');
+    }
+  });
+
+  test('links without variants are left alone', () => {
+    const { res, cookies } = response();
+    assert.equal(assignVariant({ _id: link._id, variants: [] }, { cookies: {} } as any, res), undefined);
+    assert.equal(cookies.length, 0);
+  });
+});
+
+describe('nextVariantKeys', () => {
+  test('skips taken keys and continues past z', () => {
+    assert.deepEqual(nextVariantKeys(new Set(['a', 'c']), 3), ['b', 'd', 'e']);
+    const alphabet = new Set('abcdefghijklmnopqrstuvwxy'.split(''));
+    assert.deepEqual(nextVariantKeys(alphabet, 3), ['z', 'aa', 'ab']);
+  });
+});
@@ -0,0 +1,150 @@
+import { after, afterEach, before, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Types } from 'mongoose';
+import { env } from '../src/config/env';
+import { Webhook } from '../src/models/Webhook';
+import { WebhookDelivery } from '../src/models/WebhookDelivery';
+import { emitEvent, processDueDeliveries, signPayload } from '../src/services/webhook.service';
+import { Doc } from './helpers/memoryFilter';
+
+// Deliveries go to a local receiver (WEBHOOK_ALLOW_LOCALHOST); the queue lives in memory
+
+const secret = 'whsec_test';
+const userId = new Types.ObjectId();
+
+// what a receiver does with the documented headers
+const receiverAccepts = (headers: http.IncomingHttpHeaders, body: string) => {
+  const expected = 'sha256=' + crypto.createHmac('sha256', secret).update(`${headers['x-webhook-timestamp']}.${body}`).digest('hex');
+  const given = String(headers['x-webhook-signature']);
+  return given.length === expected.length && crypto.timingSafeEqual(Buffer.from(given), Buffer.from(expected));
+};
+
+describe('signPayload', () => {
+  test('is an HMAC-SHA256 over "timestamp.body"', () => {
+    const expected = crypto.createHmac('sha256', secret).update('1700000000.{"a":1}').digest('hex');
+    assert.equal(signPayload(secret, '1700000000', '{"a":1}'), `sha256=${expected}`);
+  });
+
+  test('changes with the timestamp, the body and the secret', () => {
+    const base = signPayload(secret, '1', 'x');
+    assert.notEqual(signPayload(secret, '2', 'x'), base);
+    assert.notEqual(signPayload(secret, '1', 'y'), base);
+    assert.notEqual(signPayload('whsec_other', '1', 'x'), base);
+  });
+});
+
+describe('emitEvent', () => {
+  afterEach(() => mock.restoreAll());
+
+  test('queues one delivery per active subscription to the event', async () => {
+    const hooks = [
+      { _id: new Types.ObjectId(), events: ['link.created'] },
+      { _id: new Types.ObjectId(), events: ['*'] },
+      { _id: new Types.ObjectId(), events: ['link.deleted'] }
+    ];
+    mock.method(Webhook, 'find', () => ({ select: () => ({ lean: async () => hooks }) }));
+    const insert = mock.method(WebhookDelivery, 'insertMany', async (rows: Doc[]) => rows);
+
+    await emitEvent(userId, 'link.created', { link: { shortCode: 'abc' } });
+    const rows = insert.mock.calls[0].arguments[0] as unknown as Doc[];
+    assert.deepEqual(rows.map((r) => r.webhook), [hooks[0]._id, hooks[1]._id]);
+    assert.equal(rows[0].payload, rows[1].payload);
+    assert.equal(rows[0].payload.event, 'link.created');
+  });
+
+  test('nothing is queued without a user or a subscription', async () => {
+    mock.method(Webhook, 'find', () => ({ select: () => ({ lean: async () => [] }) }));
+    const insert = mock.method(WebhookDelivery, 'insertMany', async () => []);
+    await emitEvent(null, 'link.created', {});
+    await emitEvent(userId, 'link.created', {});
+    assert.equal(insert.mock.callCount(), 0);
+  });
+});
+
+describe('processDueDeliveries', () => {
+  let server: http.Server;
+  let received: Array<{ headers: http.IncomingHttpHeaders; body: string }>;
+  let replyWith: number;
+  let queue: Doc[];
+  let updates: Doc[];
+  const allowLocalhost = env.WEBHOOK_ALLOW_LOCALHOST;
+  const hook = { _id: new Types.ObjectId(), url: '', secret, active: true };
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (c) => (body += c));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(replyWith);
+        res.end('receiver body that must not be stored');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    hook.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+    env.WEBHOOK_ALLOW_LOCALHOST = true;
+  });
+
+  after(() => {
+    env.WEBHOOK_ALLOW_LOCALHOST = allowLocalhost;
+    server.close();
+  });
+
+  beforeEach(() => {
+    received = [];
+    replyWith = 200;
+    updates = [];
+    queue = [{ _id: new Types.ObjectId(), webhook: hook._id, event: 'link.created', attempts: 0, payload: { id: 'evt_1', data: { n: 1 } } }];
+    mock.method(WebhookDelivery, 'findOneAndUpdate', () => ({ lean: async () => queue.shift() ?? null }));
+    mock.method(WebhookDelivery, 'updateOne', async (_filter: Doc, update: Doc) => updates.push(update));
+    mock.method(Webhook, 'findById', () => ({ select: () => ({ lean: async () => hook }) }));
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  test('sends a signed request a receiver can verify', async () => {
+    await processDueDeliveries();
+    assert.equal(received.length, 1);
+    const { headers, body } = received[0];
+    assert.deepEqual(JSON.parse(body), { id: 'evt_1', data: { n: 1 } });
+    assert.equal(headers['x-webhook-event'], 'link.created');
+    assert.ok(Math.abs(Number(headers['x-webhook-timestamp']) - Date.now() / 1000) < 5);
+    assert.equal(receiverAccepts(headers, body), true);
+    assert.equal(receiverAccepts(headers, body.replace('1', '2')), false);
+  });
+
+  test('a 2xx marks the delivery as delivered and stores only the status', async () => {
+    await processDueDeliveries();
+    const { $set } = updates[0];
+    assert.equal($set.status, 'success');
+    assert.equal($set.responseStatus, 200);
+    assert.equal($set.attempts, 1);
+    assert.ok(!JSON.stringify(updates).includes('must not be stored'));
+  });
+
+  test('an error status schedules a retry with backoff', async () => {
+    replyWith = 500;
+    await processDueDeliveries();
+    const { $set } = updates[0];
+    assert.equal($set.status, 'pending');
+    assert.match($set.lastError, /HTTP 500/);
+    assert.ok($set.nextAttemptAt.getTime() >= Date.now() + 25 * 1000);
+  });
+
+  test('gives up after the last attempt', async () => {
+    replyWith = 500;
+    queue[0].attempts = 7;
+    await processDueDeliveries();
+    assert.equal(updates[0].$set.status, 'failed');
+  });
+
+  test('a disabled webhook fails the delivery without sending', async () => {
+    mock.method(Webhook, 'findById', () => ({ select: () => ({ lean: async () => ({ ...hook, active: false }) }) }));
+    await processDueDeliveries();
+    assert.equal(received.length, 0);
+    assert.equal(updates[0].$set.status, 'failed');
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Types } from 'mongoose';
+import { Workspace } from '../src/models/Workspace';
+import {
+  getWorkspaceRole,
+  hasWorkspaceRole,
+  linkAccessFilter,
+  workspaceIdsFor
+} from '../src/services/workspace.service';
+import { Doc, matches } from './helpers/memoryFilter';
+
+// Access filters are evaluated against in-memory links with `matches`, as MongoDB would
+
+const alice = String(new Types.ObjectId());
+const bob = String(new Types.ObjectId());
+const carol = String(new Types.ObjectId());
+const member = (user: string, role: string) => ({ user: new Types.ObjectId(user), role });
+
+const marketing = { _id: new Types.ObjectId(), members: [member(alice, 'owner'), member(bob, 'viewer')] };
+const sales = { _id: new Types.ObjectId(), members: [member(alice, 'viewer'), member(bob, 'editor')] };
+let workspaces: Doc[];
+
+const links = [
+  { name: 'alice personal', createdBy: new Types.ObjectId(alice), workspace: null },
+  { name: 'bob personal', createdBy: new Types.ObjectId(bob), workspace: null },
+  { name: 'marketing by alice', createdBy: new Types.ObjectId(alice), workspace: marketing._id },
+  { name: 'sales by bob', createdBy: new Types.ObjectId(bob), workspace: sales._id },
+  { name: 'sales by carol', createdBy: new Types.ObjectId(carol), workspace: sales._id }
+];
+
+const visible = async (userId: string, min?: 'viewer' | 'editor' | 'owner') => {
+  const filter = await linkAccessFilter(userId, min);
+  return links.filter((l) => matches(l, filter)).map((l) => l.name);
+};
+
+beforeEach(() => {
+  workspaces = [marketing, sales];
+  mock.method(Workspace, 'find', (filter: Doc) => ({
+    lean: async () => workspaces.filter((ws) => ws.members.some((m: Doc) => String(m.user) === String(filter['members.user'])))
+  }));
+  mock.method(Workspace, 'findById', (id: string) => ({
+    lean: async () => workspaces.find((ws) => String(ws._id) === String(id)) ?? null
+  }));
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('hasWorkspaceRole', () => {
+  test('ranks owner over editor over viewer', () => {
+    assert.equal(hasWorkspaceRole('owner', 'editor'), true);
+    assert.equal(hasWorkspaceRole('editor', 'editor'), true);
+    assert.equal(hasWorkspaceRole('viewer', 'editor'), false);
+    assert.equal(hasWorkspaceRole(undefined, 'viewer'), false);
+  });
+});
+
+describe('workspaceIdsFor', () => {
+  test('only workspaces where the user holds the minimum role', async () => {
+    assert.deepEqual((await workspaceIdsFor(alice)).map(String), [String(marketing._id), String(sales._id)]);
+    assert.deepEqual((await workspaceIdsFor(alice, 'editor')).map(String), [String(marketing._id)]);
+    assert.deepEqual(await workspaceIdsFor(carol), []);
+  });
+});
+
+describe('getWorkspaceRole', () => {
+  test('returns the member role, or nothing for outsiders and bad ids', async () => {
+    assert.equal(await getWorkspaceRole(String(sales._id), bob), 'editor');
+    assert.equal(await getWorkspaceRole(String(sales._id), carol), undefined);
+    assert.equal(await getWorkspaceRole('not-an-id', bob), undefined);
+  });
+});
+
+describe('linkAccessFilter', () => {
+  test('viewers see their personal links and every link of their workspaces', async () => {
+    assert.deepEqual(await visible(alice), ['alice personal', 'marketing by alice', 'sales by bob', 'sales by carol']);
+  });
+
+  test('editing needs the editor role in the link workspace', async () => {
+    assert.deepEqual(await visible(alice, 'editor'), ['alice personal', 'marketing by alice']);
+    assert.deepEqual(await visible(bob, 'editor'), ['bob personal', 'sales by bob', 'sales by carol']);
+  });
+
+  test('other people’s personal links are never included', async () => {
+    assert.ok(!(await visible(alice)).includes('bob personal'));
+  });
+
+  test('creators removed from a workspace lose access to the links they made there', async () => {
+    assert.deepEqual(await visible(carol), []);
+    workspaces = [marketing];
+    assert.deepEqual(await visible(bob), ['bob personal', 'marketing by alice']);
+  });
+});